@@ -1,6 +1,7 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { FaSpotify } from 'react-icons/fa';
 import { useSpotifyAuth } from '@/lib/auth/authUtils';
 import { useRouter } from 'next/navigation';
@@ -55,6 +56,14 @@ export default function LandingPage() {
             <FaSpotify className="mr-2 text-xl" />
             Login with Spotify
           </button>
+
+          {/* Guest flow for users without Spotify */}
+          <Link
+            href="/team/guest"
+            className="block w-full text-center text-sm font-medium text-gray-700 mt-4 hover:underline"
+          >
+            Continue without Spotify
+          </Link>
         </div>
       </div>
     </main>
@@ -0,0 +1,22 @@
+import React from 'react';
+import type { PlayerSyncOutcome } from '@/models/syncRunModel';
+import type { SyncRunSummary } from '@/services/walkupSongs/syncRunService';
+
+// Outcome columns in display order
+export const SYNC_OUTCOMES: PlayerSyncOutcome[] = ['created', 'updated', 'unchanged', 'skipped', 'error'];
+
+const STATUS_STYLES: Record<SyncRunSummary['status'], string> = {
+  running: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+export function formatSyncDuration(run: SyncRunSummary): string {
+  if (!run.finishedAt) return '—';
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export function SyncRunStatusBadge({ status }: { status: SyncRunSummary['status'] }) {
+  return <span className={`px-2 py-1 rounded text-xs font-bold ${STATUS_STYLES[status]}`}>{status}</span>;
+}
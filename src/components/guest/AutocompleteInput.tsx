@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import type { AutocompleteSuggestion, AutocompleteType } from '@/services/walkupSongs/walkupAutocompleteService';
+
+interface AutocompleteInputProps {
+  type: AutocompleteType;
+  label: string;
+  placeholder: string;
+  selected: AutocompleteSuggestion[];
+  onChange: (selected: AutocompleteSuggestion[]) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const suggestionKey = (suggestion: AutocompleteSuggestion) => `${suggestion.label}|${suggestion.artistName || ''}`;
+
+// Search box over the walkup dataset; picks show as removable chips
+export function AutocompleteInput({ type, label, placeholder, selected, onChange }: AutocompleteInputProps) {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<AutocompleteSuggestion[]>([]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/walkupSongs/autocomplete?type=${type}&q=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        );
+        if (response.ok) setSuggestions(await response.json());
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') console.error('Error fetching suggestions:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [type, query]);
+
+  const selectedKeys = new Set(selected.map(suggestionKey));
+
+  const handleSelect = (suggestion: AutocompleteSuggestion) => {
+    if (!selectedKeys.has(suggestionKey(suggestion))) onChange([...selected, suggestion]);
+    setQuery('');
+    setSuggestions([]);
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-xs font-bold uppercase text-black text-opacity-70 mb-1">{label}</label>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {selected.map(suggestion => (
+            <span key={suggestionKey(suggestion)} className="flex items-center bg-[#1ed660] bg-opacity-20 text-black text-xs rounded-full px-3 py-1">
+              {suggestion.label}{suggestion.artistName ? ` – ${suggestion.artistName}` : ''}
+              <button
+                onClick={() => onChange(selected.filter(other => suggestionKey(other) !== suggestionKey(suggestion)))}
+                className="ml-2 text-black text-opacity-60 hover:text-opacity-100"
+                aria-label={`Remove ${suggestion.label}`}
+              >
+                <FaTimes />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder={placeholder}
+          className="w-full border border-gray-200 rounded-[4px] px-3 py-2 text-sm text-black"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 w-full bg-white border border-gray-200 rounded-[4px] shadow-sm mt-1 max-h-60 overflow-y-auto">
+            {suggestions.filter(suggestion => !selectedKeys.has(suggestionKey(suggestion))).map(suggestion => (
+              <li key={suggestionKey(suggestion)}>
+                <button
+                  onClick={() => handleSelect(suggestion)}
+                  className="w-full text-left px-3 py-2 text-sm text-black hover:bg-gray-100"
+                >
+                  {suggestion.label}
+                  {suggestion.artistName && <span className="text-black text-opacity-60"> – {suggestion.artistName}</span>}
+                  <span className="float-right text-xs text-black text-opacity-50">
+                    {suggestion.playerCount} {suggestion.playerCount === 1 ? 'player' : 'players'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
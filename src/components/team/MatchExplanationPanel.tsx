@@ -0,0 +1,68 @@
+import React from 'react';
+import { MatchExplanation, MatchComponentType } from '@/lib/walkupSongs/matchingTypes';
+
+interface MatchExplanationPanelProps {
+  explanation: MatchExplanation;
+}
+
+const COMPONENT_LABELS: Record<MatchComponentType, string> = {
+  song: 'Song',
+  playlist: 'Playlist',
+  album: 'Album',
+  artist: 'Artist',
+  followed: 'Followed',
+  related: 'Related',
+  feature: 'Feature',
+  genre: 'Genre',
+  liked: 'Liked',
+  stats: 'Stats',
+  diversity: 'Diversity',
+  artistPenalty: 'Penalty'
+};
+
+const formatContribution = (value: number): string =>
+  `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(3)}`;
+
+export function MatchExplanationPanel({ explanation }: MatchExplanationPanelProps) {
+  if (explanation.components.length === 0) {
+    return (
+      <p className="text-xs text-black text-opacity-70">No breakdown available for this player.</p>
+    );
+  }
+
+  return (
+    <div className="rounded-[4px] bg-black bg-opacity-[0.03] p-3">
+      <div className="flex justify-between text-xs font-bold text-black text-opacity-70 uppercase mb-2">
+        <span>Why this player?</span>
+        <span>Score {explanation.matchScore.toFixed(3)}</span>
+      </div>
+      {explanation.pickedFor && (
+        <p className="text-xs text-black mb-2">Picked for <span className="font-bold">{explanation.pickedFor}</span></p>
+      )}
+      <ul className="space-y-1">
+        {explanation.components.map((component, index) => (
+          <li key={`${component.type}-${index}`} className="grid grid-cols-12 gap-2 text-xs">
+            <span className="col-span-2 font-bold uppercase text-black text-opacity-70">
+              {COMPONENT_LABELS[component.type]}
+            </span>
+            <span className="col-span-7 min-w-0">
+              <span className="text-black">{component.label}</span>
+              {component.trigger && (
+                <span className="block text-black text-opacity-70 truncate">{component.trigger}</span>
+              )}
+            </span>
+            <span className="col-span-1 text-black text-opacity-50 text-right">×{component.weight}</span>
+            <span className={`col-span-2 text-right font-semibold ${component.contribution < 0 ? 'text-red-700' : 'text-[#117B00]'}`}>
+              {formatContribution(component.contribution)}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {explanation.selectionScore !== undefined && (
+        <p className="text-xs text-black text-opacity-70 mt-2">
+          Diversity boost and artist penalty only affect who gets picked (selection score {explanation.selectionScore.toFixed(3)}).
+        </p>
+      )}
+    </div>
+  );
+}
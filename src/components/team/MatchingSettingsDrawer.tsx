@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { MATCHING_PROFILES, MATCHING_PROFILE_IDS, MatchingProfileId } from '@/config/matchingProfiles';
+
+interface MatchingSettingsDrawerProps {
+  open: boolean;
+  profileId: MatchingProfileId;
+  onClose: () => void;
+  onApply: (profileId: MatchingProfileId) => void;
+}
+
+export function MatchingSettingsDrawer({ open, profileId, onClose, onApply }: MatchingSettingsDrawerProps) {
+  const [selected, setSelected] = useState<MatchingProfileId>(profileId);
+
+  // Start from the current profile each time the drawer opens
+  useEffect(() => {
+    if (open) setSelected(profileId);
+  }, [open, profileId]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-white shadow-lg p-4 flex flex-col" aria-label="Matching settings">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-base text-black">Matching profile</h3>
+          <button onClick={onClose} className="text-black text-opacity-70 hover:text-opacity-100" aria-label="Close settings">
+            <FaTimes />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {MATCHING_PROFILE_IDS.map(id => {
+            const profile = MATCHING_PROFILES[id];
+            return (
+              <label
+                key={id}
+                className={`block rounded-[4px] border p-3 cursor-pointer ${selected === id ? 'border-[#10a445] bg-[#1ed660] bg-opacity-10' : 'border-gray-200'}`}
+              >
+                <input
+                  type="radio"
+                  name="matching-profile"
+                  value={id}
+                  checked={selected === id}
+                  onChange={() => setSelected(id)}
+                  className="sr-only"
+                />
+                <span className="block text-sm font-bold text-black">{profile.label}</span>
+                <span className="block text-xs text-black text-opacity-70">{profile.description}</span>
+              </label>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={() => onApply(selected)}
+          className="mt-4 w-full bg-[#1ed660] px-3 py-2 text-black text-xs uppercase rounded-[4px] font-bold hover:bg-opacity-90 transition-all"
+        >
+          Regenerate team
+        </button>
+      </aside>
+    </div>
+  );
+}
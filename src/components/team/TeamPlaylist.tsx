@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import Image from 'next/image';
 import { Team, Player } from '@/lib/mlb/types';
+import { MatchExplanationPanel } from './MatchExplanationPanel';
 
 interface TeamPlaylistProps {
   team: Team | null;
   loading?: boolean;
+  readOnly?: boolean; // Hides the Spotify export, e.g. on shared team pages
 }
 
 // Helper to find a player by ID
@@ -12,9 +14,36 @@ const findPlayerById = (players: Player[], id: string): Player | undefined => {
   return players.find(player => player.id === id);
 };
 
-export function TeamPlaylist({ team, loading = false }: TeamPlaylistProps) {
+export function TeamPlaylist({ team, loading = false, readOnly = false }: TeamPlaylistProps) {
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleOpenInSpotify = async () => {
+    if (!team || exporting) return;
+    setExporting(true);
+    setExportError(null);
+
+    try {
+      const response = await fetch('/api/team/playlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ team })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to export playlist');
+      }
+      const { url } = await response.json();
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      console.error('Error exporting playlist:', err);
+      setExportError('Could not create your Spotify playlist. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
 
   const handleAlbumClick = (songId: string, previewUrl?: string) => {
     if (playingAudio === songId) {
@@ -110,29 +139,39 @@ export function TeamPlaylist({ team, loading = false }: TeamPlaylistProps) {
       playerId: player.id,
       playerName: player.name,
       playerPosition: player.position,
-      playerTeam: player.team
+      playerTeam: player.team,
+      matchExplanation: player.matchExplanation
     }));
   }).sort((a, b) => b.matchScore - a.matchScore);
 
   // Deduplicate matching songs by title/artist combo
+  const songKey = (song: { songName: string; artists: Array<{ name: string }> }) =>
+    `${song.songName.trim().toLowerCase()}|${song.artists.map(a => a.name.trim().toLowerCase()).join(',')}`;
   const dedupedMatchingSongs = allMatchingSongs.filter((song, index, self) => {
-    const key = `${song.songName.trim().toLowerCase()}|${song.artistName.trim().toLowerCase()}`;
-    return index === self.findIndex(s =>
-      `${s.songName.trim().toLowerCase()}|${s.artistName.trim().toLowerCase()}` === key
-    );
+    const key = songKey(song);
+    return index === self.findIndex(s => songKey(s) === key);
   });
 
   return (
     <div className="w-full mt-6">
       <div className="flex justify-between items-center mb-2">
         <h3 className="font-bold text-base text-black">Team Playlist</h3>
-        <button className="flex items-center bg-[#1ed660] bg-opacity-15 px-3 py-2 text-[#10a445] text-xs uppercase rounded-[4px] hover:bg-opacity-20 transition-all font-bold">
-          <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
-            <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.419 1.56-.299.421-1.02.599-1.559.3z"/>
-          </svg>
-          Open in Spotify
-        </button>
+        {!readOnly && (
+          <button
+            onClick={handleOpenInSpotify}
+            disabled={exporting}
+            className="flex items-center bg-[#1ed660] bg-opacity-15 px-3 py-2 text-[#10a445] text-xs uppercase rounded-[4px] hover:bg-opacity-20 transition-all font-bold disabled:opacity-50"
+          >
+            <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.419 1.56-.299.421-1.02.599-1.559.3z"/>
+            </svg>
+            {exporting ? 'Creating playlist…' : 'Open in Spotify'}
+          </button>
+        )}
       </div>
+      {exportError && (
+        <p className="text-xs text-red-700 mb-2">{exportError}</p>
+      )}
       
       {/* Table Header */}
       <div className="overflow-hidden">
@@ -148,13 +187,15 @@ export function TeamPlaylist({ team, loading = false }: TeamPlaylistProps) {
         <div>
           {dedupedMatchingSongs.map((song, index) => {
             const isPlaying = playingAudio === `${song.playerId}-${index}`;
+            const rowId = `${song.playerId}-${index}`;
+            const isExpanded = expandedRow === rowId;
             
             return (
               <div key={`${song.playerId}-${index}`} className="grid grid-cols-12 gap-4 p-2">
                 {/* Song Info */}
                 <div className="col-span-6 min-w-0 flex items-center">
                   <button 
-                    onClick={() => handleAlbumClick(`${song.playerId}-${index}`, song.previewUrl)}
+                    onClick={() => handleAlbumClick(`${song.playerId}-${index}`, song.previewUrl ?? undefined)}
                     className="relative w-14 h-14 rounded overflow-hidden mr-3 group flex-shrink-0"
                   >
                     <Image 
@@ -195,6 +236,15 @@ export function TeamPlaylist({ team, loading = false }: TeamPlaylistProps) {
                       </span>
                       <span className="text-black text-opacity-70 text-xs">{song.playerTeam}</span>
                     </div>
+                    {song.matchExplanation && (
+                      <button
+                        onClick={() => setExpandedRow(isExpanded ? null : rowId)}
+                        className="text-left text-xs text-[#10a445] font-bold hover:underline"
+                        aria-expanded={isExpanded}
+                      >
+                        {isExpanded ? 'Hide details' : 'Why this player?'}
+                      </button>
+                    )}
                   </div>
                 </div>
                 
@@ -206,8 +256,12 @@ export function TeamPlaylist({ team, loading = false }: TeamPlaylistProps) {
                       <span className="sm:hidden">
                         {song.matchReason.includes('Top song') ? 'Top song' :
                          song.matchReason.includes('Liked song') ? 'Liked' :
+                         song.matchReason.includes('In your playlist') ? 'Playlist' :
+                         song.matchReason.includes('Saved album') ? 'Saved album' :
                          song.matchReason.includes('Top artist') ? 'Top artist' :
+                         song.matchReason.includes('Followed artist') ? 'Followed' :
                          song.matchReason.includes('Partial artist') ? 'Artist match' :
+                         song.matchReason.includes('Similar to') ? 'Similar artist' :
                          song.matchReason.includes('Strong match') ? 'Genre match' :
                          song.matchReason.includes('Matches your genre') ? 'Genre match' :
                          '🎵 Match'}
@@ -220,6 +274,13 @@ export function TeamPlaylist({ team, loading = false }: TeamPlaylistProps) {
                     )}
                   </div>
                 </div>
+
+                {/* Match Explanation */}
+                {isExpanded && song.matchExplanation && (
+                  <div className="col-span-12">
+                    <MatchExplanationPanel explanation={song.matchExplanation} />
+                  </div>
+                )}
               </div>
             );
           })}
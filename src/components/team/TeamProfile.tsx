@@ -6,12 +6,14 @@ import { Team } from '@/lib/mlb/types';
 interface TeamProfileProps {
   team: Team | null;
   loading?: boolean;
+  // Shown instead of the signed-in user, e.g. on a shared team page
+  owner?: { name: string; image: string | null };
 }
 
-export function TeamProfile({ team, loading = false }: TeamProfileProps) {
+export function TeamProfile({ team, loading = false, owner }: TeamProfileProps) {
   const { data: session } = useSession();
-  const userImage = session?.user?.image || 'https://via.placeholder.com/64';
-  const userName = session?.user?.name?.split(' ')[0] || 'User';
+  const userImage = (owner ? owner.image : session?.user?.image) || 'https://via.placeholder.com/64';
+  const userName = owner?.name || session?.user?.name?.split(' ')[0] || 'User';
 
   if (loading) {
     return (
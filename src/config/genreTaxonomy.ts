@@ -0,0 +1,41 @@
+// src/config/genreTaxonomy.ts
+
+// Curated parent genres and the child genres/keywords that roll up to them.
+// Spotify micro-genres ("detroit hip hop", "pop urbano") resolve by containing a parent or child phrase.
+export const GENRE_TAXONOMY: Record<string, string[]> = {
+    'hip hop': ['rap', 'hiphop', 'trap', 'drill', 'boom bap', 'grime', 'crunk', 'g funk', 'gangster rap', 'plugg'],
+    'r&b': ['rnb', 'soul', 'neo soul', 'funk', 'urban contemporary', 'new jack swing', 'quiet storm'],
+    'pop': ['dance pop', 'k-pop', 'j-pop', 'teen pop', 'electropop', 'synthpop', 'art pop'],
+    'rock': ['hard rock', 'classic rock', 'alternative rock', 'grunge', 'punk', 'pop punk', 'emo', 'garage rock'],
+    'metal': ['metalcore', 'nu metal', 'heavy metal', 'thrash metal', 'death metal', 'alternative metal'],
+    'electronic': ['edm', 'house', 'techno', 'dubstep', 'trance', 'drum and bass', 'electro', 'big room', 'brostep'],
+    'country': ['contemporary country', 'country road', 'outlaw country', 'bluegrass', 'americana', 'red dirt'],
+    'folk': ['indie folk', 'folk rock', 'singer-songwriter'],
+    'latin': ['reggaeton', 'urbano latino', 'pop urbano', 'trap latino', 'salsa', 'merengue', 'bachata', 'cumbia', 'dembow', 'corrido', 'regional mexican'],
+    'reggae': ['dancehall', 'roots reggae', 'ska'],
+    'jazz': ['swing', 'smooth jazz', 'bebop', 'jazz funk'],
+    'blues': ['blues rock', 'delta blues', 'electric blues'],
+    'classical': ['orchestral', 'symphony', 'chamber music', 'opera'],
+    'indie': ['indie pop', 'indie rock', 'alternative', 'bedroom pop', 'lo-fi'],
+    'gospel': ['christian', 'worship', 'ccm']
+};
+
+// Parent genres that share an audience, with how similar they are (0-1)
+export const RELATED_PARENT_GENRES: Array<[string, string, number]> = [
+    ['hip hop', 'r&b', 0.5],
+    ['hip hop', 'latin', 0.3],
+    ['pop', 'r&b', 0.4],
+    ['pop', 'indie', 0.4],
+    ['pop', 'electronic', 0.3],
+    ['rock', 'metal', 0.6],
+    ['rock', 'indie', 0.5],
+    ['rock', 'blues', 0.4],
+    ['country', 'folk', 0.5],
+    ['jazz', 'blues', 0.5],
+    ['jazz', 'r&b', 0.3],
+    ['latin', 'reggae', 0.4]
+];
+
+// Similarity for two genres under the same parent
+export const PARENT_CHILD_SIMILARITY = 0.8; // e.g. "hip hop" and "detroit hip hop"
+export const SIBLING_SIMILARITY = 0.6; // e.g. "trap" and "drill"
@@ -0,0 +1,35 @@
+// src/config/httpPolicies.ts
+
+// Rate limit, retry and circuit breaker settings for one outbound API host
+export interface HostPolicy {
+    requestsPerSecond: number; // Token bucket refill rate
+    burst: number; // Token bucket size: requests allowed back to back
+    maxRetries: number; // Retries after the first attempt
+    baseDelayMs: number; // Backoff before the first retry, doubled for each retry after, then jittered
+    maxDelayMs: number; // Longest single wait; a longer Retry-After gives up instead
+    failureThreshold: number; // Consecutive failures that open the circuit
+    cooldownMs: number; // How long an open circuit fails fast before letting a trial request through
+    timeoutMs: number; // Per request, for requests made through HttpClient.request
+}
+
+// Used for any host without its own entry, including local stub servers
+export const DEFAULT_HOST_POLICY: HostPolicy = {
+    requestsPerSecond: 5,
+    burst: 5,
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 60 * 1000,
+    failureThreshold: 5,
+    cooldownMs: 30 * 1000,
+    timeoutMs: 30 * 1000
+};
+
+// Keyed by host, as in new URL(url).host
+export const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+    'walkupdb.com': { requestsPerSecond: 1, burst: 1, baseDelayMs: 2000 },
+    // MySportsFeeds allows roughly one request every 5 seconds on the non-live plans
+    'api.mysportsfeeds.com': { requestsPerSecond: 1 / 5.5, burst: 1, maxRetries: 3, baseDelayMs: 5500, timeoutMs: 120 * 1000 },
+    // Spotify's limit is a rolling 30-second window per app; stay well under it
+    'api.spotify.com': { requestsPerSecond: 10, burst: 20 },
+    'accounts.spotify.com': { requestsPerSecond: 5, burst: 5, maxRetries: 2 }
+};
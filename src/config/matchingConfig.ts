@@ -9,7 +9,8 @@ export const SCORE_WEIGHTS = {
     TIME_FRAME: {
         'long_term': 0.05,
         'medium_term': 0.03,
-        'short_term': 0.01
+        'short_term': 0.01,
+        'recent': 0.04 // Recently played, ranked by decayed play count; recent match scores are scaled by their share of plays
     },
     RANK: {
         TOP_10: 0.2,
@@ -31,12 +32,21 @@ export const SCORE_WEIGHTS = {
             { threshold: 10, bonus: 0.2 },
             { threshold: 25, bonus: 0.1 },
             { threshold: 50, bonus: 0.0 },
+        ],
+        RECENT: [
+            { threshold: 3, bonus: 0.2 },
+            { threshold: 10, bonus: 0.1 },
+            { threshold: 50, bonus: 0.0 },
         ]
     },
     MATCH_TYPE: {
         LIKED_SONG: 1.55, // Boosted to prioritize liked songs
         TOP_SONG: 1.5,
+        PLAYLIST_TRACK: 1.2, // The song is in one of the user's playlists
         TOP_ARTIST: 0.9, // Slightly boosted for better visibility
+        SAVED_ALBUM: 1.0, // The song is on an album the user saved
+        FOLLOWED_ARTIST: 0.7, // The user follows the artist but doesn't have them in their top artists
+        RELATED_ARTIST: 0.45, // Scales a would-be top artist hit by RELATED_ARTIST / TOP_ARTIST, so it stays below one
         FEATURE: 0.6,
         GENRE: 0.4
     },
@@ -50,7 +60,7 @@ export const SCORE_WEIGHTS = {
     MULTIPLE_MATCHES_BONUS: 0.03, // Base bonus used in scoring logic
     GENRE_ARTIST_LIKED_BONUS: 0.05, // Bonus if artist of genre match is liked/top
     EXACT_GENRE_MATCH_BONUS: 0.05, // Bonus for exact genre string match
-    SAVED_ALBUM_BONUS: 0.02 // Bonus if user saved the album (if implemented)
+    SAVED_ALBUM_BONUS: 0.02 // Added to artist matches when the user saved an album by that artist
 };
 
 // Position compatibility (DH handled separately)
@@ -77,7 +87,43 @@ export const DIVERSITY_THRESHOLD = 2; // Max players desired per top genre befor
 export const DIVERSITY_BOOST_AMOUNT = 0.075; // The score boost amount
 export const NUM_USER_TOP_GENRES = 5; // Consider top N genres for diversity boost
 
+// Group Blend Configuration
+// How strongly a player's song reflects one member's own taste, used to pick players for each member
+export const BLEND_AFFINITY = {
+    TRACK: 1.0, // Song is one of the member's top tracks
+    ARTIST: 0.7, // Song is by one of the member's top artists
+    GENRE: 0.3 // Song shares one of the member's top genres
+};
+
+// Genre Similarity Configuration
+export const GENRE_SIMILARITY_THRESHOLD = 0.35; // Min GenreGraph similarity for a non-exact genre match
+
+// Name Matching Configuration (used when Spotify IDs are missing)
+export const SONG_NAME_MATCH_THRESHOLD = 0.85; // Min normalized title similarity to treat two songs as the same
+export const ARTIST_NAME_MATCH_THRESHOLD = 0.88; // Min normalized name similarity to treat two artists as the same
+
+// Player Identity Matching Configuration (MySportsFeeds name conflicts)
+export const PLAYER_NAME_CANDIDATE_THRESHOLD = 0.75; // Min normalized name similarity to suggest an MSF player for an unmatched player
+export const PLAYER_CANDIDATE_WEIGHTS = {
+    NAME: 0.6,
+    TEAM: 0.25,
+    POSITION: 0.15
+};
+export const MAX_CONFLICT_CANDIDATES = 5;
+
+// Recently Played Configuration
+export const RECENT_PLAY_HALF_LIFE_HOURS = 72; // A play counts half as much after three days
+
 // Player Stat Validation Configuration
 export const MIN_GAMES_PLAYED_THRESHOLD = 10; // Minimum team games played for validation
 export const HITTER_PA_PER_GAME_THRESHOLD = 1.0; // Min Plate Appearances per Team Game Played
-export const PITCHER_IP_PER_GAME_THRESHOLD = 0.4; // Min Innings Pitched per Team Game Played
\ No newline at end of file
+export const PITCHER_IP_PER_GAME_THRESHOLD = 0.4; // Min Innings Pitched per Team Game Played
+
+// Stats Bonus Configuration (tie-breaker only, kept well below any match type)
+export const STATS_BONUS_WEIGHT = 0.01;
+
+// Team Assignment Configuration
+// 'greedy' fills slots in roster order; 'optimal' solves all slots at once (see assignmentSolver.ts)
+export type AssignmentStrategy = 'greedy' | 'optimal';
+export const TEAM_ASSIGNMENT_STRATEGY: AssignmentStrategy = 'optimal';
+export const MAX_ASSIGNMENT_ITERATIONS = 5; // Re-solves used to fold artist/genre diversity into the objective
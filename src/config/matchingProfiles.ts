@@ -0,0 +1,115 @@
+// src/config/matchingProfiles.ts
+import {
+    SCORE_WEIGHTS, MIN_MATCH_SCORE, DIVERSITY_THRESHOLD, DIVERSITY_BOOST_AMOUNT, STATS_BONUS_WEIGHT
+} from './matchingConfig';
+
+// The tunable subset of matchingConfig; everything else stays a compile-time constant
+export interface MatchingWeights {
+    SCORE_WEIGHTS: typeof SCORE_WEIGHTS;
+    MIN_MATCH_SCORE: number;
+    DIVERSITY_THRESHOLD: number;
+    DIVERSITY_BOOST_AMOUNT: number;
+    STATS_BONUS_WEIGHT: number;
+}
+
+export const MATCHING_PROFILE_IDS = ['balanced', 'deep_cuts', 'right_now', 'genre_explorer', 'stats_first'] as const;
+export type MatchingProfileId = typeof MATCHING_PROFILE_IDS[number];
+
+export interface MatchingProfile {
+    id: MatchingProfileId;
+    label: string;
+    description: string;
+    weights: MatchingWeights;
+}
+
+export const DEFAULT_MATCHING_PROFILE_ID: MatchingProfileId = 'balanced';
+
+const DEFAULT_WEIGHTS: MatchingWeights = {
+    SCORE_WEIGHTS,
+    MIN_MATCH_SCORE,
+    DIVERSITY_THRESHOLD,
+    DIVERSITY_BOOST_AMOUNT,
+    STATS_BONUS_WEIGHT
+};
+
+// Profiles only list what they change from the defaults
+export const MATCHING_PROFILES: Record<MatchingProfileId, MatchingProfile> = {
+    balanced: {
+        id: 'balanced',
+        label: 'Balanced',
+        description: 'The standard mix of your songs, artists and genres.',
+        weights: DEFAULT_WEIGHTS
+    },
+    deep_cuts: {
+        id: 'deep_cuts',
+        label: 'Deep cuts',
+        description: 'Favors features, genres and long-time favorites over your most obvious songs.',
+        weights: {
+            ...DEFAULT_WEIGHTS,
+            SCORE_WEIGHTS: {
+                ...SCORE_WEIGHTS,
+                TIME_FRAME: { 'long_term': 0.1, 'medium_term': 0.03, 'short_term': 0, 'recent': 0 },
+                MATCH_TYPE: { ...SCORE_WEIGHTS.MATCH_TYPE, LIKED_SONG: 1.2, TOP_SONG: 1.1, FEATURE: 1.0, GENRE: 0.7 }
+            }
+        }
+    },
+    right_now: {
+        id: 'right_now',
+        label: "What I'm into right now",
+        description: 'Leans on what you have played in the past four weeks.',
+        weights: {
+            ...DEFAULT_WEIGHTS,
+            SCORE_WEIGHTS: {
+                ...SCORE_WEIGHTS,
+                TIME_FRAME: { 'long_term': 0, 'medium_term': 0.03, 'short_term': 0.3, 'recent': 0.35 }
+            }
+        }
+    },
+    genre_explorer: {
+        id: 'genre_explorer',
+        label: 'Genre explorer',
+        description: 'Spreads the roster across more of your genres and fewer repeat artists.',
+        weights: {
+            ...DEFAULT_WEIGHTS,
+            DIVERSITY_THRESHOLD: 1,
+            DIVERSITY_BOOST_AMOUNT: 0.25,
+            SCORE_WEIGHTS: {
+                ...SCORE_WEIGHTS,
+                MATCH_TYPE: { ...SCORE_WEIGHTS.MATCH_TYPE, GENRE: 0.6 },
+                ARTIST_DIVERSITY_PENALTY: { FIRST: 0.0, SECOND: 0.6, THIRD: 0.8, FOURTH: 0.9, FIFTH_PLUS: 0.9 }
+            }
+        }
+    },
+    stats_first: {
+        id: 'stats_first',
+        label: 'Stats first',
+        description: 'Music still has to match, but better players win close calls.',
+        weights: {
+            ...DEFAULT_WEIGHTS,
+            MIN_MATCH_SCORE: 0.05,
+            STATS_BONUS_WEIGHT: 0.3
+        }
+    }
+};
+
+/**
+ * Validate a `profile` query value. Missing means the default profile.
+ */
+export function parseMatchingProfileId(
+    value: string | string[] | undefined
+): { profileId: MatchingProfileId } | { error: string } {
+    if (value === undefined || value === '') {
+        return { profileId: DEFAULT_MATCHING_PROFILE_ID };
+    }
+    if (Array.isArray(value)) {
+        return { error: 'profile must be a single value' };
+    }
+    if (!(MATCHING_PROFILE_IDS as readonly string[]).includes(value)) {
+        return { error: `Unknown profile "${value}". Expected one of: ${MATCHING_PROFILE_IDS.join(', ')}` };
+    }
+    return { profileId: value as MatchingProfileId };
+}
+
+export function getMatchingProfile(profileId: MatchingProfileId = DEFAULT_MATCHING_PROFILE_ID): MatchingProfile {
+    return MATCHING_PROFILES[profileId];
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+
+// Loads a JSON admin endpoint once signed in; reload fetches it again
+export function useAdminResource<T>(url: string | null, errorMessage: string) {
+  const { status } = useSession();
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState<number>(0);
+
+  useEffect(() => {
+    if (status !== 'authenticated' || !url) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(url)
+      .then(async response => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || errorMessage);
+        }
+        if (!cancelled) setData(body);
+      })
+      .catch(err => {
+        console.error(`Error loading ${url}:`, err);
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [status, url, errorMessage, version]);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  return { data, loading, error, reload };
+}
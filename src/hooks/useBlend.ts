@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { Team } from '../lib/mlb/types';
+import type { BlendSummary } from '../services/team/blendSessionService';
+import { DEFAULT_MATCHING_PROFILE_ID, MatchingProfileId } from '../config/matchingProfiles';
+
+// Joins the blend with the given code once signed in, then generates its team on demand
+export function useBlend(code: string | undefined) {
+  const { status } = useSession();
+  const [blend, setBlend] = useState<BlendSummary | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [profileId, setProfileId] = useState<MatchingProfileId>(DEFAULT_MATCHING_PROFILE_ID);
+
+  const joinBlend = useCallback(async () => {
+    if (status !== 'authenticated' || !code) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blend/${encodeURIComponent(code)}`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to join blend');
+      }
+      setBlend(data);
+    } catch (err) {
+      console.error('Error joining blend:', err);
+      setError((err as Error).message);
+    }
+  }, [status, code]);
+
+  // Members see each other by reloading the blend
+  const refreshBlend = useCallback(async () => {
+    if (!code) return;
+    const response = await fetch(`/api/blend/${encodeURIComponent(code)}`);
+    if (response.ok) setBlend(await response.json());
+  }, [code]);
+
+  const generateTeam = useCallback(async (nextProfileId: MatchingProfileId = profileId) => {
+    if (!code) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blend/${encodeURIComponent(code)}/team?profile=${encodeURIComponent(nextProfileId)}`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to generate team');
+      }
+      setTeam(await response.json());
+      setProfileId(nextProfileId);
+    } catch (err) {
+      console.error('Error generating blend team:', err);
+      setError('Failed to generate the blend team. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [code, profileId]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && !blend) {
+      joinBlend();
+    }
+  }, [status, blend, joinBlend]);
+
+  return {
+    blend,
+    team,
+    loading,
+    error,
+    profileId,
+    refreshBlend,
+    generateTeam
+  };
+}
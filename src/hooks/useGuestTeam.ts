@@ -0,0 +1,46 @@
+import { useState, useCallback } from 'react';
+import { Team } from '../lib/mlb/types';
+import { GuestSelections } from '../services/spotify/guestPreferences';
+import { DEFAULT_MATCHING_PROFILE_ID, MatchingProfileId } from '../config/matchingProfiles';
+
+// Like useTeam, but generates from guest selections instead of a Spotify session
+export function useGuestTeam() {
+  const [team, setTeam] = useState<Team | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [profileId, setProfileId] = useState<MatchingProfileId>(DEFAULT_MATCHING_PROFILE_ID);
+
+  const generateTeam = useCallback(async (selections: GuestSelections, nextProfileId: MatchingProfileId = profileId) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/team/guest?profile=${encodeURIComponent(nextProfileId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(selections)
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to generate team');
+      }
+
+      const teamData = await response.json();
+      setTeam(teamData);
+      setProfileId(nextProfileId);
+    } catch (err) {
+      console.error('Error generating guest team:', err);
+      setError('Failed to generate your team. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  return {
+    team,
+    loading,
+    error,
+    profileId,
+    generateTeam
+  };
+}
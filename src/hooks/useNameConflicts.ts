@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react';
+import type { NameConflictStatus } from '../models/playerNameConflictModel';
+import type { NameConflictSummary } from '../services/mysportsfeeds/nameConflictService';
+import { useAdminResource } from './useAdminResource';
+
+// MySportsFeeds name conflicts with the given status, and actions to settle them
+export function useNameConflicts(status: NameConflictStatus) {
+  const { data, loading, error, reload } = useAdminResource<NameConflictSummary[]>(
+    `/api/admin/nameConflicts?status=${status}`,
+    'Failed to load name conflicts'
+  );
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const update = useCallback(async (id: string, body: { action: 'resolve'; msfPlayerId: string } | { action: 'dismiss' }) => {
+    setSavingId(id);
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/admin/nameConflicts/${encodeURIComponent(id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update name conflict');
+      }
+      reload();
+    } catch (err) {
+      console.error('Error updating name conflict:', err);
+      setActionError((err as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  }, [reload]);
+
+  const resolve = useCallback((id: string, msfPlayerId: string) => update(id, { action: 'resolve', msfPlayerId }), [update]);
+  const dismiss = useCallback((id: string) => update(id, { action: 'dismiss' }), [update]);
+
+  return { conflicts: data || [], loading, error: error || actionError, savingId, resolve, dismiss };
+}
@@ -0,0 +1,17 @@
+import type { SyncRunDetail, SyncRunSummary } from '../services/walkupSongs/syncRunService';
+import { useAdminResource } from './useAdminResource';
+
+// Past sync runs, most recent first
+export function useSyncRuns() {
+  const { data, loading, error } = useAdminResource<SyncRunSummary[]>('/api/admin/syncRuns', 'Failed to load sync history');
+  return { runs: data || [], loading, error };
+}
+
+// One sync run with a page of its per-player changes
+export function useSyncRun(id: string | undefined, page: number) {
+  const { data, loading, error } = useAdminResource<SyncRunDetail>(
+    id ? `/api/admin/syncRuns/${encodeURIComponent(id)}?page=${page}` : null,
+    'Failed to load sync run'
+  );
+  return { run: data, loading, error };
+}
@@ -1,15 +1,17 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
 import { Team } from '../lib/mlb/types';
+import { DEFAULT_MATCHING_PROFILE_ID, MatchingProfileId } from '../config/matchingProfiles';
 
 export function useTeam() {
   const { data: session, status } = useSession();
   const [team, setTeam] = useState<Team | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [profileId, setProfileId] = useState<MatchingProfileId>(DEFAULT_MATCHING_PROFILE_ID);
 
   // Use useCallback to memoize the fetchTeam function
-  const fetchTeam = useCallback(async () => {
+  const fetchTeam = useCallback(async (nextProfileId: MatchingProfileId = profileId) => {
     if (status !== 'authenticated' || !session) {
       return;
     }
@@ -18,7 +20,7 @@ export function useTeam() {
     setError(null);
 
     try {
-      const response = await fetch('/api/team/generate');
+      const response = await fetch(`/api/team/generate?profile=${encodeURIComponent(nextProfileId)}`);
       
       if (!response.ok) {
         throw new Error('Failed to generate team');
@@ -26,13 +28,14 @@ export function useTeam() {
       
       const teamData = await response.json();
       setTeam(teamData);
+      setProfileId(nextProfileId);
     } catch (err) {
       console.error('Error fetching team:', err);
       setError('Failed to generate your team. Please try again.');
     } finally {
       setLoading(false);
     }
-  }, [status, session]);
+  }, [status, session, profileId]);
 
   // Generate team when session becomes available
   useEffect(() => {
@@ -45,6 +48,7 @@ export function useTeam() {
     team,
     loading,
     error,
+    profileId,
     refreshTeam: fetchTeam
   };
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getSession } from "next-auth/react";
+import { SpotifyService } from "@/services/spotify/spotifyService";
+
+/**
+ * Spotify user IDs allowed into admin pages, from the comma-separated ADMIN_SPOTIFY_IDS
+ */
+function getAdminSpotifyIds(): string[] {
+  return (process.env.ADMIN_SPOTIFY_IDS || "")
+    .split(",")
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check that the request comes from a signed-in admin. Sends a 401 or 403 when it
+ * doesn't, so API routes can return as soon as this resolves to null.
+ * @returns The admin's Spotify user ID, or null if the response was already sent
+ */
+export async function requireAdmin(req: NextApiRequest, res: NextApiResponse): Promise<string | null> {
+  const session = await getSession({ req });
+  const spotifyService = SpotifyService.fromSession(session);
+  if (!spotifyService) {
+    res.status(401).json({ error: "Unauthorized or session missing access token" });
+    return null;
+  }
+
+  const profile = await spotifyService.getUserProfile();
+  if (!getAdminSpotifyIds().includes(profile.id)) {
+    res.status(403).json({ error: "Admin access required" });
+    return null;
+  }
+  return profile.id;
+}
@@ -0,0 +1,16 @@
+// src/lib/db/mongoConnection.ts
+import mongoose from 'mongoose';
+
+/**
+ * Connect the shared mongoose connection unless it is already connected or connecting.
+ * `caller` only labels the log line.
+ */
+export async function ensureMongoConnection(caller = 'MongoDB'): Promise<void> {
+    if (!process.env.MONGO_URI) {
+        throw new Error('MONGO_URI environment variable is not set');
+    }
+    if (mongoose.connection.readyState !== 1 && mongoose.connection.readyState !== 2) {
+        console.log(`${caller}: Attempting MongoDB connection...`);
+        await mongoose.connect(process.env.MONGO_URI);
+    }
+}
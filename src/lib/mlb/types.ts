@@ -1,3 +1,6 @@
+import { MatchExplanation } from '../walkupSongs/matchingTypes';
+import { MatchingProfileId } from '../../config/matchingProfiles';
+
 // Available player positions
 export type Position = 'SP' | 'C' | '1B' | '2B' | '3B' | 'SS' | 'LF' | 'CF' | 'RF' | 'DH' | 'P1' | 'P2' | 'P3' | 'P4';
 
@@ -8,10 +11,18 @@ export interface PlayerStats {
     onBasePercentage: number;
     sluggingPercentage: number;
     plateAppearances: number;
+    // Counting stats (players enriched before these were stored won't have them)
+    hits?: number;
+    atBats?: number;
+    walks?: number;
+    hitByPitch?: number;
+    sacrificeFlies?: number;
+    totalBases?: number;
   };
   pitching?: {
     earnedRunAvg: number;
     inningsPitched: number;
+    earnedRuns?: number;
   };
 }
 
@@ -28,13 +39,15 @@ export interface Player {
   stats?: PlayerStats;
   matchingSongs?: Array<{
     songName: string;
-    artistName: string;
+    artists: Array<{ name: string; role: 'primary' | 'featured' }>;
     matchScore: number;
     matchReason: string;
     rankInfo: string;
     albumArt: string;
     previewUrl?: string | null;
+    spotifyId?: string;
   }>;
+  matchExplanation?: MatchExplanation;
 }
 
 // Team statistics
@@ -57,6 +70,7 @@ export interface Song {
   matchReason: string; // e.g. "In your top songs", "Matches your genre preferences", etc.
   rankInfo?: string; // e.g. "#4 in your top tracks"
   previewUrl?: string | null; // Spotify preview URL for 30-second sample
+  spotifyId?: string; // Spotify track ID, when known
 }
 
 // Team data structure
@@ -65,4 +79,6 @@ export interface Team {
   players: Player[];
   songs: Song[];
   stats: TeamStats;
+  slug?: string; // Share id once the team is saved, see /team/[slug]
+  profileId?: MatchingProfileId; // Matching profile the team was generated with
 }
\ No newline at end of file
@@ -4,29 +4,35 @@
 import { Position, PlayerStats } from '../mlb/types';
 import { PlayerWalkupSong } from './types'; // Base type
 
-export type TimeFrame = 'short_term' | 'medium_term' | 'long_term';
+export type TimeFrame = 'short_term' | 'medium_term' | 'long_term' | 'recent';
 
 export interface NormalizedTrack {
     name: string;
     artist: string; // Primary artist name, normalized
+    displayName?: string; // Original track name, for explanations
     spotifyId?: string;
     albumId?: string;
     albumName?: string;
     rank?: number;
     timeFrame?: TimeFrame;
+    playShare?: number; // 'recent' only: decayed plays relative to the most played recent track (0-1)
 }
 
 export interface NormalizedArtist {
     name: string; // Normalized name
+    displayName?: string; // Original artist name, for explanations
     id?: string;
     rank?: number;
     timeFrame?: TimeFrame;
+    playShare?: number; // 'recent' only: decayed plays relative to the most played recent artist (0-1)
 }
 
 export interface NormalizedAlbum {
     id: string;
-    name: string;
-    artistName: string;
+    name: string; // Normalized title
+    artistName: string; // Primary artist name, normalized
+    artistId?: string;
+    displayName?: string; // Original album name, for explanations
 }
 
 // Result of matching a single aspect (Song, Artist, Genre)
@@ -36,6 +42,33 @@ export interface MatchResult {
     details?: string;
     rank?: number; // Rank if applicable (Top Song/Artist)
     timeFrame?: TimeFrame; // Time frame if applicable
+    source?: MatchComponentType; // Which scoring component produced this result
+    weight?: number; // SCORE_WEIGHTS value the score is built on
+    trigger?: string; // User data that triggered the match
+    confidence?: number; // Name match confidence (1 = Spotify ID or exact normalized name)
+}
+
+export type MatchComponentType =
+    'song' | 'playlist' | 'album' | 'artist' | 'followed' | 'related' | 'feature' | 'genre' | 'liked' | 'stats' | 'diversity' | 'artistPenalty';
+
+// A single contributor to a player's score
+export interface MatchComponent {
+    type: MatchComponentType;
+    label: string; // Short description, e.g. "Top song" or "Diversity boost"
+    weight: number; // Config weight behind this component (SCORE_WEIGHTS, STATS_BONUS_WEIGHT, etc.)
+    score: number; // Raw component score
+    contribution: number; // What it added to (or took from) the player's score
+    trigger: string; // The user data that triggered it, e.g. "Drake #3 in past 4 weeks"
+    confidence?: number; // Name match confidence when the match came from fuzzy name matching
+}
+
+// Structured breakdown of why a player was picked
+export interface MatchExplanation {
+    songName: string; // Walkup song the breakdown is for
+    matchScore: number; // Final player score (best song + stats bonus)
+    selectionScore?: number; // Score after diversity boost and artist penalty, used when filling the position
+    pickedFor?: string; // Blend member whose taste the player was picked for
+    components: MatchComponent[];
 }
 
 // Details of a single player song's match against user preferences
@@ -49,6 +82,7 @@ export interface SongMatchDetails {
     albumArt: string;
     previewUrl?: string | null;
     spotifyId?: string;
+    components?: MatchComponent[]; // Song-level components (song, artist, feature, genre, liked)
 }
 
 // Represents a player candidate evaluated during matching
@@ -59,6 +93,7 @@ export interface PlayerWithScore {
     matchReason: string; // Reason from the best matching song
     rankInfo: string; // Details from the best matching song
     matchingSongs: SongMatchDetails[]; // Array of all evaluated songs for this player
+    explanation: MatchExplanation; // Component breakdown for the best song, plus selection-time adjustments
 
     // Fields used during team selection process
     scoreForSorting?: number; // Temporary score including diversity boost for ranking candidates
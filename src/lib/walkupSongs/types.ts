@@ -3,11 +3,19 @@
  */
 
 import { PlayerStats } from '../mlb/types';
+import { MatchExplanation } from './matchingTypes';
+
+export interface WalkupSongArtist {
+    name: string;
+    role: 'primary' | 'featured';
+    spotifyId?: string; // Spotify artist ID once linked to the Artist collection
+}
 
 export interface WalkupSong {
     id: string;
     songName: string;
-    artistName: string;
+    artistName?: string; // Legacy display string, prefer artists
+    artists: WalkupSongArtist[];
     albumName?: string;
     spotifyId?: string;
     youtubeId?: string;
@@ -27,15 +35,17 @@ export interface WalkupSong {
     matchReason?: string;
     rankInfo?: string;
     matchScore?: number;
+    matchExplanation?: MatchExplanation;
     stats?: PlayerStats;
     matchingSongs?: Array<{
       songName: string;
-      artistName: string;
+      artists: WalkupSongArtist[];
       matchScore: number;
       matchReason: string;
       rankInfo: string;
       albumArt: string;
       previewUrl?: string | null;
+      spotifyId?: string;
     }>;
   }
   
@@ -68,4 +78,4 @@ export interface WalkupSong {
      * Get walkup songs filtered by genre
      */
     getPlayerSongsByGenre(genre: string): Promise<PlayerWalkupSong[]>;
-  }
\ No newline at end of file
+  }
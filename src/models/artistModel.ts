@@ -0,0 +1,30 @@
+// src/models/artistModel.ts
+import mongoose from 'mongoose';
+
+// Define TypeScript interface for MongoDB document
+export interface ArtistDocument extends mongoose.Document {
+    spotifyId: string;
+    name: string; // Canonical name from Spotify
+    aliases: string[]; // Normalized names seen for this artist, including the canonical one
+    genres: string[];
+    relatedArtists: Array<{ spotifyId: string; name: string }>; // Spotify's related artists, most related first
+    relatedArtistsUpdatedAt?: Date;
+    lastUpdated: Date;
+}
+
+const artistSchema = new mongoose.Schema<ArtistDocument>({
+    spotifyId: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    aliases: { type: [String], default: [], index: true },
+    genres: { type: [String], default: [] },
+    relatedArtists: [{
+        _id: false,
+        spotifyId: { type: String, required: true },
+        name: { type: String, required: true }
+    }],
+    relatedArtistsUpdatedAt: { type: Date },
+    lastUpdated: { type: Date, default: Date.now }
+});
+
+// Get existing model or create new one
+export const Artist = mongoose.models.Artist || mongoose.model<ArtistDocument>('Artist', artistSchema);
@@ -0,0 +1,40 @@
+// src/models/blendSessionModel.ts
+import mongoose from 'mongoose';
+import { BlendMemberPreferences } from '../services/team/preferenceBlender';
+
+export interface BlendMember extends BlendMemberPreferences {
+    image?: string;
+    joinedAt: Date;
+}
+
+// Define TypeScript interface for MongoDB document
+export interface BlendSessionDocument extends mongoose.Document {
+    code: string; // Join code shared with the group
+    hostId: string; // Spotify user ID of the member who created the blend
+    members: BlendMember[];
+    createdAt: Date;
+}
+
+// Blends are for a single watch party, so Mongo drops them after a day
+const BLEND_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+const blendSessionSchema = new mongoose.Schema<BlendSessionDocument>({
+    code: { type: String, required: true, unique: true, index: true },
+    hostId: { type: String, required: true },
+    members: [{
+        _id: false,
+        memberId: { type: String, required: true },
+        name: { type: String, required: true },
+        image: { type: String },
+        // Preferences are stored as-is; their shapes are owned by the TypeScript types
+        genres: { type: mongoose.Schema.Types.Mixed, default: [] },
+        topTracks: { type: mongoose.Schema.Types.Mixed, required: true },
+        topArtists: { type: mongoose.Schema.Types.Mixed, required: true },
+        savedTracks: { type: mongoose.Schema.Types.Mixed, default: [] },
+        joinedAt: { type: Date, default: Date.now }
+    }],
+    createdAt: { type: Date, default: Date.now, expires: BLEND_SESSION_TTL_SECONDS }
+});
+
+// Get existing model or create new one
+export const BlendSession = mongoose.models.BlendSession || mongoose.model<BlendSessionDocument>('BlendSession', blendSessionSchema);
@@ -0,0 +1,55 @@
+// src/models/generatedTeamModel.ts
+import mongoose from 'mongoose';
+import { Team, TeamStats, Position } from '../lib/mlb/types';
+import { SpotifyGenreSummary, SpotifyPlaylistTrack, SpotifySavedAlbum, SpotifyTopItem } from '../services/spotify/spotifyService';
+import { SpotifyItemsByTimeFrame } from '../services/spotify/spotifyDataSource';
+import { AssignmentStrategy } from '../config/matchingConfig';
+import { MatchingProfileId } from '../config/matchingProfiles';
+
+// Spotify preferences the team was matched against, kept so a team can be re-run or audited
+export interface GeneratedTeamInputs {
+    genres: SpotifyGenreSummary[];
+    topTracks: SpotifyItemsByTimeFrame;
+    topArtists: SpotifyItemsByTimeFrame;
+    savedTracks: SpotifyTopItem[];
+    savedAlbums?: SpotifySavedAlbum[];
+    followedArtists?: SpotifyTopItem[];
+    playlistTracks?: SpotifyPlaylistTrack[];
+    positions: Position[];
+    assignmentStrategy: AssignmentStrategy;
+    profileId: MatchingProfileId;
+}
+
+// Define TypeScript interface for MongoDB document
+export interface GeneratedTeamDocument extends mongoose.Document {
+    slug: string; // Public share id used by /team/[slug]
+    ownerName: string;
+    ownerImage?: string;
+    team: Omit<Team, 'stats'>;
+    stats: TeamStats;
+    inputs: GeneratedTeamInputs;
+    configHash: string; // Hash of matchingConfig at generation time
+    createdAt: Date;
+}
+
+const generatedTeamSchema = new mongoose.Schema<GeneratedTeamDocument>({
+    slug: { type: String, required: true, unique: true, index: true },
+    ownerName: { type: String, required: true },
+    ownerImage: { type: String },
+    // Team and inputs are stored as-is; their shapes are owned by the TypeScript types
+    team: { type: mongoose.Schema.Types.Mixed, required: true },
+    stats: {
+        _id: false,
+        wins: { type: Number, required: true },
+        losses: { type: Number, required: true },
+        OPS: { type: Number, required: true },
+        AVG: { type: Number, required: true },
+        ERA: { type: Number, required: true }
+    },
+    inputs: { type: mongoose.Schema.Types.Mixed, required: true },
+    configHash: { type: String, required: true, index: true },
+    createdAt: { type: Date, default: Date.now }
+});
+
+// Get existing model or create new one
+export const GeneratedTeam = mongoose.models.GeneratedTeam || mongoose.model<GeneratedTeamDocument>('GeneratedTeam', generatedTeamSchema);
@@ -0,0 +1,40 @@
+// src/models/genreGraphModel.ts
+import mongoose from 'mongoose';
+
+// Learned co-occurrence edge between two genres (source < target alphabetically)
+export interface GenreEdge {
+    source: string;
+    target: string;
+    count: number; // Songs tagged with both genres
+    weight: number; // count / sqrt(songs with source * songs with target)
+}
+
+// Define TypeScript interface for MongoDB document
+export interface GenreGraphDocument extends mongoose.Document {
+    name: string;
+    edges: GenreEdge[];
+    genreCounts: Array<{ genre: string; count: number }>;
+    songCount: number;
+    builtAt: Date;
+}
+
+const genreGraphSchema = new mongoose.Schema<GenreGraphDocument>({
+    name: { type: String, required: true, unique: true },
+    edges: [{
+        _id: false,
+        source: { type: String, required: true },
+        target: { type: String, required: true },
+        count: { type: Number, required: true },
+        weight: { type: Number, required: true }
+    }],
+    genreCounts: [{
+        _id: false,
+        genre: { type: String, required: true },
+        count: { type: Number, required: true }
+    }],
+    songCount: { type: Number, required: true },
+    builtAt: { type: Date, default: Date.now }
+});
+
+// Get existing model or create new one
+export const GenreGraphModel = mongoose.models.GenreGraph || mongoose.model<GenreGraphDocument>('GenreGraph', genreGraphSchema);
@@ -0,0 +1,35 @@
+// src/models/jobLockModel.ts
+import mongoose from 'mongoose';
+
+// Skipped: the job ran but had nothing to do, e.g. its work was already running elsewhere
+export type JobOutcome = 'succeeded' | 'skipped' | 'failed';
+
+// Define TypeScript interface for MongoDB document
+export interface JobLockDocument extends mongoose.Document {
+    name: string; // Job name, one lock per job
+    owner?: string; // Run currently holding the lease
+    lockedUntil: Date; // Lease expiry; other instances may take the job once it passes
+    lastSlotAt?: Date; // Most recent scheduled slot whose run didn't fail, so each slot runs once across instances
+    lastStartedAt?: Date;
+    lastFinishedAt?: Date;
+    lastStatus?: JobOutcome;
+    lastTrigger?: string;
+    lastAttempts?: number;
+    lastError?: string;
+}
+
+const jobLockSchema = new mongoose.Schema<JobLockDocument>({
+    name: { type: String, required: true, unique: true, index: true },
+    owner: { type: String },
+    lockedUntil: { type: Date, required: true },
+    lastSlotAt: { type: Date },
+    lastStartedAt: { type: Date },
+    lastFinishedAt: { type: Date },
+    lastStatus: { type: String, enum: ['succeeded', 'skipped', 'failed'] },
+    lastTrigger: { type: String },
+    lastAttempts: { type: Number },
+    lastError: { type: String }
+});
+
+// Get existing model or create new one
+export const JobLock = mongoose.models.JobLock || mongoose.model<JobLockDocument>('JobLock', jobLockSchema);
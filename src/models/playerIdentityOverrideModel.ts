@@ -0,0 +1,22 @@
+// src/models/playerIdentityOverrideModel.ts
+import mongoose from 'mongoose';
+
+// Define TypeScript interface for MongoDB document
+export interface PlayerIdentityOverrideDocument extends mongoose.Document {
+    mlbId: string; // Keyed by mlbId so the mapping survives WalkupDB resyncs
+    msfPlayerId: string; // MySportsFeeds player that enrichment uses instead of matching by name
+    playerName: string;
+    createdBy: string; // Spotify ID of the admin who chose the mapping
+    createdAt: Date;
+}
+
+const playerIdentityOverrideSchema = new mongoose.Schema<PlayerIdentityOverrideDocument>({
+    mlbId: { type: String, required: true, unique: true, index: true },
+    msfPlayerId: { type: String, required: true },
+    playerName: { type: String, required: true },
+    createdBy: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now }
+});
+
+// Get existing model or create new one
+export const PlayerIdentityOverride = mongoose.models.PlayerIdentityOverride || mongoose.model<PlayerIdentityOverrideDocument>('PlayerIdentityOverride', playerIdentityOverrideSchema);
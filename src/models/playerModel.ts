@@ -7,7 +7,7 @@ export interface WalkupSongSubdocument {
     id: string;
     songName: string;
     // artistName: string; // REMOVED
-    artists: Array<{ name: string; role: 'primary' | 'featured' }>; // Keep structured array
+    artists: Array<{ name: string; role: 'primary' | 'featured'; spotifyId?: string }>; // Keep structured array
     albumName?: string; // Made optional
     spotifyId?: string;
     youtubeId?: string;
@@ -27,6 +27,10 @@ export interface PlayerDocument extends mongoose.Document {
     lastUpdated: Date;
     stats?: PlayerStats; // Use the imported PlayerStats type
     walkupSongs: mongoose.Types.DocumentArray<WalkupSongSubdocument>; // Array of songs
+    // Version of the WalkupDB player record last synced, to skip unchanged players
+    upstreamEtag?: string;
+    upstreamLastModified?: string;
+    upstreamHash?: string; // sha256 of the player payload, for responses without validators
     // Removed legacy fields
     matchReason?: string;
     rankInfo?: string;
@@ -41,6 +45,9 @@ const playerSchema = new mongoose.Schema<PlayerDocument>({
     team: { type: String, required: true },
     teamId: { type: String, required: true }, // Abbreviation or ID from API
     lastUpdated: { type: Date, default: Date.now },
+    upstreamEtag: { type: String },
+    upstreamLastModified: { type: String },
+    upstreamHash: { type: String },
     stats: {
         _id: false,
         batting: {
@@ -48,12 +55,19 @@ const playerSchema = new mongoose.Schema<PlayerDocument>({
             battingAvg: Number,
             onBasePercentage: Number,
             sluggingPercentage: Number,
-            plateAppearances: Number
+            plateAppearances: Number,
+            hits: Number,
+            atBats: Number,
+            walks: Number,
+            hitByPitch: Number,
+            sacrificeFlies: Number,
+            totalBases: Number
         },
         pitching: {
             _id: false,
             earnedRunAvg: Number,
-            inningsPitched: Number
+            inningsPitched: Number,
+            earnedRuns: Number
         }
     },
     walkupSongs: [{
@@ -64,7 +78,8 @@ const playerSchema = new mongoose.Schema<PlayerDocument>({
         artists: [{ // Structured artist info
             _id: false,
             name: { type: String, required: true },
-            role: { type: String, enum: ['primary', 'featured'], required: true }
+            role: { type: String, enum: ['primary', 'featured'], required: true },
+            spotifyId: { type: String } // Spotify artist ID, links to the Artist collection
         }],
         albumName: { type: String, default: '' },
         spotifyId: { type: String, default: '', index: true },
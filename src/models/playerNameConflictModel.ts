@@ -0,0 +1,64 @@
+// src/models/playerNameConflictModel.ts
+import mongoose from 'mongoose';
+
+// Several MSF players share the name, none has it exactly, or the player's override points to an MSF player with no data
+export type NameConflictReason = 'ambiguous' | 'no_exact_match' | 'stale_override';
+export type NameConflictStatus = 'open' | 'resolved' | 'dismissed';
+
+// MySportsFeeds player suggested for a conflicted player, with the parts of its score
+export interface NameConflictCandidate {
+    msfPlayerId: string;
+    name: string;
+    position: string;
+    team: string;
+    nameScore: number; // Fuzzy similarity of the names, 0-1
+    teamMatch: boolean;
+    positionMatch: boolean;
+    score: number; // Weighted total used to rank candidates
+}
+
+// Define TypeScript interface for MongoDB document
+export interface PlayerNameConflictDocument extends mongoose.Document {
+    playerId: string; // WalkupDB player ID; one conflict per player
+    mlbId: string;
+    playerName: string;
+    team: string;
+    position: string;
+    reason: NameConflictReason;
+    candidates: NameConflictCandidate[]; // Best first
+    status: NameConflictStatus;
+    firstSeenAt: Date;
+    lastSeenAt: Date; // Last enrichment run that reported the conflict
+    resolvedAt?: Date;
+    resolvedBy?: string; // Spotify ID of the admin who resolved or dismissed it
+    resolvedMsfPlayerId?: string;
+}
+
+const playerNameConflictSchema = new mongoose.Schema<PlayerNameConflictDocument>({
+    playerId: { type: String, required: true, unique: true, index: true },
+    mlbId: { type: String, required: true },
+    playerName: { type: String, required: true },
+    team: { type: String },
+    position: { type: String },
+    reason: { type: String, enum: ['ambiguous', 'no_exact_match', 'stale_override'], required: true },
+    candidates: [{
+        _id: false,
+        msfPlayerId: { type: String, required: true },
+        name: { type: String, required: true },
+        position: { type: String },
+        team: { type: String },
+        nameScore: { type: Number, required: true },
+        teamMatch: { type: Boolean, default: false },
+        positionMatch: { type: Boolean, default: false },
+        score: { type: Number, required: true }
+    }],
+    status: { type: String, enum: ['open', 'resolved', 'dismissed'], default: 'open', index: true },
+    firstSeenAt: { type: Date, default: Date.now },
+    lastSeenAt: { type: Date, default: Date.now },
+    resolvedAt: { type: Date },
+    resolvedBy: { type: String },
+    resolvedMsfPlayerId: { type: String }
+});
+
+// Get existing model or create new one
+export const PlayerNameConflict = mongoose.models.PlayerNameConflict || mongoose.model<PlayerNameConflictDocument>('PlayerNameConflict', playerNameConflictSchema);
@@ -0,0 +1,47 @@
+// src/models/syncCheckpointModel.ts
+import mongoose from 'mongoose';
+
+export type SyncRunStatus = 'running' | 'completed' | 'failed';
+
+export interface SyncCheckpointCounts {
+    created: number;
+    updated: number;
+    unchanged: number; // Upstream data hadn't changed since the last sync
+    errors: number;
+}
+
+// Define TypeScript interface for MongoDB document
+export interface SyncCheckpointDocument extends mongoose.Document {
+    jobName: string; // One checkpoint per sync job
+    runId: string; // Run currently holding (or that last held) the lease
+    status: SyncRunStatus;
+    playerIds: string[]; // WalkupDB player list captured when the run started
+    nextIndex: number; // Position in playerIds to resume from
+    counts: SyncCheckpointCounts;
+    leaseExpiresAt: Date; // Another process may take over a running job once this passes
+    startedAt: Date;
+    completedAt?: Date;
+    lastError?: string;
+}
+
+const syncCheckpointSchema = new mongoose.Schema<SyncCheckpointDocument>({
+    jobName: { type: String, required: true, unique: true, index: true },
+    runId: { type: String, required: true },
+    status: { type: String, enum: ['running', 'completed', 'failed'], required: true },
+    playerIds: { type: [String], default: [] },
+    nextIndex: { type: Number, default: 0 },
+    counts: {
+        _id: false,
+        created: { type: Number, default: 0 },
+        updated: { type: Number, default: 0 },
+        unchanged: { type: Number, default: 0 },
+        errors: { type: Number, default: 0 }
+    },
+    leaseExpiresAt: { type: Date, required: true },
+    startedAt: { type: Date, default: Date.now },
+    completedAt: { type: Date },
+    lastError: { type: String }
+});
+
+// Get existing model or create new one
+export const SyncCheckpoint = mongoose.models.SyncCheckpoint || mongoose.model<SyncCheckpointDocument>('SyncCheckpoint', syncCheckpointSchema);
@@ -0,0 +1,53 @@
+// src/models/syncPlayerChangeModel.ts
+import mongoose from 'mongoose';
+
+// A field whose value a sync changed
+export interface FieldChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface WalkupSongChange {
+    songId: string;
+    songName: string;
+    change: 'added' | 'removed' | 'modified';
+    fields: FieldChange[]; // Only set for modified songs
+}
+
+// Define TypeScript interface for MongoDB document
+export interface SyncPlayerChangeDocument extends mongoose.Document {
+    runId: mongoose.Types.ObjectId; // SyncRun that made the change
+    playerId: string; // WalkupDB API ID
+    playerName: string;
+    outcome: 'created' | 'updated';
+    fields: FieldChange[];
+    songs: WalkupSongChange[];
+    recordedAt: Date;
+}
+
+const fieldChangeSchema = new mongoose.Schema({
+    field: { type: String, required: true },
+    before: { type: mongoose.Schema.Types.Mixed },
+    after: { type: mongoose.Schema.Types.Mixed }
+}, { _id: false });
+
+// Kept apart from SyncRun so a first sync of every player can't outgrow one document
+const syncPlayerChangeSchema = new mongoose.Schema<SyncPlayerChangeDocument>({
+    runId: { type: mongoose.Schema.Types.ObjectId, ref: 'SyncRun', required: true, index: true },
+    playerId: { type: String, required: true, index: true },
+    playerName: { type: String, required: true },
+    outcome: { type: String, enum: ['created', 'updated'], required: true },
+    fields: { type: [fieldChangeSchema], default: [] },
+    songs: [{
+        _id: false,
+        songId: { type: String, required: true },
+        songName: { type: String, required: true },
+        change: { type: String, enum: ['added', 'removed', 'modified'], required: true },
+        fields: { type: [fieldChangeSchema], default: [] }
+    }],
+    recordedAt: { type: Date, default: Date.now }
+});
+
+// Get existing model or create new one
+export const SyncPlayerChange = mongoose.models.SyncPlayerChange || mongoose.model<SyncPlayerChangeDocument>('SyncPlayerChange', syncPlayerChangeSchema);
@@ -0,0 +1,58 @@
+// src/models/syncRunModel.ts
+import mongoose from 'mongoose';
+import { SyncRunStatus } from './syncCheckpointModel';
+
+export type SyncRunTrigger = 'schedule' | 'cli' | 'admin';
+
+// What happened to one player during a sync
+export type PlayerSyncOutcome = 'created' | 'updated' | 'unchanged' | 'skipped' | 'error';
+
+export interface SyncRunError {
+    playerId: string;
+    playerName?: string;
+    message: string;
+    at: Date;
+}
+
+// Define TypeScript interface for MongoDB document
+export interface SyncRunDocument extends mongoose.Document {
+    source: string; // Upstream the players were synced from, e.g. 'walkupdb'
+    trigger: SyncRunTrigger;
+    status: SyncRunStatus;
+    startedAt: Date;
+    finishedAt?: Date;
+    resumedAtIndex: number; // Non-zero when the run picked up an unfinished checkpoint
+    totalPlayers: number;
+    counts: Record<PlayerSyncOutcome, number>;
+    playerErrors: SyncRunError[];
+    fatalError?: string; // Why the run stopped early, if it did
+}
+
+const syncRunSchema = new mongoose.Schema<SyncRunDocument>({
+    source: { type: String, required: true },
+    trigger: { type: String, enum: ['schedule', 'cli', 'admin'], required: true },
+    status: { type: String, enum: ['running', 'completed', 'failed'], required: true },
+    startedAt: { type: Date, default: Date.now, index: true },
+    finishedAt: { type: Date },
+    resumedAtIndex: { type: Number, default: 0 },
+    totalPlayers: { type: Number, default: 0 },
+    counts: {
+        _id: false,
+        created: { type: Number, default: 0 },
+        updated: { type: Number, default: 0 },
+        unchanged: { type: Number, default: 0 },
+        skipped: { type: Number, default: 0 },
+        error: { type: Number, default: 0 }
+    },
+    playerErrors: [{
+        _id: false,
+        playerId: { type: String, required: true },
+        playerName: { type: String },
+        message: { type: String, required: true },
+        at: { type: Date, default: Date.now }
+    }],
+    fatalError: { type: String }
+});
+
+// Get existing model or create new one
+export const SyncRun = mongoose.models.SyncRun || mongoose.model<SyncRunDocument>('SyncRun', syncRunSchema);
@@ -4,6 +4,8 @@ import mongoose from 'mongoose';
 const teamStatsSchema = new mongoose.Schema({
   teamId: { type: String, required: true, unique: true },
   team: { type: String, required: true },
+  name: { type: String }, // Full club name, e.g. "Detroit Tigers"
+  msfTeamId: { type: String, index: true }, // MySportsFeeds team ID
   gamesPlayed: { type: Number, required: true },
   wins: { type: Number, required: true },
   losses: { type: Number, required: true },
@@ -14,6 +16,8 @@ const teamStatsSchema = new mongoose.Schema({
 interface TeamStatsDocument extends mongoose.Document {
   teamId: string;
   team: string;
+  name?: string;
+  msfTeamId?: string;
   gamesPlayed: number;
   wins: number;
   losses: number;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { GetServerSideProps } from 'next';
+import { getSession } from 'next-auth/react';
+import Head from 'next/head';
+import Navbar from '@/components/layout/Navbar';
+import { useNameConflicts } from '@/hooks/useNameConflicts';
+import type { NameConflictStatus } from '@/models/playerNameConflictModel';
+
+const STATUSES: NameConflictStatus[] = ['open', 'resolved', 'dismissed'];
+
+const REASON_LABELS = {
+  ambiguous: 'Several MySportsFeeds players share this name',
+  no_exact_match: 'No MySportsFeeds player has this exact name',
+  stale_override: 'The saved mapping points to a MySportsFeeds player with no data this season'
+};
+
+// Admin queue of players stats enrichment couldn't match to MySportsFeeds by name
+const NameConflictsPage: React.FC = () => {
+  const [status, setStatus] = useState<NameConflictStatus>('open');
+  const { conflicts, loading, error, savingId, resolve, dismiss } = useNameConflicts(status);
+
+  return (
+    <>
+      <Head>
+        <title>Name Conflicts | Walkup Match</title>
+      </Head>
+
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-6 max-w-5xl">
+        <h1 className="font-bold text-lg text-black mb-1">Player name conflicts</h1>
+        <p className="text-sm text-black text-opacity-70 mb-4">
+          Picking a candidate saves it as the player&apos;s permanent MySportsFeeds mapping, used from the next stats enrichment run.
+        </p>
+
+        <div className="flex gap-4 mb-4 text-xs font-bold uppercase text-black">
+          {STATUSES.map(option => (
+            <button
+              key={option}
+              onClick={() => setStatus(option)}
+              className={option === status ? 'underline' : 'text-opacity-70 hover:underline'}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-black text-opacity-70">Loading name conflicts...</p>}
+
+        {!loading && !error && conflicts.length === 0 && (
+          <p className="text-sm text-black text-opacity-70">No {status} name conflicts.</p>
+        )}
+
+        <div className="space-y-4">
+          {conflicts.map(conflict => (
+            <section key={conflict.id} className="bg-white p-4 rounded-lg shadow-sm text-black">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <h2 className="font-bold">{conflict.playerName}</h2>
+                  <p className="text-xs text-opacity-70">
+                    {conflict.position} · {conflict.team} · mlbId {conflict.mlbId} · {REASON_LABELS[conflict.reason]}
+                  </p>
+                </div>
+                {conflict.status === 'open' && (
+                  <button
+                    onClick={() => dismiss(conflict.id)}
+                    disabled={savingId === conflict.id}
+                    className="text-xs font-bold uppercase text-opacity-70 hover:underline disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                )}
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-opacity-70 border-b">
+                    <th className="py-2">Candidate</th>
+                    <th className="py-2">Team</th>
+                    <th className="py-2">Position</th>
+                    <th className="py-2">Name score</th>
+                    <th className="py-2">Score</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflict.candidates.map(candidate => (
+                    <tr key={candidate.msfPlayerId} className="border-b last:border-0">
+                      <td className="py-2">
+                        {candidate.name}
+                        <span className="text-xs text-opacity-70 ml-1">#{candidate.msfPlayerId}</span>
+                      </td>
+                      <td className={`py-2 ${candidate.teamMatch ? 'font-bold text-green-700' : ''}`}>{candidate.team}</td>
+                      <td className={`py-2 ${candidate.positionMatch ? 'font-bold text-green-700' : ''}`}>{candidate.position}</td>
+                      <td className="py-2">{candidate.nameScore.toFixed(2)}</td>
+                      <td className="py-2">{candidate.score.toFixed(2)}</td>
+                      <td className="py-2 text-right">
+                        {conflict.status === 'open' && (
+                          <button
+                            onClick={() => resolve(conflict.id, candidate.msfPlayerId)}
+                            disabled={savingId === conflict.id}
+                            className="px-3 py-1 rounded bg-black text-white text-xs font-bold disabled:opacity-50"
+                          >
+                            Use
+                          </button>
+                        )}
+                        {conflict.resolvedMsfPlayerId === candidate.msfPlayerId && (
+                          <span className="px-2 py-1 rounded text-xs font-bold bg-green-100 text-green-800">chosen</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {conflict.resolvedAt && (
+                <p className="text-xs text-opacity-70 mt-2">
+                  {conflict.status} by {conflict.resolvedBy} on {new Date(conflict.resolvedAt).toLocaleString()}
+                </p>
+              )}
+            </section>
+          ))}
+        </div>
+      </main>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  const session = await getSession(context);
+
+  if (!session) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  return {
+    props: {
+      session,
+    },
+  };
+};
+
+export default NameConflictsPage;
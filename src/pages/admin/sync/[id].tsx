@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { GetServerSideProps } from 'next';
+import { getSession } from 'next-auth/react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Navbar from '@/components/layout/Navbar';
+import { useSyncRun } from '@/hooks/useSyncRuns';
+import { SYNC_OUTCOMES, SyncRunStatusBadge, formatSyncDuration } from '@/components/admin/SyncRunStatusBadge';
+import type { FieldChange } from '@/models/syncPlayerChangeModel';
+
+const formatValue = (value: unknown) => value === undefined || value === null || value === '' ? '(empty)' : String(value);
+
+function FieldChangeList({ fields }: { fields: FieldChange[] }) {
+  return (
+    <ul className="text-xs text-black text-opacity-70 ml-4">
+      {fields.map(change => (
+        <li key={change.field}>
+          <span className="font-bold">{change.field}</span>: {formatValue(change.before)} → {formatValue(change.after)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// One sync run: counts, errors and what changed for each player
+const SyncRunPage: React.FC = () => {
+  const router = useRouter();
+  const id = typeof router.query.id === 'string' ? router.query.id : undefined;
+  const [page, setPage] = useState(0);
+  const { run, loading, error } = useSyncRun(id, page);
+  const pageCount = Math.ceil((run?.totalChanges || 0) / (run?.changesPageSize || 1));
+
+  return (
+    <>
+      <Head>
+        <title>Sync Run | Walkup Match</title>
+      </Head>
+
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-6 max-w-5xl">
+        <Link href="/admin/sync" className="text-xs font-bold uppercase text-black text-opacity-70 hover:underline">
+          ← All sync runs
+        </Link>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 my-4 rounded">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {loading && !run && <p className="text-sm text-black text-opacity-70 mt-4">Loading sync run...</p>}
+
+        {run && (
+          <>
+            <section className="bg-white p-4 rounded-lg shadow-sm my-4 text-black">
+              <div className="flex justify-between items-center mb-3">
+                <h1 className="font-bold text-lg">{new Date(run.startedAt).toLocaleString()}</h1>
+                <SyncRunStatusBadge status={run.status} />
+              </div>
+              <p className="text-sm text-opacity-70 mb-3">
+                {run.source} · {run.trigger} · {formatSyncDuration(run)} · {run.totalPlayers} players
+                {run.resumedAtIndex > 0 && ` · resumed at player ${run.resumedAtIndex}`}
+              </p>
+              {run.fatalError && <p className="text-sm text-red-700 mb-3">{run.fatalError}</p>}
+              <dl className="grid grid-cols-5 gap-2 text-center">
+                {SYNC_OUTCOMES.map(outcome => (
+                  <div key={outcome} className="bg-gray-50 rounded p-2">
+                    <dt className="text-xs uppercase text-opacity-70">{outcome}</dt>
+                    <dd className="font-bold text-lg">{run.counts[outcome]}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+
+            {run.errors.length > 0 && (
+              <section className="bg-white p-4 rounded-lg shadow-sm mb-4 text-black">
+                <h2 className="font-bold mb-2">Errors</h2>
+                <ul className="text-sm space-y-1">
+                  {run.errors.map((playerError, index) => (
+                    <li key={`${playerError.playerId}-${index}`}>
+                      <span className="font-bold">{playerError.playerName || playerError.playerId}</span>: {playerError.message}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section className="bg-white p-4 rounded-lg shadow-sm text-black">
+              <h2 className="font-bold mb-2">Changes ({run.totalChanges})</h2>
+              {run.changes.length === 0 && <p className="text-sm text-opacity-70">No player data changed in this run.</p>}
+              <ul className="space-y-3">
+                {run.changes.map(change => (
+                  <li key={change.playerId} className="border-b last:border-0 pb-2">
+                    <p className="text-sm">
+                      <span className="font-bold">{change.playerName}</span>
+                      <span className="text-xs uppercase text-opacity-70 ml-2">{change.outcome}</span>
+                    </p>
+                    <FieldChangeList fields={change.fields} />
+                    <ul className="text-xs ml-4 mt-1">
+                      {change.songs.map(song => (
+                        <li key={song.songId}>
+                          <span className="font-bold capitalize">{song.change}</span> song: {song.songName}
+                          {song.fields.length > 0 && <FieldChangeList fields={song.fields} />}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+
+              {pageCount > 1 && (
+                <div className="flex justify-between items-center mt-4 text-xs font-bold uppercase">
+                  <button onClick={() => setPage(page - 1)} disabled={page === 0 || loading} className="hover:underline disabled:opacity-50">
+                    Previous
+                  </button>
+                  <span>Page {page + 1} of {pageCount}</span>
+                  <button onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || loading} className="hover:underline disabled:opacity-50">
+                    Next
+                  </button>
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  const session = await getSession(context);
+
+  if (!session) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  return {
+    props: {
+      session,
+    },
+  };
+};
+
+export default SyncRunPage;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { GetServerSideProps } from 'next';
+import { getSession } from 'next-auth/react';
+import Head from 'next/head';
+import Link from 'next/link';
+import Navbar from '@/components/layout/Navbar';
+import { useSyncRuns } from '@/hooks/useSyncRuns';
+import { SYNC_OUTCOMES, SyncRunStatusBadge, formatSyncDuration } from '@/components/admin/SyncRunStatusBadge';
+
+// Admin history of WalkupDB player syncs
+const SyncHistoryPage: React.FC = () => {
+  const { runs, loading, error } = useSyncRuns();
+
+  return (
+    <>
+      <Head>
+        <title>Sync History | Walkup Match</title>
+      </Head>
+
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-6 max-w-5xl">
+        <h1 className="font-bold text-lg text-black mb-4">WalkupDB sync history</h1>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-black text-opacity-70">Loading sync runs...</p>}
+
+        {!loading && !error && runs.length === 0 && (
+          <p className="text-sm text-black text-opacity-70">No sync runs recorded yet.</p>
+        )}
+
+        {runs.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+            <table className="w-full text-sm text-black">
+              <thead>
+                <tr className="text-left text-xs uppercase text-opacity-70 border-b">
+                  <th className="p-3">Started</th>
+                  <th className="p-3">Trigger</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Duration</th>
+                  <th className="p-3">Players</th>
+                  {SYNC_OUTCOMES.map(outcome => (
+                    <th key={outcome} className="p-3 capitalize">{outcome}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr key={run.id} className="border-b last:border-0 hover:bg-gray-50">
+                    <td className="p-3">
+                      <Link href={`/admin/sync/${run.id}`} className="font-bold hover:underline">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </Link>
+                    </td>
+                    <td className="p-3">{run.trigger}</td>
+                    <td className="p-3">
+                      <SyncRunStatusBadge status={run.status} />
+                    </td>
+                    <td className="p-3">{formatSyncDuration(run)}</td>
+                    <td className="p-3">
+                      {run.totalPlayers}
+                      {run.resumedAtIndex > 0 && <span className="text-xs text-opacity-70"> (resumed at {run.resumedAtIndex})</span>}
+                    </td>
+                    {SYNC_OUTCOMES.map(outcome => (
+                      <td key={outcome} className="p-3">{run.counts[outcome]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  const session = await getSession(context);
+
+  if (!session) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  return {
+    props: {
+      session,
+    },
+  };
+};
+
+export default SyncHistoryPage;
@@ -0,0 +1,37 @@
+// /pages/api/admin/jobs/[name].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth/adminAuth';
+import { JobScheduler } from '@/services/jobs/jobScheduler';
+
+/**
+ * Start a job now, outside its schedule. Responds once the job has started; poll
+ * GET /api/admin/jobs for its result.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const adminId = await requireAdmin(req, res);
+    if (!adminId) return;
+
+    const name = typeof req.query.name === 'string' ? req.query.name : '';
+    const scheduler = JobScheduler.getInstance();
+    if (!scheduler.hasJob(name)) {
+      return res.status(404).json({ error: `Unknown job: ${name}` });
+    }
+
+    const started = await scheduler.startJob(name, 'admin');
+    if (started.status !== 'started') {
+      return res.status(409).json({ error: `${name} is already running` });
+    }
+    console.log(`admin/jobs/[name].ts: ${adminId} started ${name}.`);
+    started.completion.catch(error => console.error(`Job ${name} started from admin/jobs/[name].ts failed:`, error));
+    return res.status(202).json({ name, status: 'started' });
+  } catch (error) {
+    console.error('Error starting job in admin/jobs/[name].ts:', error);
+    return res.status(500).json({ error: 'Failed to start job' });
+  }
+}
@@ -0,0 +1,22 @@
+// /pages/api/admin/jobs/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth/adminAuth';
+import { JobScheduler } from '@/services/jobs/jobScheduler';
+
+// Every background job with its schedule and last run
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!await requireAdmin(req, res)) return;
+
+    const jobs = await JobScheduler.getInstance().listJobs();
+    return res.status(200).json(jobs);
+  } catch (error) {
+    console.error('Error listing jobs in admin/jobs:', error);
+    return res.status(500).json({ error: 'Failed to list jobs' });
+  }
+}
@@ -0,0 +1,44 @@
+// /pages/api/admin/nameConflicts/[id].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth/adminAuth';
+import { NameConflictResolution, NameConflictService } from '@/services/mysportsfeeds/nameConflictService';
+
+/**
+ * Settle a name conflict. Body: { action: 'resolve', msfPlayerId } saves the chosen
+ * MySportsFeeds player as the player's permanent mapping; { action: 'dismiss' } hides it.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const adminId = await requireAdmin(req, res);
+    if (!adminId) return;
+
+    const id = typeof req.query.id === 'string' ? req.query.id : '';
+    const { action, msfPlayerId } = req.body || {};
+    const service = NameConflictService.getInstance();
+
+    let result: NameConflictResolution;
+    if (action === 'resolve' && typeof msfPlayerId === 'string' && msfPlayerId) {
+      result = await service.resolveConflict(id, msfPlayerId, adminId);
+    } else if (action === 'dismiss') {
+      result = await service.dismissConflict(id, adminId);
+    } else {
+      return res.status(400).json({ error: "Expected { action: 'resolve', msfPlayerId } or { action: 'dismiss' }" });
+    }
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Name conflict not found' });
+    }
+    if (result.status === 'invalid_candidate') {
+      return res.status(400).json({ error: 'msfPlayerId is not one of the conflict\'s candidates' });
+    }
+    return res.status(200).json(result.conflict);
+  } catch (error) {
+    console.error('Error updating name conflict in admin/nameConflicts/[id]:', error);
+    return res.status(500).json({ error: 'Failed to update name conflict' });
+  }
+}
@@ -0,0 +1,29 @@
+// /pages/api/admin/nameConflicts/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth/adminAuth';
+import type { NameConflictStatus } from '@/models/playerNameConflictModel';
+import { NameConflictService } from '@/services/mysportsfeeds/nameConflictService';
+
+const STATUSES: NameConflictStatus[] = ['open', 'resolved', 'dismissed'];
+
+// MySportsFeeds name conflicts with their ranked candidates (?status=open by default)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!await requireAdmin(req, res)) return;
+
+    const status = (req.query.status ?? 'open') as NameConflictStatus;
+    if (!STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+    const conflicts = await NameConflictService.getInstance().listConflicts(status);
+    return res.status(200).json(conflicts);
+  } catch (error) {
+    console.error('Error listing name conflicts in admin/nameConflicts:', error);
+    return res.status(500).json({ error: 'Failed to list name conflicts' });
+  }
+}
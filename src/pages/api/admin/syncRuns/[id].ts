@@ -0,0 +1,27 @@
+// /pages/api/admin/syncRuns/[id].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth/adminAuth';
+import { SyncRunService } from '@/services/walkupSongs/syncRunService';
+
+// One sync run with its errors and a page of per-player changes (?page=0)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!await requireAdmin(req, res)) return;
+
+    const id = typeof req.query.id === 'string' ? req.query.id : '';
+    const page = Math.max(Math.floor(Number(req.query.page) || 0), 0);
+    const run = await SyncRunService.getInstance().getRun(id, page);
+    if (!run) {
+      return res.status(404).json({ error: 'Sync run not found' });
+    }
+    return res.status(200).json(run);
+  } catch (error) {
+    console.error('Error loading sync run in admin/syncRuns/[id]:', error);
+    return res.status(500).json({ error: 'Failed to load sync run' });
+  }
+}
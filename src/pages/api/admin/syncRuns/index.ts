@@ -0,0 +1,25 @@
+// /pages/api/admin/syncRuns/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/auth/adminAuth';
+import { SyncRunService } from '@/services/walkupSongs/syncRunService';
+
+const MAX_LIMIT = 200;
+
+// Past WalkupDB sync runs, most recent first
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!await requireAdmin(req, res)) return;
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), MAX_LIMIT);
+    const runs = await SyncRunService.getInstance().listRuns(limit);
+    return res.status(200).json(runs);
+  } catch (error) {
+    console.error('Error listing sync runs in admin/syncRuns:', error);
+    return res.status(500).json({ error: 'Failed to list sync runs' });
+  }
+}
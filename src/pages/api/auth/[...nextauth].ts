@@ -1,5 +1,6 @@
 import NextAuth, { NextAuthOptions } from "next-auth";
 import SpotifyProvider from "next-auth/providers/spotify";
+import { HttpClient } from "@/services/http/httpClient";
 
 /**
  * Spotify scopes needed for our application:
@@ -7,6 +8,8 @@ import SpotifyProvider from "next-auth/providers/spotify";
  * - user-read-private: Read user's subscription details
  * - user-top-read: Read user's top artists and tracks
  * - user-library-read: Read user's saved tracks and albums
+ * - user-follow-read: Read the artists the user follows
+ * - user-read-recently-played: Read the user's recently played tracks
  * - playlist-read-private: Read user's private playlists
  * - playlist-modify-public: Modify user's public playlists (to create the team playlist)
  * - playlist-modify-private: Modify user's private playlists
@@ -16,6 +19,8 @@ const scopes = [
   "user-read-private",
   "user-top-read",
   "user-library-read",
+  "user-follow-read",
+  "user-read-recently-played",
   "playlist-read-private",
   "playlist-modify-public",
   "playlist-modify-private",
@@ -51,7 +56,9 @@ export const authOptions: NextAuthOptions = {
 
       // Access token has expired, try to refresh it
       try {
-        const response = await fetch("https://accounts.spotify.com/api/token", {
+        // POST, so HttpClient only retries it when Spotify throttles it
+        const response = await HttpClient.getInstance().request<{ access_token: string; refresh_token?: string; expires_in: number }>({
+          url: "https://accounts.spotify.com/api/token",
           method: "POST",
           headers: {
             "Content-Type": "application/x-www-form-urlencoded",
@@ -59,17 +66,13 @@ export const authOptions: NextAuthOptions = {
               `${process.env.SPOTIFY_CLIENT_ID}:${process.env.SPOTIFY_CLIENT_SECRET}`
             ).toString("base64")}`,
           },
-          body: new URLSearchParams({
+          data: new URLSearchParams({
             grant_type: "refresh_token",
             refresh_token: token.refreshToken as string,
           }),
         });
 
-        const refreshedTokens = await response.json();
-
-        if (!response.ok) {
-          throw refreshedTokens;
-        }
+        const refreshedTokens = response.data;
 
         return {
           ...token,
@@ -0,0 +1,45 @@
+// /pages/api/blend/[code]/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSession } from 'next-auth/react';
+import { SpotifyService } from '@/services/spotify/spotifyService';
+import { BlendSessionService, MAX_BLEND_MEMBERS } from '@/services/team/blendSessionService';
+
+// GET shows who is in a blend; POST adds the signed-in user to it
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = await getSession({ req });
+  const spotifyService = SpotifyService.fromSession(session);
+  if (!spotifyService) {
+    console.error("blend/[code].ts: Unauthorized or session missing access token.");
+    return res.status(401).json({ error: 'Unauthorized or session missing access token' });
+  }
+
+  const code = typeof req.query.code === 'string' ? req.query.code.trim().toUpperCase() : '';
+  try {
+    const blendService = BlendSessionService.getInstance();
+    const blend = await blendService.getBlend(code);
+    if (!blend) {
+      return res.status(404).json({ error: 'Blend not found or expired' });
+    }
+    if (req.method === 'GET') {
+      return res.status(200).json(blend);
+    }
+
+    const member = await blendService.fetchMember(spotifyService, session?.user?.image);
+    const result = await blendService.joinBlend(code, member);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Blend not found or expired' });
+    }
+    if (result.status === 'full') {
+      return res.status(409).json({ error: `Blends are limited to ${MAX_BLEND_MEMBERS} members` });
+    }
+    return res.status(200).json(result.blend);
+  } catch (error) {
+    console.error('Blend error in blend/[code].ts:', error);
+    return res.status(500).json({ error: 'Failed to load blend' });
+  }
+}
@@ -0,0 +1,55 @@
+// /pages/api/blend/[code]/team.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSession } from 'next-auth/react';
+import { SpotifyService } from '@/services/spotify/spotifyService';
+import { BlendSessionService } from '@/services/team/blendSessionService';
+import { blendPreferences } from '@/services/team/preferenceBlender';
+import { generateTeamFromSnapshot } from '@/services/team/teamAssembler';
+import { getMatchingProfile, parseMatchingProfileId } from '@/config/matchingProfiles';
+
+// Generate one team from every member's blended preferences; any member can trigger it
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = await getSession({ req });
+  const spotifyService = SpotifyService.fromSession(session);
+  if (!spotifyService) {
+    console.error("blend/[code]/team.ts: Unauthorized or session missing access token.");
+    return res.status(401).json({ error: 'Unauthorized or session missing access token' });
+  }
+
+  const profileQuery = parseMatchingProfileId(req.query.profile);
+  if ('error' in profileQuery) {
+    return res.status(400).json({ error: profileQuery.error });
+  }
+  const matchingProfile = getMatchingProfile(profileQuery.profileId);
+
+  const code = typeof req.query.code === 'string' ? req.query.code.trim().toUpperCase() : '';
+  try {
+    const members = await BlendSessionService.getInstance().getMemberPreferences(code);
+    if (!members) {
+      return res.status(404).json({ error: 'Blend not found or expired' });
+    }
+    const profile = await spotifyService.getUserProfile();
+    if (!members.some(member => member.memberId === profile.id)) {
+      return res.status(403).json({ error: 'Join the blend to generate its team' });
+    }
+
+    const blended = blendPreferences(members);
+    const names = members.map(member => member.name);
+    const ownerName = names.length > 1 ? `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}` : names[0];
+    const team = await generateTeamFromSnapshot({
+      recordedAt: new Date().toISOString(),
+      ...blended,
+      likedTrackIds: []
+    }, matchingProfile, { name: ownerName }, members);
+
+    return res.status(200).json(team);
+  } catch (error) {
+    console.error('Team generation error in blend/[code]/team.ts:', error);
+    return res.status(500).json({ error: 'Failed to generate blend team' });
+  }
+}
@@ -0,0 +1,30 @@
+// /pages/api/blend/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSession } from 'next-auth/react';
+import { SpotifyService } from '@/services/spotify/spotifyService';
+import { BlendSessionService } from '@/services/team/blendSessionService';
+
+// Start a group blend; the signed-in user becomes its host and first member
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = await getSession({ req });
+  const spotifyService = SpotifyService.fromSession(session);
+  if (!spotifyService) {
+    console.error("blend/index.ts: Unauthorized or session missing access token.");
+    return res.status(401).json({ error: 'Unauthorized or session missing access token' });
+  }
+
+  try {
+    const blendService = BlendSessionService.getInstance();
+    const host = await blendService.fetchMember(spotifyService, session?.user?.image);
+    const code = await blendService.createBlend(host);
+    return res.status(201).json(await blendService.getBlend(code));
+  } catch (error) {
+    console.error('Blend creation error in blend/index.ts:', error);
+    return res.status(500).json({ error: 'Failed to create blend' });
+  }
+}
@@ -0,0 +1,34 @@
+// /pages/api/jobs/tick.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { JobScheduler } from '@/services/jobs/jobScheduler';
+
+// The platform stops the function at this limit, so each job has to finish within it
+export const config = {
+  maxDuration: 300
+};
+
+/**
+ * Run one due job and respond with its result. Called by an external cron on serverless deploys,
+ * where no worker process stays up; requests must send "Authorization: Bearer <CRON_SECRET>".
+ * Each tick runs a single attempt of a single job, so tick often enough for every due job to get
+ * its turn. A run the platform cuts off never finishes its slot; jobs that can't finish within
+ * maxDuration need the run-jobs worker instead.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const results = await JobScheduler.getInstance().runNextDueJob();
+    return res.status(200).json(results);
+  } catch (error) {
+    console.error('Error running due jobs in jobs/tick.ts:', error);
+    return res.status(500).json({ error: 'Failed to run due jobs' });
+  }
+}
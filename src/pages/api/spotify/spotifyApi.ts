@@ -1,26 +1,29 @@
 import SpotifyWebApi from "spotify-web-api-node";
+import { HttpClient } from "@/services/http/httpClient";
 
 const spotifyApi = new SpotifyWebApi({
   clientId: process.env.SPOTIFY_CLIENT_ID,
   clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
 });
 
+const http = HttpClient.getInstance();
+
 export const setAccessToken = (token: string) => {
   spotifyApi.setAccessToken(token);
 };
 
 export const getUserProfile = async () => {
-  const data = await spotifyApi.getMe();
+  const data = await http.run("api.spotify.com", () => spotifyApi.getMe());
   return data.body;
 };
 
 export const getUserTopTracks = async () => {
-  const data = await spotifyApi.getMyTopTracks({ limit: 50 });
+  const data = await http.run("api.spotify.com", () => spotifyApi.getMyTopTracks({ limit: 50 }));
   return data.body.items;
 };
 
 export const getUserSavedTracks = async () => {
-  const data = await spotifyApi.getMySavedTracks({ limit: 50 });
+  const data = await http.run("api.spotify.com", () => spotifyApi.getMySavedTracks({ limit: 50 }));
   return data.body.items;
 };
 
@@ -2,27 +2,13 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getSession } from 'next-auth/react'; // Keep using this
 import { SpotifyService } from '@/services/spotify/spotifyService';
-import { WalkupSongService } from '@/services/walkupSongs/walkupSongService'; // Service class from its file
-import { WalkupSongFactory } from '@/services/walkupSongs/walkupSongFactory'; // Factory class from its file
-import { Player, Position, Team, Song } from '@/lib/mlb/types';
-import { calculateTeamStats } from '@/services/mlb/statsCalculator';
-
-// List of positions to fill
-const POSITIONS: Position[] = ['SP', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF', 'DH', 'P1', 'P2', 'P3', 'P4'];
-
-// Convert player position function (keep as is)
-const assignPitcherPosition = (position: string, usedPositions: Set<Position>): Position => {
-  // ... (implementation unchanged)
-  if (position !== 'P') return position as Position;
-  const pitcherPositions: Position[] = ['SP', 'P1', 'P2', 'P3', 'P4'];
-  for (const pos of pitcherPositions) {
-    if (!usedPositions.has(pos)) {
-      usedPositions.add(pos);
-      return pos;
-    }
-  }
-  return 'P1';
-};
+import { TeamMatcherService } from '@/services/walkupSongs/teamMatcherService';
+import { WalkupSongFactory } from '@/services/walkupSongs/walkupSongFactory';
+import { Player, Team, Song } from '@/lib/mlb/types';
+import { TEAM_POSITIONS, toTeamPlayers, calculatePlayersTeamStats } from '@/services/team/teamAssembler';
+import { GeneratedTeamService } from '@/services/team/generatedTeamService';
+import { TEAM_ASSIGNMENT_STRATEGY } from '@/config/matchingConfig';
+import { getMatchingProfile, parseMatchingProfileId } from '@/config/matchingProfiles';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const session = await getSession({ req });
@@ -32,10 +18,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     console.error("generate.ts: Unauthorized or session missing access token.");
     return res.status(401).json({ error: 'Unauthorized or session missing access token' });
   }
-  // --- Store the accessToken ---
-  const accessToken = session.accessToken;
   console.log("generate.ts: Session valid, accessToken retrieved.");
 
+  // Optional ?profile= selects a named matching profile
+  const profileQuery = parseMatchingProfileId(req.query.profile);
+  if ('error' in profileQuery) {
+    return res.status(400).json({ error: profileQuery.error });
+  }
+  const matchingProfile = getMatchingProfile(profileQuery.profileId);
+
   // Create spotifyService instance (using the valid session)
   const spotifyService = SpotifyService.fromSession(session);
 
@@ -51,27 +42,44 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const genreSummary = await spotifyService.getUserGenres();
 
     // Get additional Spotify data for better matching
-    const [topTracks, topArtists, savedTracks] = await Promise.all([
+    // Library extras need scopes older sessions may lack, so they fall back to empty
+    const [topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks] = await Promise.all([
       spotifyService.getAllTopTracks(),
       spotifyService.getAllTopArtists(),
-      spotifyService.getSavedTracks(50) // Note: Saved Albums aren't fetched here, pass empty array below
+      spotifyService.getSavedTracks(50),
+      spotifyService.getSavedAlbums().catch(error => {
+        console.warn('generate.ts: Could not fetch saved albums:', error);
+        return [];
+      }),
+      spotifyService.getFollowedArtists().catch(error => {
+        console.warn('generate.ts: Could not fetch followed artists:', error);
+        return [];
+      }),
+      spotifyService.getUserPlaylistTracks().catch(error => {
+        console.warn('generate.ts: Could not fetch playlist tracks:', error);
+        return [];
+      })
     ]);
     console.log("generate.ts: Preferences fetched.");
 
-    // Create walkup song service
-    const walkupSongService = WalkupSongFactory.createService();
+    // Load player data from the configured walkup song repository (same source as /api/walkupSongs)
+    const allPlayerSongs = await WalkupSongFactory.createRepository().getAllPlayerSongs();
+    console.log(`generate.ts: Loaded ${allPlayerSongs.length} players.`);
+
+    const teamMatcher = new TeamMatcherService(spotifyService, matchingProfile);
     console.log("generate.ts: Calling findTeamByPreferences...");
 
     // Generate team based on all preferences
-    // --- Pass the accessToken as the last argument ---
-    const matchedPlayerSongs = await walkupSongService.findTeamByPreferences(
+    const matchedPlayerSongs = await teamMatcher.findTeamByPreferences(
       genreSummary,
       topTracks,
       topArtists,
       savedTracks,
-      POSITIONS,
-      [], // Pass empty array for userSavedAlbums if not fetched/used yet
-      accessToken // <-- THE FIX: Pass the token here
+      savedAlbums,
+      followedArtists,
+      playlistTracks,
+      TEAM_POSITIONS,
+      allPlayerSongs
     );
     console.log(`generate.ts: findTeamByPreferences returned ${matchedPlayerSongs.length} players.`);
 
@@ -88,77 +96,68 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    const usedPitcherPositions = new Set<Position>();
-    const selectedPlayers: Player[] = matchedPlayerSongs.map(playerSong => {
-      // ... (player mapping unchanged, includes ERA mapping) ...
-        const [firstName, ...lastNameParts] = playerSong.playerName.split(' ');
-      const lastName = lastNameParts.join(' ');
-      const position = assignPitcherPosition(playerSong.position, usedPitcherPositions);
-
-      return {
-        id: playerSong.playerId,
-        name: playerSong.playerName,
-        position: position,
-        team: playerSong.team,
-        headshot: `https://via.placeholder.com/32?text=${firstName.substring(0, 1)}`,
-        firstName,
-        lastName,
-        teamAbbreviation: playerSong.teamId,
-        stats: {
-          batting: {
-            battingAvg: playerSong.stats?.batting?.battingAvg || 0,
-            onBasePercentage: playerSong.stats?.batting?.onBasePercentage || 0,
-            sluggingPercentage: playerSong.stats?.batting?.sluggingPercentage || 0
-          },
-          pitching: {
-            earnedRunAvg: playerSong.stats?.pitching?.earnedRunAvg || 0,
-            // Make sure inningsPitched is included if calculateTeamStats needs it!
-             inningsPitched: playerSong.stats?.pitching?.inningsPitched || 0
-          }
-        },
-        matchingSongs: playerSong.matchingSongs
-      };
-    });
+    const selectedPlayers: Player[] = toTeamPlayers(matchedPlayerSongs);
      console.log(`generate.ts: Mapped ${selectedPlayers.length} players.`);
 
     const songs: Song[] = (await Promise.all(matchedPlayerSongs.flatMap(async playerSong => {
        // ... (song mapping unchanged) ...
-      const allSongs = playerSong.matchingSongs || [{ /* ... default song object ... */ }];
+      const allSongs = playerSong.matchingSongs || [];
        return await Promise.all(allSongs.map(async song => {
+         const artistName = song.artists.map(a => a.name).join(', ');
+         const primaryArtist = song.artists.find(a => a.role === 'primary') || song.artists[0];
          let albumArt = spotifyService.getDefaultAlbumArt();
-         const spotifyTrack = await spotifyService.searchTrack(song.songName, song.artistName);
+         const spotifyTrack = await spotifyService.searchTrack(song.songName, primaryArtist?.name || '');
          if (spotifyTrack?.album?.images) {
            albumArt = spotifyService.getBestAlbumArtUrl(spotifyTrack.album.images);
          }
          return { /* ... song object ... */
             id: `${playerSong.playerId}-${song.songName}`,
           name: song.songName,
-          artist: song.artistName,
+          artist: artistName,
           albumArt,
           playerMatch: playerSong.playerId,
           matchScore: song.matchScore || 0, // Ensure default score if needed
           matchReason: song.matchReason || 'Unknown',
           rankInfo: song.rankInfo || '',
-          previewUrl: spotifyTrack?.preview_url
+          previewUrl: spotifyTrack?.preview_url,
+          spotifyId: song.spotifyId || spotifyTrack?.id
          };
        }));
      }))).flat();
     console.log(`generate.ts: Mapped ${songs.length} songs.`);
 
-    const hitters = selectedPlayers.filter(p => !['SP', 'P1', 'P2', 'P3', 'P4'].includes(p.position));
-    const pitchers = selectedPlayers.filter(p => ['SP', 'P1', 'P2', 'P3', 'P4'].includes(p.position));
-    console.log(`generate.ts: Calling calculateTeamStats with ${hitters.length} hitters, ${pitchers.length} pitchers.`);
-
-    const stats = calculateTeamStats(hitters, pitchers);
+    const stats = calculatePlayersTeamStats(selectedPlayers);
      console.log("generate.ts: Calculated stats:", stats);
 
     const team: Team = {
       name: `${session.user?.name?.split(' ')[0]}'s Team`,
       players: selectedPlayers,
       songs: songs,
-      stats // <-- This stats object should be calculated correctly as before
+      stats, // <-- This stats object should be calculated correctly as before
+      profileId: matchingProfile.id
     };
 
+    // Persist the team so it can be shared; a failed save shouldn't cost the user their team
+    try {
+      team.slug = await GeneratedTeamService.getInstance().saveTeam(team, {
+        genres: genreSummary,
+        topTracks,
+        topArtists,
+        savedTracks,
+        savedAlbums,
+        followedArtists,
+        playlistTracks,
+        positions: TEAM_POSITIONS,
+        assignmentStrategy: TEAM_ASSIGNMENT_STRATEGY,
+        profileId: matchingProfile.id
+      }, {
+        name: session.user?.name?.split(' ')[0] || 'User',
+        image: session.user?.image
+      });
+    } catch (saveError) {
+      console.error('generate.ts: Failed to save generated team:', saveError);
+    }
+
     return res.status(200).json(team);
 
   } catch (error) {
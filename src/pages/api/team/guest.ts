@@ -0,0 +1,43 @@
+// /pages/api/team/guest.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { buildSnapshotFromGuestSelections, parseGuestSelections } from '@/services/spotify/guestPreferences';
+import { ArtistRegistry } from '@/services/artists/artistRegistry';
+import { generateTeamFromSnapshot, parseOwnerName } from '@/services/team/teamAssembler';
+import { getMatchingProfile, parseMatchingProfileId } from '@/config/matchingProfiles';
+
+/**
+ * Generate a team from artists, songs and genres a guest picked, without a Spotify session.
+ * Body: { artists: [{ name, spotifyId? }], songs: [{ name, artistName, spotifyId? }], genres: string[], ownerName?: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const parsed = parseGuestSelections(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const profileQuery = parseMatchingProfileId(req.query.profile);
+  if ('error' in profileQuery) {
+    return res.status(400).json({ error: profileQuery.error });
+  }
+  const matchingProfile = getMatchingProfile(profileQuery.profileId);
+  const ownerName = parseOwnerName(req.body?.ownerName);
+
+  try {
+    const artistRegistry = await ArtistRegistry.load();
+    const snapshot = buildSnapshotFromGuestSelections(parsed.selections, {
+      resolveArtistId: name => artistRegistry.resolveId(name),
+      getArtistGenres: spotifyId => artistRegistry.getGenres(spotifyId)
+    });
+    const team = await generateTeamFromSnapshot(snapshot, matchingProfile, { name: ownerName });
+
+    return res.status(200).json(team);
+  } catch (error) {
+    console.error('Team generation error in guest.ts:', error);
+    return res.status(500).json({ error: 'Failed to generate team' });
+  }
+}
@@ -0,0 +1,85 @@
+// /pages/api/team/import.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSession } from 'next-auth/react';
+import { SpotifyExportPlay, buildSnapshotFromExport, parseSpotifyExportFile } from '@/services/spotify/spotifyExportParser';
+import { ArtistRegistry } from '@/services/artists/artistRegistry';
+import { generateTeamFromSnapshot, parseOwnerName } from '@/services/team/teamAssembler';
+import { getMatchingProfile, parseMatchingProfileId } from '@/config/matchingProfiles';
+
+// Extended streaming history files run to ~15MB each, so a request carries a couple of them.
+// No session is required, so these limits bound what one request can make the server parse.
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '32mb' }
+  }
+};
+const MAX_FILES = 10;
+const MAX_ENTRIES = 100_000; // Across all files in the request
+
+interface ExportUploadFile {
+  name: string;
+  entries: unknown; // Parsed JSON contents of the file
+}
+
+/**
+ * Generate a team from Spotify account data export files instead of a live Spotify session.
+ * Body: { files: [{ name: "StreamingHistory0.json", entries: [...] }], ownerName?: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const files = req.body?.files as ExportUploadFile[] | undefined;
+  if (!Array.isArray(files) || files.length === 0 || files.some(file => typeof file?.name !== 'string')) {
+    return res.status(400).json({ error: 'Request body must include files exported from Spotify' });
+  }
+  if (files.length > MAX_FILES) {
+    return res.status(413).json({ error: `Upload at most ${MAX_FILES} files per request` });
+  }
+  const entryCount = files.reduce((total, file) => total + (Array.isArray(file.entries) ? file.entries.length : 0), 0);
+  if (entryCount > MAX_ENTRIES) {
+    return res.status(413).json({ error: `Upload at most ${MAX_ENTRIES} streaming history entries per request` });
+  }
+
+  const profileQuery = parseMatchingProfileId(req.query.profile);
+  if ('error' in profileQuery) {
+    return res.status(400).json({ error: profileQuery.error });
+  }
+  const matchingProfile = getMatchingProfile(profileQuery.profileId);
+
+  let plays: SpotifyExportPlay[] = [];
+  for (const file of files) {
+    const parsed = parseSpotifyExportFile(file.name, file.entries);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    plays = plays.concat(parsed.plays);
+  }
+  if (plays.length === 0) {
+    return res.status(400).json({ error: 'No music plays found in the uploaded files' });
+  }
+
+  // Signed-in users get their name on the team, but a session is not required
+  const session = await getSession({ req });
+  const ownerName = session?.user?.name?.split(' ')[0] || parseOwnerName(req.body?.ownerName);
+
+  try {
+    console.log(`import.ts: Parsed ${plays.length} plays from ${files.length} files.`);
+    const artistRegistry = await ArtistRegistry.load();
+    const snapshot = buildSnapshotFromExport(plays, {
+      resolveArtistId: name => artistRegistry.resolveId(name),
+      getArtistGenres: spotifyId => artistRegistry.getGenres(spotifyId)
+    });
+    const team = await generateTeamFromSnapshot(snapshot, matchingProfile, {
+      name: ownerName,
+      image: session?.user?.image
+    });
+
+    return res.status(200).json(team);
+  } catch (error) {
+    console.error('Team generation error in import.ts:', error);
+    return res.status(500).json({ error: 'Failed to generate team from Spotify export' });
+  }
+}
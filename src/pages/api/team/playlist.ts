@@ -0,0 +1,86 @@
+// /pages/api/team/playlist.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSession } from 'next-auth/react';
+import { SpotifyService } from '@/services/spotify/spotifyService';
+import { playlistNameFor } from '@/services/spotify/exportPlaylist';
+import { Position, Song, Team } from '@/lib/mlb/types';
+
+// Lineup first, then the rotation and bullpen
+const BATTING_ORDER: Position[] = ['CF', 'SS', '1B', 'DH', 'LF', '3B', 'RF', '2B', 'C', 'SP', 'P1', 'P2', 'P3', 'P4'];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = await getSession({ req });
+  const spotifyService = SpotifyService.fromSession(session);
+  if (!spotifyService) {
+    console.error("playlist.ts: Unauthorized or session missing access token.");
+    return res.status(401).json({ error: 'Unauthorized or session missing access token' });
+  }
+
+  const team = req.body?.team as Team | undefined;
+  if (!team?.name || !Array.isArray(team.players) || !Array.isArray(team.songs)) {
+    return res.status(400).json({ error: 'Request body must include a team' });
+  }
+
+  try {
+    // Order songs by their player's batting order slot, best match first within a player
+    const slotFor = new Map(team.players.map(player => [player.id, BATTING_ORDER.indexOf(player.position)]));
+    const orderedSongs = [...team.songs]
+      .filter(song => slotFor.has(song.playerMatch))
+      .sort((a, b) =>
+        (slotFor.get(a.playerMatch) ?? BATTING_ORDER.length) - (slotFor.get(b.playerMatch) ?? BATTING_ORDER.length) ||
+        b.matchScore - a.matchScore
+      );
+
+    // Resolve each song to a track URI: stored Spotify ID first, then a search
+    const resolveTrackId = async (song: Song): Promise<string | null> => {
+      if (song.spotifyId) return song.spotifyId;
+      const primaryArtist = song.artist.split(',')[0].trim();
+      const track = await spotifyService.searchTrack(song.name, primaryArtist);
+      return track?.id ?? null;
+    };
+    const trackIds = await Promise.all(orderedSongs.map(resolveTrackId));
+
+    const trackUris: string[] = [];
+    const unresolved: string[] = [];
+    orderedSongs.forEach((song, index) => {
+      const trackId = trackIds[index];
+      if (!trackId) {
+        unresolved.push(`${song.name} - ${song.artist}`);
+        return;
+      }
+      const uri = `spotify:track:${trackId}`;
+      if (!trackUris.includes(uri)) trackUris.push(uri);
+    });
+    console.log(`playlist.ts: Resolved ${trackUris.length} tracks, ${unresolved.length} unresolved.`);
+
+    if (trackUris.length === 0) {
+      return res.status(422).json({ error: 'None of the team songs could be found on Spotify', unresolved });
+    }
+
+    // Reuse the playlist from an earlier export so regenerating doesn't create duplicates
+    const name = playlistNameFor(team.name);
+    const existing = await spotifyService.findOwnPlaylistByName(name);
+    const playlist = existing ?? await spotifyService.createPlaylist(
+      name,
+      'Walkup songs from your WalkUp Match team, in batting order.'
+    );
+    await spotifyService.replacePlaylistTracks(playlist.id, trackUris);
+    console.log(`playlist.ts: ${existing ? 'Updated' : 'Created'} playlist ${playlist.id}.`);
+
+    return res.status(200).json({
+      playlistId: playlist.id,
+      url: playlist.url,
+      trackCount: trackUris.length,
+      updated: Boolean(existing),
+      unresolved
+    });
+  } catch (error) {
+    console.error('Playlist export error in playlist.ts:', error);
+    return res.status(500).json({ error: 'Failed to export playlist' });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AUTOCOMPLETE_TYPES, AutocompleteType, WalkupAutocompleteService } from '@/services/walkupSongs/walkupAutocompleteService';
+
+// Public so guests without a Spotify login can pick artists, songs and genres
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { type, q } = req.query;
+  if (typeof type !== 'string' || !(AUTOCOMPLETE_TYPES as readonly string[]).includes(type)) {
+    return res.status(400).json({ error: `type must be one of: ${AUTOCOMPLETE_TYPES.join(', ')}` });
+  }
+  if (typeof q !== 'string') {
+    return res.status(400).json({ error: 'q is required' });
+  }
+
+  try {
+    const suggestions = await WalkupAutocompleteService.getInstance().search(type as AutocompleteType, q);
+    return res.status(200).json(suggestions);
+  } catch (error) {
+    console.error('Walkup autocomplete API error:', error);
+    return res.status(500).json({ error: 'Failed to fetch suggestions' });
+  }
+}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { GetServerSideProps } from 'next';
+import { getSession } from 'next-auth/react';
+import Head from 'next/head';
+import Image from 'next/image';
+import { useRouter } from 'next/router';
+import Navbar from '@/components/layout/Navbar';
+import { TeamProfile } from '@/components/team/TeamProfile';
+import BaseballDiamond from '@/components/visualization/BaseballDiamond';
+import { TeamPlaylist } from '@/components/team/TeamPlaylist';
+import { MatchingSettingsDrawer } from '@/components/team/MatchingSettingsDrawer';
+import { useBlend } from '@/hooks/useBlend';
+import { MATCHING_PROFILES, MatchingProfileId } from '@/config/matchingProfiles';
+
+// A group blend: members join by code, then anyone can build the shared team
+const BlendSessionPage: React.FC = () => {
+  const router = useRouter();
+  const code = typeof router.query.code === 'string' ? router.query.code : undefined;
+  const { blend, team, loading, error, profileId, refreshBlend, generateTeam } = useBlend(code);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const handleApplyProfile = (nextProfileId: MatchingProfileId) => {
+    setSettingsOpen(false);
+    generateTeam(nextProfileId);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Group Blend | Walkup Match</title>
+        <meta name="description" content="One MLB team matched to your whole group's music taste" />
+      </Head>
+
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl">
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded">
+            <p>{error}</p>
+          </div>
+        )}
+
+        <section className="bg-white p-4 rounded-lg shadow-sm mb-6">
+          <div className="flex justify-between items-center mb-3">
+            <h1 className="font-bold text-lg text-black">Blend {code}</h1>
+            <button onClick={refreshBlend} className="text-xs font-bold uppercase text-black text-opacity-70 hover:underline">
+              Refresh members
+            </button>
+          </div>
+          <p className="text-sm text-black text-opacity-70 mb-3">Share the code so friends can join.</p>
+
+          <ul className="flex flex-wrap gap-3 mb-4">
+            {(blend?.members || []).map(member => (
+              <li key={member.memberId} className="flex items-center text-sm text-black">
+                <Image
+                  src={member.image || 'https://via.placeholder.com/32'}
+                  alt={member.name}
+                  width={24}
+                  height={24}
+                  className="rounded-full mr-2"
+                />
+                {member.name}
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={() => generateTeam()}
+            disabled={!blend || loading}
+            className="w-full bg-[#1ed660] px-3 py-2 text-black text-xs uppercase rounded-[4px] font-bold hover:bg-opacity-90 transition-all disabled:opacity-50"
+          >
+            {team ? 'Regenerate blend team' : 'Build blend team'}
+          </button>
+        </section>
+
+        {(team || loading) && (
+          <>
+            {/* Team Profile Section */}
+            <TeamProfile team={team} loading={loading} owner={{ name: team?.name.replace(/'s Team$/, '') || 'Blend', image: null }} />
+
+            <div className="flex justify-end gap-4 mt-2">
+              {/* Matching profile settings */}
+              <button
+                onClick={() => setSettingsOpen(true)}
+                disabled={loading}
+                className="text-xs font-bold uppercase text-black text-opacity-70 hover:underline disabled:opacity-50"
+              >
+                Profile: {MATCHING_PROFILES[profileId].label}
+              </button>
+            </div>
+
+            {/* Baseball Diamond Visualization */}
+            <div className="mt-6 bg-[#E4E8E3] bg-opacity-70 p-2 rounded-lg shadow-sm">
+              <BaseballDiamond players={team?.players || []} />
+            </div>
+
+            {/* Team Playlist */}
+            <TeamPlaylist team={team} loading={loading} />
+          </>
+        )}
+      </main>
+
+      <MatchingSettingsDrawer
+        open={settingsOpen}
+        profileId={profileId}
+        onClose={() => setSettingsOpen(false)}
+        onApply={handleApplyProfile}
+      />
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  const session = await getSession(context);
+
+  if (!session) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  return {
+    props: {
+      session,
+    },
+  };
+};
+
+export default BlendSessionPage;
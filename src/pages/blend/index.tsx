@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { GetServerSideProps } from 'next';
+import { getSession } from 'next-auth/react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import Navbar from '@/components/layout/Navbar';
+
+// Start a group blend or join one by code
+const BlendPage: React.FC = () => {
+  const router = useRouter();
+  const [code, setCode] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/blend', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to create blend');
+      }
+      const blend = await response.json();
+      router.push(`/blend/${blend.code}`);
+    } catch (err) {
+      console.error('Error creating blend:', err);
+      setError('Could not start a blend. Please try again.');
+      setCreating(false);
+    }
+  };
+
+  const handleJoin = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (code.trim()) router.push(`/blend/${code.trim().toUpperCase()}`);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Group Blend | Walkup Match</title>
+        <meta name="description" content="Build one MLB team from your whole group's music taste" />
+      </Head>
+
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-6 max-w-md">
+        <h1 className="font-bold text-lg text-black mb-1">Group blend</h1>
+        <p className="text-sm text-black text-opacity-70 mb-4">
+          One lineup for the whole watch party. Everyone gets at least one player picked for their taste.
+        </p>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded">
+            <p>{error}</p>
+          </div>
+        )}
+
+        <button
+          onClick={handleCreate}
+          disabled={creating}
+          className="w-full bg-[#1ed660] px-3 py-2 text-black text-xs uppercase rounded-[4px] font-bold hover:bg-opacity-90 transition-all disabled:opacity-50"
+        >
+          {creating ? 'Starting blend…' : 'Start a blend'}
+        </button>
+
+        <form onSubmit={handleJoin} className="flex gap-2 mt-4">
+          <input
+            type="text"
+            value={code}
+            onChange={event => setCode(event.target.value)}
+            placeholder="Join code"
+            className="flex-1 border border-gray-200 rounded-[4px] px-3 py-2 text-sm text-black uppercase"
+          />
+          <button
+            type="submit"
+            className="bg-black px-3 py-2 text-white text-xs uppercase rounded-[4px] font-bold hover:bg-opacity-90 transition-all"
+          >
+            Join
+          </button>
+        </form>
+      </main>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  const session = await getSession(context);
+
+  if (!session) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  return {
+    props: {
+      session,
+    },
+  };
+};
+
+export default BlendPage;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { TeamProfile } from '@/components/team/TeamProfile';
+import BaseballDiamond from '@/components/visualization/BaseballDiamond';
+import { TeamPlaylist } from '@/components/team/TeamPlaylist';
+import { GeneratedTeamService, SharedTeam } from '@/services/team/generatedTeamService';
+
+interface SharedTeamPageProps {
+  sharedTeam: SharedTeam;
+}
+
+// Read-only view of a saved team; no Spotify login required
+const SharedTeamPage: React.FC<SharedTeamPageProps> = ({ sharedTeam }) => {
+  const { team, ownerName, ownerImage } = sharedTeam;
+
+  return (
+    <>
+      <Head>
+        <title>{`${team.name} | Walkup Match`}</title>
+        <meta name="description" content={`${ownerName}'s MLB team, matched to their Spotify music taste`} />
+      </Head>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl">
+        {/* Team Profile Section */}
+        <TeamProfile team={team} owner={{ name: ownerName, image: ownerImage }} />
+
+        {/* Baseball Diamond Visualization */}
+        <div className="mt-6 bg-[#E4E8E3] bg-opacity-70 p-2 rounded-lg shadow-sm">
+          <BaseballDiamond players={team.players} />
+        </div>
+
+        {/* Team Playlist */}
+        <TeamPlaylist team={team} readOnly />
+
+        <div className="mt-6 text-center">
+          <Link href="/" className="text-sm font-bold text-[#10a445] hover:underline">
+            Build your own team
+          </Link>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps<SharedTeamPageProps> = async (context) => {
+  const slug = context.params?.slug;
+  if (typeof slug !== 'string') {
+    return { notFound: true };
+  }
+
+  const sharedTeam = await GeneratedTeamService.getInstance().getTeamBySlug(slug);
+  if (!sharedTeam) {
+    return { notFound: true };
+  }
+
+  return {
+    // Round-trip through JSON so Mongo values are serializable props
+    props: { sharedTeam: JSON.parse(JSON.stringify(sharedTeam)) },
+  };
+};
+
+export default SharedTeamPage;
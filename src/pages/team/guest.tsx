@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { TeamProfile } from '@/components/team/TeamProfile';
+import BaseballDiamond from '@/components/visualization/BaseballDiamond';
+import { TeamPlaylist } from '@/components/team/TeamPlaylist';
+import { MatchingSettingsDrawer } from '@/components/team/MatchingSettingsDrawer';
+import { AutocompleteInput } from '@/components/guest/AutocompleteInput';
+import { useGuestTeam } from '@/hooks/useGuestTeam';
+import { GuestSelections } from '@/services/spotify/guestPreferences';
+import type { AutocompleteSuggestion } from '@/services/walkupSongs/walkupAutocompleteService';
+import { MATCHING_PROFILES, MatchingProfileId } from '@/config/matchingProfiles';
+
+const GUEST_OWNER = { name: 'Guest', image: null };
+
+// Build a team from hand-picked favorites; no Spotify login required
+const GuestTeamPage: React.FC = () => {
+  const { team, loading, error, profileId, generateTeam } = useGuestTeam();
+  const [artists, setArtists] = useState<AutocompleteSuggestion[]>([]);
+  const [songs, setSongs] = useState<AutocompleteSuggestion[]>([]);
+  const [genres, setGenres] = useState<AutocompleteSuggestion[]>([]);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const selections: GuestSelections = {
+    artists: artists.map(artist => ({ name: artist.label, spotifyId: artist.spotifyId })),
+    songs: songs.map(song => ({ name: song.label, artistName: song.artistName || '', spotifyId: song.spotifyId })),
+    genres: genres.map(genre => genre.label)
+  };
+  const hasSelections = artists.length + songs.length + genres.length > 0;
+
+  const handleApplyProfile = (nextProfileId: MatchingProfileId) => {
+    setSettingsOpen(false);
+    generateTeam(selections, nextProfileId);
+  };
+
+  const handleShare = async () => {
+    if (!team?.slug) return;
+    await navigator.clipboard.writeText(`${window.location.origin}/team/${team.slug}`);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Build a Team | Walkup Match</title>
+        <meta name="description" content="Build an MLB team from your favorite artists, songs and genres" />
+      </Head>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl">
+        <section className="bg-white p-4 rounded-lg shadow-sm mb-6">
+          <h1 className="font-bold text-lg text-black mb-1">Pick your favorites</h1>
+          <p className="text-sm text-black text-opacity-70 mb-4">
+            Choose from the artists, songs and genres players walk up to.
+          </p>
+
+          <AutocompleteInput type="artist" label="Artists" placeholder="Search artists" selected={artists} onChange={setArtists} />
+          <AutocompleteInput type="song" label="Songs" placeholder="Search songs" selected={songs} onChange={setSongs} />
+          <AutocompleteInput type="genre" label="Genres" placeholder="Search genres" selected={genres} onChange={setGenres} />
+
+          <button
+            onClick={() => generateTeam(selections)}
+            disabled={!hasSelections || loading}
+            className="w-full bg-[#1ed660] px-3 py-2 text-black text-xs uppercase rounded-[4px] font-bold hover:bg-opacity-90 transition-all disabled:opacity-50"
+          >
+            {team ? 'Regenerate team' : 'Build my team'}
+          </button>
+        </section>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {(team || loading) && (
+          <>
+            {/* Team Profile Section */}
+            <TeamProfile team={team} loading={loading} owner={GUEST_OWNER} />
+
+            <div className="flex justify-end gap-4 mt-2">
+              {/* Matching profile settings */}
+              <button
+                onClick={() => setSettingsOpen(true)}
+                disabled={loading}
+                className="text-xs font-bold uppercase text-black text-opacity-70 hover:underline disabled:opacity-50"
+              >
+                Profile: {MATCHING_PROFILES[profileId].label}
+              </button>
+
+              {/* Share link, available once the team has been saved */}
+              {team?.slug && !loading && (
+                <button
+                  onClick={handleShare}
+                  className="text-xs font-bold uppercase text-[#10a445] hover:underline"
+                >
+                  {linkCopied ? 'Link copied' : 'Share team'}
+                </button>
+              )}
+            </div>
+
+            {/* Baseball Diamond Visualization */}
+            <div className="mt-6 bg-[#E4E8E3] bg-opacity-70 p-2 rounded-lg shadow-sm">
+              <BaseballDiamond players={team?.players || []} />
+            </div>
+
+            {/* Team Playlist; exporting to Spotify needs a login */}
+            <TeamPlaylist team={team} loading={loading} readOnly />
+          </>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link href="/" className="text-sm font-bold text-[#10a445] hover:underline">
+            Log in with Spotify instead
+          </Link>
+        </div>
+      </main>
+
+      <MatchingSettingsDrawer
+        open={settingsOpen}
+        profileId={profileId}
+        onClose={() => setSettingsOpen(false)}
+        onApply={handleApplyProfile}
+      />
+    </>
+  );
+};
+
+export default GuestTeamPage;
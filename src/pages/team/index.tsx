@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { GetServerSideProps } from 'next';
 import { getSession } from 'next-auth/react';
 import Head from 'next/head';
@@ -6,10 +6,26 @@ import Navbar from '@/components/layout/Navbar';
 import { TeamProfile } from '@/components/team/TeamProfile';
 import BaseballDiamond from '@/components/visualization/BaseballDiamond';
 import { TeamPlaylist } from '@/components/team/TeamPlaylist';
+import { MatchingSettingsDrawer } from '@/components/team/MatchingSettingsDrawer';
 import { useTeam } from '@/hooks/useTeam';
+import { MATCHING_PROFILES, MatchingProfileId } from '@/config/matchingProfiles';
 
 const TeamPage: React.FC = () => {
-  const { team, loading, error, refreshTeam } = useTeam();
+  const { team, loading, error, profileId, refreshTeam } = useTeam();
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const handleApplyProfile = (nextProfileId: MatchingProfileId) => {
+    setSettingsOpen(false);
+    refreshTeam(nextProfileId);
+  };
+
+  const handleShare = async () => {
+    if (!team?.slug) return;
+    await navigator.clipboard.writeText(`${window.location.origin}/team/${team.slug}`);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
 
   return (
     <>
@@ -26,7 +42,7 @@ const TeamPage: React.FC = () => {
           <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded">
             <p>{error}</p>
             <button 
-              onClick={refreshTeam}
+              onClick={() => refreshTeam()}
               className="mt-2 text-sm font-medium text-red-700 hover:text-red-900"
             >
               Try again
@@ -36,6 +52,27 @@ const TeamPage: React.FC = () => {
         
         {/* Team Profile Section */}
         <TeamProfile team={team} loading={loading} />
+
+        <div className="flex justify-end gap-4 mt-2">
+          {/* Matching profile settings */}
+          <button
+            onClick={() => setSettingsOpen(true)}
+            disabled={loading}
+            className="text-xs font-bold uppercase text-black text-opacity-70 hover:underline disabled:opacity-50"
+          >
+            Profile: {MATCHING_PROFILES[profileId].label}
+          </button>
+
+          {/* Share link, available once the team has been saved */}
+          {team?.slug && !loading && (
+            <button
+              onClick={handleShare}
+              className="text-xs font-bold uppercase text-[#10a445] hover:underline"
+            >
+              {linkCopied ? 'Link copied' : 'Share team'}
+            </button>
+          )}
+        </div>
         
         {/* Baseball Diamond Visualization */}
         <div className="mt-6 bg-[#E4E8E3] bg-opacity-70 p-2 rounded-lg shadow-sm">
@@ -45,6 +82,13 @@ const TeamPage: React.FC = () => {
         {/* Team Playlist */}
         <TeamPlaylist team={team} loading={loading} />
       </main>
+
+      <MatchingSettingsDrawer
+        open={settingsOpen}
+        profileId={profileId}
+        onClose={() => setSettingsOpen(false)}
+        onApply={handleApplyProfile}
+      />
     </>
   );
 };
@@ -27,7 +27,7 @@ const TeamPage: React.FC = () => {
           <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded">
             <p>{error}</p>
             <button 
-              onClick={refreshTeam}
+              onClick={() => refreshTeam()}
               className="mt-2 text-sm font-medium text-red-700 hover:text-red-900"
             >
               Try again
@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import fs from 'fs/promises';
+import { PlayerWalkupSong } from '../lib/walkupSongs/types';
+import { getMatchingProfile } from '../config/matchingProfiles';
+import { FixtureSpotifyDataSource } from '../services/spotify/spotifyDataSource';
+import { TeamMatcherService } from '../services/walkupSongs/teamMatcherService';
+import { TEAM_POSITIONS } from '../services/team/teamAssembler';
+
+// Get the directory name of the current module
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Everything comes from committed fixtures, so no .env.local is loaded and Mongo commands fail immediately
+mongoose.set('bufferCommands', false);
+
+const FIXTURES_DIR = join(__dirname, '..', '..', 'data', 'fixtures');
+const PLAYERS_PATH = join(FIXTURES_DIR, 'players.json');
+// Only the inputs WalkupSongService.findTeamByPreferences took: top tracks and artists per time frame,
+// saved tracks and albums, liked walkup songs and team stats. Titles are exact, as it had no fuzzy matching.
+const SNAPSHOT_PATH = join(FIXTURES_DIR, 'legacy-spotify-snapshot.json');
+// The team WalkupSongService.findTeamByPreferences picked for that snapshot and players.json, generated by
+// running it at commit 432871f (before the port) with its Mongo reads served from players.json and the
+// snapshot's DET team stats, and its liked-track lookup answered from the snapshot's likedTrackIds
+const LEGACY_TEAM_PATH = join(FIXTURES_DIR, 'legacy-team.json');
+
+interface LegacyTeamRow {
+  position: string;
+  playerId: string;
+  playerName: string;
+  songName: string;
+}
+
+// Usage: npm run compare-legacy-team
+// Checks that TeamMatcherService picks the same player and song for every position as the legacy service did.
+// Uses the greedy strategy, which fills slots in roster order like the legacy selection loop.
+async function main() {
+  try {
+    const dataSource = await FixtureSpotifyDataSource.fromFile(SNAPSHOT_PATH);
+    const players: PlayerWalkupSong[] = JSON.parse(await fs.readFile(PLAYERS_PATH, 'utf-8'));
+    const legacyTeam: LegacyTeamRow[] = JSON.parse(await fs.readFile(LEGACY_TEAM_PATH, 'utf-8'));
+    const [genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks] = await Promise.all([
+      dataSource.getUserGenres(),
+      dataSource.getAllTopTracks(),
+      dataSource.getAllTopArtists(),
+      dataSource.getSavedTracks(50),
+      dataSource.getSavedAlbums(),
+      dataSource.getFollowedArtists(),
+      dataSource.getUserPlaylistTracks()
+    ]);
+
+    const matcher = new TeamMatcherService(dataSource, getMatchingProfile(), [], dataSource.getReferenceData());
+    const team = await matcher.findTeamByPreferences(
+      genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks, TEAM_POSITIONS, players, 'greedy'
+    );
+
+    const rows = TEAM_POSITIONS.map(position => {
+      const legacy = legacyTeam.find(row => row.position === position);
+      const current = team.find(player => player.position === position);
+      const currentSong = current?.matchingSongs?.[0]?.songName ?? '';
+      return {
+        position,
+        legacy: legacy ? `${legacy.playerName} - ${legacy.songName}` : '',
+        teamMatcher: current ? `${current.playerName} - ${currentSong}` : '',
+        same: legacy?.playerId === current?.playerId && legacy?.songName === currentSong
+      };
+    });
+    console.table(rows);
+
+    const mismatches = rows.filter(row => !row.same);
+    if (mismatches.length > 0) {
+      console.error(`TeamMatcherService differs from the legacy team at ${mismatches.map(row => row.position).join(', ')}.`);
+      process.exit(1);
+    }
+    console.log(`TeamMatcherService matches the legacy team at all ${rows.length} positions.`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error comparing with the legacy team:', error);
+    process.exit(1);
+  }
+}
+
+main();
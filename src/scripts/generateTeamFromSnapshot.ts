@@ -0,0 +1,113 @@
+import { config } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve } from 'path';
+import fs from 'fs/promises';
+import { Position } from '../lib/mlb/types';
+import { PlayerWalkupSong } from '../lib/walkupSongs/types';
+import { AssignmentStrategy } from '../config/matchingConfig';
+import { getMatchingProfile, parseMatchingProfileId } from '../config/matchingProfiles';
+import { FixtureSpotifyDataSource } from '../services/spotify/spotifyDataSource';
+import { TeamMatcherService } from '../services/walkupSongs/teamMatcherService';
+import { WalkupSongFactory } from '../services/walkupSongs/walkupSongFactory';
+
+// Get the directory name of the current module
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+const envPath = join(__dirname, '..', '..', '.env.local');
+console.log(`Loading environment variables from: ${envPath}`);
+
+const result = config({ path: envPath });
+if (result.error) {
+  console.error('Error loading .env.local file:', result.error);
+  process.exit(1);
+}
+
+// Same positions as /api/team/generate
+const POSITIONS: Position[] = ['SP', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF', 'DH', 'P1', 'P2', 'P3', 'P4'];
+
+// Usage: npm run generate-team-from-snapshot -- <snapshot.json> [--players=<players.json>] [--compare] [--profile=<id>]
+// --players replays players from a JSON file instead of the configured repository
+// --compare runs both the greedy and optimal assignment strategies and prints them side by side
+// --profile selects a named matching profile (see src/config/matchingProfiles.ts)
+const args = process.argv.slice(2);
+const compareStrategies = args.includes('--compare');
+const snapshotPath = args.find(arg => !arg.startsWith('--')) ?? '';
+const playersPath = args.find(arg => arg.startsWith('--players='))?.slice('--players='.length);
+if (!snapshotPath) {
+  console.error('Usage: npm run generate-team-from-snapshot -- <snapshot.json> [--players=<players.json>] [--compare] [--profile=<id>]');
+  process.exit(1);
+}
+// Players come from the configured repository unless replayed; only the Mongo one needs a connection string
+if (!playersPath && (process.env.WALKUP_SONG_REPOSITORY || 'mongo') === 'mongo' && !process.env.MONGO_URI) {
+  console.error('Missing required environment variable: MONGO_URI');
+  process.exit(1);
+}
+const profileQuery = parseMatchingProfileId(args.find(arg => arg.startsWith('--profile='))?.slice('--profile='.length));
+if ('error' in profileQuery) {
+  console.error(profileQuery.error);
+  process.exit(1);
+}
+const matchingProfile = getMatchingProfile(profileQuery.profileId);
+
+const totalScore = (team: PlayerWalkupSong[]) =>
+  team.reduce((sum, player) => sum + (player.matchScore ?? 0), 0);
+
+async function main() {
+  console.log(`Generating team from snapshot ${snapshotPath}...`);
+
+  try {
+    const dataSource = await FixtureSpotifyDataSource.fromFile(resolve(snapshotPath));
+    const [genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks] = await Promise.all([
+      dataSource.getUserGenres(),
+      dataSource.getAllTopTracks(),
+      dataSource.getAllTopArtists(),
+      dataSource.getSavedTracks(50),
+      dataSource.getSavedAlbums(),
+      dataSource.getFollowedArtists(),
+      dataSource.getUserPlaylistTracks()
+    ]);
+    const players: PlayerWalkupSong[] = playersPath
+      ? JSON.parse(await fs.readFile(resolve(playersPath), 'utf-8'))
+      : await WalkupSongFactory.createRepository().getAllPlayerSongs();
+
+    // Reference data comes from the snapshot too, so the replay never reads Mongo
+    const matcher = new TeamMatcherService(dataSource, matchingProfile, [], dataSource.getReferenceData());
+
+    if (compareStrategies) {
+      const teams: Record<AssignmentStrategy, PlayerWalkupSong[]> = {
+        greedy: await matcher.findTeamByPreferences(genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks, POSITIONS, players, 'greedy'),
+        optimal: await matcher.findTeamByPreferences(genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks, POSITIONS, players, 'optimal')
+      };
+      const forPosition = (strategy: AssignmentStrategy, position: Position) =>
+        teams[strategy].find(player => player.position === position);
+
+      console.table(POSITIONS.map(position => ({
+        position,
+        greedy: forPosition('greedy', position)?.playerName ?? '',
+        greedyScore: forPosition('greedy', position)?.matchScore?.toFixed(3) ?? '',
+        optimal: forPosition('optimal', position)?.playerName ?? '',
+        optimalScore: forPosition('optimal', position)?.matchScore?.toFixed(3) ?? ''
+      })));
+      console.log(`Total match score: greedy ${totalScore(teams.greedy).toFixed(3)}, optimal ${totalScore(teams.optimal).toFixed(3)}`);
+      process.exit(0);
+    }
+
+    const team = await matcher.findTeamByPreferences(genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks, POSITIONS, players);
+
+    console.table(team.map(player => ({
+      position: player.position,
+      player: player.playerName,
+      song: player.matchingSongs?.[0]?.songName ?? '',
+      score: player.matchScore?.toFixed(3),
+      reason: player.matchReason
+    })));
+    process.exit(0);
+  } catch (error) {
+    console.error('Error generating team from snapshot:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+import { config } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { GenreGraph } from '../services/genres/genreGraph';
+
+// Get the directory name of the current module
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+const envPath = join(__dirname, '..', '..', '.env.local');
+console.log(`Loading environment variables from: ${envPath}`);
+
+const result = config({ path: envPath });
+if (result.error) {
+  console.error('Error loading .env.local file:', result.error);
+  process.exit(1);
+}
+
+if (!process.env.MONGO_URI) {
+  console.error('Missing required environment variable: MONGO_URI');
+  process.exit(1);
+}
+
+// Rebuilds the learned genre co-occurrence graph. Also runs at the end of update-song-genres.
+async function main() {
+  console.log('Rebuilding genre graph from walkup song genres...');
+
+  try {
+    const summary = await GenreGraph.rebuild();
+    console.log('Genre graph rebuilt:', summary);
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error rebuilding genre graph:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+}
+
+main();
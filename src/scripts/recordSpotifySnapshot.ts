@@ -0,0 +1,63 @@
+import { config } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve } from 'path';
+import fs from 'fs/promises';
+import { SpotifyService } from '../services/spotify/spotifyService';
+import { recordSpotifySnapshot } from '../services/spotify/spotifyDataSource';
+import { loadMatchingReferenceData } from '../services/walkupSongs/matchingReferenceData';
+import { WalkupSongFactory } from '../services/walkupSongs/walkupSongFactory';
+
+// Get the directory name of the current module
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+const envPath = join(__dirname, '..', '..', '.env.local');
+console.log(`Loading environment variables from: ${envPath}`);
+
+const result = config({ path: envPath });
+if (result.error) {
+  console.error('Error loading .env.local file:', result.error);
+  process.exit(1);
+}
+
+// Verify environment variables
+// Matching reference data (team stats, genre graph, artists) is always read from Mongo
+const requiredEnvVars = ['MONGO_URI', 'SPOTIFY_ACCESS_TOKEN'];
+const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
+
+if (missingVars.length > 0) {
+  console.error('Missing required environment variables:', missingVars.join(', '));
+  console.error('SPOTIFY_ACCESS_TOKEN must be a user token with user-top-read, user-library-read, user-follow-read, user-read-recently-played and playlist-read-private scopes');
+  process.exit(1);
+}
+
+// Usage: npm run record-spotify-snapshot -- <output.json>
+const outputPath = resolve(process.argv[2] || 'spotify-snapshot.json');
+
+async function main() {
+  console.log('Recording Spotify snapshot...');
+
+  try {
+    // Liked status is checked for every walkup song the matcher could look at
+    const players = await WalkupSongFactory.createRepository().getAllPlayerSongs();
+    const trackIds = Array.from(new Set(
+      players.flatMap(player => (player.walkupSongs || []).map(song => song.spotifyId).filter((id): id is string => !!id))
+    ));
+    console.log(`Checking liked status for ${trackIds.length} walkup song IDs`);
+
+    const spotifyService = new SpotifyService(process.env.SPOTIFY_ACCESS_TOKEN as string);
+    const snapshot = await recordSpotifySnapshot(spotifyService, trackIds);
+    snapshot.reference = await loadMatchingReferenceData();
+    console.log(`Recorded reference data: ${snapshot.reference.teamStats.length} teams, ${snapshot.reference.genreEdges.length} genre edges, ${snapshot.reference.artists.length} artists`);
+
+    await fs.writeFile(outputPath, JSON.stringify(snapshot, null, 2));
+    console.log(`Snapshot written to ${outputPath} (${snapshot.likedTrackIds.length} liked walkup songs)`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error recording Spotify snapshot:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,67 @@
+import { config } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { JobScheduler } from '../services/jobs/jobScheduler';
+
+// Get the directory name of the current module
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+const envPath = join(__dirname, '..', '..', '.env.local');
+console.log(`Loading environment variables from: ${envPath}`);
+
+const result = config({ path: envPath });
+if (result.error) {
+  console.error('Error loading .env.local file:', result.error);
+  process.exit(1);
+}
+
+if (!process.env.MONGO_URI) {
+  console.error('Missing required environment variable: MONGO_URI');
+  process.exit(1);
+}
+
+/**
+ * Usage:
+ *   run-jobs              Run every job that is due, then exit (for a system cron)
+ *   run-jobs --worker     Keep running and check for due jobs every minute
+ *   run-jobs --list       Show each job's schedule and last run
+ *   run-jobs <job-name>   Run one job now, outside its schedule
+ */
+async function main() {
+  const scheduler = JobScheduler.getInstance();
+  const args = process.argv.slice(2);
+
+  if (args.includes('--worker')) {
+    scheduler.startWorker();
+    return;
+  }
+
+  try {
+    if (args.includes('--list')) {
+      console.table(await scheduler.listJobs());
+      process.exit(0);
+    }
+
+    const jobName = args.find(arg => !arg.startsWith('--'));
+    if (jobName) {
+      if (!scheduler.hasJob(jobName)) {
+        console.error(`Unknown job: ${jobName}. Run with --list to see the available jobs.`);
+        process.exit(1);
+      }
+      const jobResult = await scheduler.runJob(jobName, 'cli');
+      console.log(`${jobName}:`, jobResult);
+      process.exit(jobResult.status === 'failed' ? 1 : 0);
+    }
+
+    const results = await scheduler.runDueJobs();
+    console.log('Due jobs:', results);
+    process.exit(Object.values(results).some(jobResult => jobResult.status === 'failed') ? 1 : 0);
+  } catch (error) {
+    console.error('Error running jobs:', error);
+    process.exit(1);
+  }
+}
+
+main();
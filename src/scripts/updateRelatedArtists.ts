@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { config } from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import SpotifyWebApi from 'spotify-web-api-node';
+import { Artist } from '../models/artistModel';
+import { HttpClient } from '../services/http/httpClient';
+
+// Get the directory name of the current module
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+const envPath = join(__dirname, '..', '..', '.env.local');
+console.log(`Loading environment variables from: ${envPath}`);
+
+const result = config({ path: envPath });
+if (result.error) {
+  console.error('Error loading .env.local file:', result.error);
+  process.exit(1);
+}
+
+// Verify environment variables
+const requiredEnvVars = ['MONGO_URI', 'SPOTIFY_CLIENT_ID', 'SPOTIFY_CLIENT_SECRET'];
+const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
+
+if (missingVars.length > 0) {
+  console.error('Missing required environment variables:', missingVars.join(', '));
+  console.error('Please ensure .env.local file exists and contains all required variables');
+  process.exit(1);
+}
+
+// --- Configuration ---
+const RELATED_ARTISTS_MAX_AGE_DAYS = 30; // Refetch related artists older than this
+const REFRESH_ALL = process.argv.includes('--refresh'); // Ignore the max age and refetch every artist
+
+// Related artists endpoint takes one artist per call, so pacing is left to HttpClient
+const http = HttpClient.getInstance();
+
+const spotifyApi = new SpotifyWebApi({
+  clientId: process.env.SPOTIFY_CLIENT_ID,
+  clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+});
+
+// Caches Spotify's related artists for every artist in the Artist collection (filled by update-song-genres)
+async function updateRelatedArtists() {
+  console.log('Starting related artist update...');
+
+  try {
+    await mongoose.connect(process.env.MONGO_URI || '');
+    console.log('Connected to MongoDB.');
+
+    const token = await http.run('accounts.spotify.com', () => spotifyApi.clientCredentialsGrant());
+    spotifyApi.setAccessToken(token.body['access_token']);
+
+    const staleBefore = new Date(Date.now() - RELATED_ARTISTS_MAX_AGE_DAYS * 24 * 60 * 60 * 1000);
+    const filter = REFRESH_ALL ? {} : {
+      $or: [
+        { relatedArtistsUpdatedAt: { $exists: false } },
+        { relatedArtistsUpdatedAt: { $lt: staleBefore } }
+      ]
+    };
+    const artists = await Artist.find(filter, { spotifyId: 1, name: 1 }).lean<Array<{ spotifyId: string; name: string }>>();
+    console.log(`Found ${artists.length} artists needing related artists.`);
+
+    let updatedCount = 0;
+    let errorCount = 0;
+
+    for (const artist of artists) {
+      try {
+        const response = await http.run('api.spotify.com', () => spotifyApi.getArtistRelatedArtists(artist.spotifyId));
+        const relatedArtists = response.body.artists.map(related => ({ spotifyId: related.id, name: related.name }));
+        await Artist.updateOne(
+          { spotifyId: artist.spotifyId },
+          { $set: { relatedArtists, relatedArtistsUpdatedAt: new Date() } }
+        );
+        updatedCount++;
+        console.log(`${artist.name}: ${relatedArtists.length} related artists`);
+      } catch (error) {
+        errorCount++;
+        console.error(`Failed to fetch related artists for ${artist.name} (${artist.spotifyId}):`, error);
+      }
+    }
+
+    console.log(`Related artist update finished. Updated: ${updatedCount}. Errors: ${errorCount}.`);
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error updating related artists:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+}
+
+updateRelatedArtists();
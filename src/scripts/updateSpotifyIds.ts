@@ -2,6 +2,7 @@ import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { WalkupSongService } from '../services/walkupSongs/walkupSongService.js';
+import { ArtistRegistry } from '../services/artists/artistRegistry.js';
 import mongoose from 'mongoose';
 
 // Get the directory name of the current module
@@ -56,14 +57,18 @@ async function main() {
     const players = await service['getAllPlayers']();
     console.log(`Found ${players.length} players to process`);
 
+    // Known artists and aliases, so songs can reference artists by Spotify ID
+    const artistRegistry = await ArtistRegistry.load();
+
     let updatedCount = 0;
+    let linkedArtistCount = 0;
     let skippedCount = 0;
     let errorCount = 0;
 
     for (const player of players) {
       console.log(`\nProcessing player: ${player.playerName}`);
       
-      // Fetch latest data from API using the service
+      // Fetch latest data from API using the service (paced by the shared WalkupDB client)
       const details = await service['fetchPlayerDetails'](player.playerId) as APIPlayerResponse;
       if (!details?.data?.songs) {
         console.log('No song data available from API, skipping...');
@@ -85,6 +90,17 @@ async function main() {
 
       let hasUpdates = false;
       const updatedSongs = player.walkupSongs.map(song => {
+        const artists = (song.artists || []).map(artist => {
+          const artistId = artist.spotifyId || artistRegistry.resolveId(artist.name);
+          if (artistId && !artist.spotifyId) {
+            linkedArtistCount++;
+            hasUpdates = true;
+            return { ...artist, spotifyId: artistId };
+          }
+          return artist;
+        });
+        song = { ...song, artists };
+
         const spotifyId = apiSongsMap.get(song.id);
         if (spotifyId && !song.spotifyId) {
           console.log(`Updating Spotify ID for song "${song.songName}": ${spotifyId}`);
@@ -110,13 +126,11 @@ async function main() {
         );
         console.log(`Updated ${updatedCount} songs for ${player.playerName}`);
       }
-
-      // Rate limiting
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
     console.log('\nUpdate complete!');
     console.log(`Total songs updated with Spotify IDs: ${updatedCount}`);
+    console.log(`Total artists linked from the artist registry: ${linkedArtistCount}`);
     console.log(`Total songs without Spotify IDs: ${skippedCount}`);
     console.log(`Total players with errors: ${errorCount}`);
     
@@ -1,7 +1,7 @@
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { WalkupSongService } from '../services/walkupSongs/walkupSongService.js';
+import { WalkupSongSyncService } from '../services/walkupSongs/walkupSongSyncService.js';
 
 // Get the directory name of the current module
 const __filename = fileURLToPath(import.meta.url);
@@ -27,13 +27,18 @@ if (missingVars.length > 0) {
   process.exit(1);
 }
 
+// Resumes an unfinished sync by default; --restart discards its checkpoint and starts over
+const restart = process.argv.includes('--restart');
+
 async function main() {
-  console.log('Starting walkup song data update...');
+  console.log(`Starting walkup song data update${restart ? ' from scratch' : ''}...`);
   
   try {
-    const service = WalkupSongService.getInstance();
-    await service['updatePlayerData']();
-    console.log('Walkup song data update completed successfully');
+    const service = WalkupSongSyncService.getInstance();
+    const outcome = await service.updatePlayerData({ restart });
+    console.log(outcome === 'completed'
+      ? 'Walkup song data update completed successfully'
+      : 'Walkup song data update skipped: another sync holds the lease');
     process.exit(0);
   } catch (error) {
     console.error('Error updating walkup song data:', error);
@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import fs from 'fs/promises';
+import { PlayerWalkupSong } from '../lib/walkupSongs/types';
+import { getMatchingProfile } from '../config/matchingProfiles';
+import { FixtureSpotifyDataSource } from '../services/spotify/spotifyDataSource';
+import { TeamMatcherService } from '../services/walkupSongs/teamMatcherService';
+import { TEAM_POSITIONS } from '../services/team/teamAssembler';
+
+// Get the directory name of the current module
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Everything comes from committed fixtures, so no .env.local is loaded. Mongo commands fail
+// immediately instead of buffering, so any read the snapshot doesn't cover breaks the check.
+mongoose.set('bufferCommands', false);
+
+const FIXTURES_DIR = join(__dirname, '..', '..', 'data', 'fixtures');
+const SNAPSHOT_PATH = join(FIXTURES_DIR, 'spotify-snapshot.json');
+const PLAYERS_PATH = join(FIXTURES_DIR, 'players.json');
+const EXPECTED_TEAM_PATH = join(FIXTURES_DIR, 'expected-team.json');
+
+// One row per roster slot; scores are rounded so the check doesn't depend on float formatting
+interface TeamRow {
+  position: string;
+  playerId: string;
+  playerName: string;
+  songName: string;
+  matchScore: number;
+  matchReason: string;
+}
+
+// Usage: npm run verify-team-fixture [-- --update]
+// Generates a team from the committed snapshot and players and compares it with expected-team.json.
+// --update rewrites expected-team.json after an intentional matching change
+const updateExpected = process.argv.slice(2).includes('--update');
+
+const toRows = (team: PlayerWalkupSong[]): TeamRow[] => team.map(player => ({
+  position: player.position,
+  playerId: player.playerId,
+  playerName: player.playerName,
+  songName: player.matchingSongs?.[0]?.songName ?? '',
+  matchScore: Math.round((player.matchScore ?? 0) * 1e6) / 1e6,
+  matchReason: player.matchReason ?? ''
+}));
+
+async function main() {
+  try {
+    const dataSource = await FixtureSpotifyDataSource.fromFile(SNAPSHOT_PATH);
+    const players: PlayerWalkupSong[] = JSON.parse(await fs.readFile(PLAYERS_PATH, 'utf-8'));
+    const [genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks] = await Promise.all([
+      dataSource.getUserGenres(),
+      dataSource.getAllTopTracks(),
+      dataSource.getAllTopArtists(),
+      dataSource.getSavedTracks(50),
+      dataSource.getSavedAlbums(),
+      dataSource.getFollowedArtists(),
+      dataSource.getUserPlaylistTracks()
+    ]);
+
+    const matcher = new TeamMatcherService(dataSource, getMatchingProfile(), [], dataSource.getReferenceData());
+    const team = toRows(await matcher.findTeamByPreferences(
+      genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks, TEAM_POSITIONS, players
+    ));
+
+    if (updateExpected) {
+      await fs.writeFile(EXPECTED_TEAM_PATH, `${JSON.stringify(team, null, 2)}\n`);
+      console.log(`Wrote ${team.length} players to ${EXPECTED_TEAM_PATH}`);
+      process.exit(0);
+    }
+
+    const expected: TeamRow[] = JSON.parse(await fs.readFile(EXPECTED_TEAM_PATH, 'utf-8'));
+    const positions = Array.from(new Set([...expected, ...team].map(row => row.position)));
+    const mismatches = positions
+      .map(position => ({
+        position,
+        expected: expected.find(row => row.position === position),
+        actual: team.find(row => row.position === position)
+      }))
+      .filter(({ expected, actual }) => JSON.stringify(expected) !== JSON.stringify(actual));
+
+    if (mismatches.length > 0) {
+      console.error(`Team differs from ${EXPECTED_TEAM_PATH} at ${mismatches.length} positions:`);
+      console.table(mismatches.map(({ position, expected, actual }) => ({
+        position,
+        expected: expected ? `${expected.playerName} (${expected.matchScore})` : '',
+        actual: actual ? `${actual.playerName} (${actual.matchScore})` : '',
+        expectedReason: expected?.matchReason ?? '',
+        actualReason: actual?.matchReason ?? ''
+      })));
+      console.error('If the change is intentional, run `npm run verify-team-fixture -- --update` and commit the result.');
+      process.exit(1);
+    }
+
+    console.log(`Team matches ${EXPECTED_TEAM_PATH} (${team.length} players).`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error verifying team fixture:', error);
+    process.exit(1);
+  }
+}
+
+main();
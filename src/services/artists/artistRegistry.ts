@@ -0,0 +1,160 @@
+// src/services/artists/artistRegistry.ts
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import { Artist, ArtistDocument } from '@/models/artistModel';
+import { WalkupSongArtist } from '@/lib/walkupSongs/types';
+import { normalizeArtistName, splitArtistCredit, artistMatchConfidence } from '@/services/walkupSongs/nameMatching';
+
+// Artist as returned by the Spotify tracks/artists endpoints
+export interface SpotifyArtistRecord {
+    id: string;
+    name: string;
+    genres?: string[];
+}
+
+// Normalized aliases to record per Spotify artist ID
+export type ArtistAliases = Map<string, Set<string>>;
+
+// Aliases are added by enrichment jobs in another process, so reload periodically
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Resolves artist names to Spotify artist IDs through the Artist collection's
+ * canonical names and known aliases ("Jay Z", "JAY-Z" -> one ID).
+ */
+export class ArtistRegistry {
+    private static cached: { loadedAt: number; registry: Promise<ArtistRegistry> } | null = null;
+    private idsByAlias = new Map<string, string>();
+    private genresById = new Map<string, string[]>();
+
+    constructor(artists: Array<Pick<ArtistDocument, 'spotifyId' | 'name' | 'aliases'> & { genres?: string[] }> = []) {
+        const ambiguous = new Set<string>();
+        artists.forEach(artist => {
+            if (artist.genres?.length) this.genresById.set(artist.spotifyId, artist.genres);
+            [artist.name, ...(artist.aliases || [])].map(normalizeArtistName).filter(Boolean).forEach(alias => {
+                const existing = this.idsByAlias.get(alias);
+                if (existing && existing !== artist.spotifyId) {
+                    ambiguous.add(alias); // Two artists share this name, so it can't identify either
+                } else {
+                    this.idsByAlias.set(alias, artist.spotifyId);
+                }
+            });
+        });
+        ambiguous.forEach(alias => this.idsByAlias.delete(alias));
+    }
+
+    /**
+     * Load the registry, cached for CACHE_TTL_MS. If loading fails, this call falls back
+     * to an empty registry (name matching only) and the next call tries again.
+     */
+    static load(): Promise<ArtistRegistry> {
+        if (!ArtistRegistry.cached || Date.now() - ArtistRegistry.cached.loadedAt > CACHE_TTL_MS) {
+            const registry = ArtistRegistry.loadFromDb();
+            registry.catch(() => { ArtistRegistry.cached = null; });
+            ArtistRegistry.cached = { loadedAt: Date.now(), registry };
+        }
+        return ArtistRegistry.cached.registry.catch(error => {
+            console.error('ArtistRegistry: Error loading artists, falling back to name matching:', error);
+            return new ArtistRegistry();
+        });
+    }
+
+    private static async loadFromDb(): Promise<ArtistRegistry> {
+        await ensureMongoConnection('ArtistRegistry');
+        const artists = await Artist.find({}, { spotifyId: 1, name: 1, aliases: 1, genres: 1 })
+            .lean<Array<Pick<ArtistDocument, 'spotifyId' | 'name' | 'aliases' | 'genres'>>>();
+        console.log(`ArtistRegistry: Loaded ${artists.length} artists.`);
+        return new ArtistRegistry(artists);
+    }
+
+    /**
+     * Upsert Spotify artists with their canonical name, genres and any newly seen aliases.
+     */
+    static async upsertArtists(artists: SpotifyArtistRecord[], aliases: ArtistAliases = new Map()): Promise<number> {
+        if (artists.length === 0) return 0;
+        await ensureMongoConnection('ArtistRegistry');
+
+        const operations = artists.map(artist => {
+            const artistAliases = new Set(aliases.get(artist.id) || []);
+            artistAliases.add(normalizeArtistName(artist.name));
+            return {
+                updateOne: {
+                    filter: { spotifyId: artist.id },
+                    update: {
+                        $set: {
+                            name: artist.name,
+                            lastUpdated: new Date(),
+                            ...(artist.genres ? { genres: artist.genres } : {})
+                        },
+                        $addToSet: { aliases: { $each: Array.from(artistAliases).filter(Boolean) } }
+                    },
+                    upsert: true
+                }
+            };
+        });
+        await Artist.bulkWrite(operations);
+        ArtistRegistry.cached = null; // Next load picks up the new aliases
+        return operations.length;
+    }
+
+    /**
+     * Rebuild a walkup song's artists from the Spotify track's artists, each carrying its ID.
+     * Original credits that correspond to a track artist (whole or split) are returned as aliases.
+     */
+    static linkSongArtists(
+        songArtists: WalkupSongArtist[],
+        trackArtists: SpotifyArtistRecord[]
+    ): { artists: WalkupSongArtist[]; aliases: ArtistAliases } {
+        const aliases: ArtistAliases = new Map();
+        if (trackArtists.length === 0) {
+            return { artists: songArtists, aliases };
+        }
+
+        const addAlias = (artistId: string, name: string) => {
+            const alias = normalizeArtistName(name);
+            if (!alias) return;
+            if (!aliases.has(artistId)) aliases.set(artistId, new Set());
+            aliases.get(artistId)?.add(alias);
+        };
+        const findTrackArtist = (name: string) => {
+            const normalized = normalizeArtistName(name);
+            return trackArtists
+                .map(artist => ({ artist, confidence: artistMatchConfidence(normalized, normalizeArtistName(artist.name)) }))
+                .filter(match => match.confidence > 0)
+                .sort((a, b) => b.confidence - a.confidence)[0]?.artist;
+        };
+
+        for (const songArtist of songArtists) {
+            // Whole credit first so names with separators ("Tyler, The Creator") stay intact
+            const wholeMatch = findTrackArtist(songArtist.name);
+            if (wholeMatch) {
+                addAlias(wholeMatch.id, songArtist.name);
+                continue;
+            }
+            splitArtistCredit(songArtist.name).forEach(part => {
+                const partMatch = findTrackArtist(part);
+                if (partMatch) addAlias(partMatch.id, part);
+            });
+        }
+
+        const artists: WalkupSongArtist[] = trackArtists.map((artist, index) => ({
+            name: artist.name,
+            role: index === 0 ? 'primary' : 'featured',
+            spotifyId: artist.id
+        }));
+        return { artists, aliases };
+    }
+
+    /**
+     * Spotify artist ID for a name or alias, if the registry knows it unambiguously.
+     */
+    resolveId(name: string): string | undefined {
+        return this.idsByAlias.get(normalizeArtistName(name));
+    }
+
+    /**
+     * Spotify genres stored for an artist ID, empty if unknown.
+     */
+    getGenres(spotifyId: string): string[] {
+        return this.genresById.get(spotifyId) || [];
+    }
+}
@@ -0,0 +1,90 @@
+// src/services/artists/relatedArtistGraph.ts
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import { Artist, ArtistDocument } from '@/models/artistModel';
+
+// A neighbouring artist and how closely related it is (1 = Spotify's top related artist)
+export interface RelatedArtist {
+    spotifyId: string;
+    name: string;
+    relatedness: number;
+}
+
+type StoredRelatedArtists = Pick<ArtistDocument, 'spotifyId' | 'name' | 'relatedArtists'>;
+
+const MIN_RELATEDNESS = 0.5; // Relatedness of the last artist in a Spotify related list
+const CACHE_TTL_MS = 10 * 60 * 1000; // How long a process keeps the graph before rereading the Artist collection
+
+/**
+ * Related-artist graph cached in the Artist collection by `npm run update-related-artists`,
+ * so matching never calls Spotify's related-artists endpoint at request time.
+ * Edges are treated as undirected: if A lists B, B is related to A too.
+ */
+export class RelatedArtistGraph {
+    private static cached: { loadedAt: number; graph: Promise<RelatedArtistGraph> } | null = null;
+    private neighbours = new Map<string, Map<string, RelatedArtist>>();
+
+    constructor(artists: StoredRelatedArtists[] = []) {
+        artists.forEach(artist => {
+            const related = artist.relatedArtists || [];
+            related.forEach((neighbour, index) => {
+                const relatedness = related.length > 1 ? 1 - (index / (related.length - 1)) * (1 - MIN_RELATEDNESS) : 1;
+                this.addEdge(artist.spotifyId, { spotifyId: neighbour.spotifyId, name: neighbour.name, relatedness });
+                this.addEdge(neighbour.spotifyId, { spotifyId: artist.spotifyId, name: artist.name, relatedness });
+            });
+        });
+    }
+
+    /**
+     * Load the stored graph, cached for CACHE_TTL_MS. A failed load gives this call an
+     * empty graph (no related matches) and is not cached.
+     */
+    static load(): Promise<RelatedArtistGraph> {
+        if (!RelatedArtistGraph.cached || Date.now() - RelatedArtistGraph.cached.loadedAt > CACHE_TTL_MS) {
+            const graph = RelatedArtistGraph.loadFromDb();
+            graph.catch(() => { RelatedArtistGraph.cached = null; });
+            RelatedArtistGraph.cached = { loadedAt: Date.now(), graph };
+        }
+        return RelatedArtistGraph.cached.graph.catch(error => {
+            console.error('RelatedArtistGraph: Error loading related artists, related matches disabled:', error);
+            return new RelatedArtistGraph();
+        });
+    }
+
+    private static async loadFromDb(): Promise<RelatedArtistGraph> {
+        await ensureMongoConnection('RelatedArtistGraph');
+        const artists = await Artist.find(
+            { 'relatedArtists.0': { $exists: true } },
+            { spotifyId: 1, name: 1, relatedArtists: 1 }
+        ).lean<StoredRelatedArtists[]>();
+        if (artists.length === 0) {
+            console.warn('RelatedArtistGraph: No related artists stored. Run `npm run update-related-artists`.');
+        } else {
+            console.log(`RelatedArtistGraph: Loaded related artists for ${artists.length} artists.`);
+        }
+        return new RelatedArtistGraph(artists);
+    }
+
+    /**
+     * Clear this process's cache after the stored graph changes.
+     */
+    static resetCache(): void {
+        RelatedArtistGraph.cached = null;
+    }
+
+    /**
+     * Artists related to the given Spotify artist ID, most related first.
+     */
+    getRelated(spotifyId: string): RelatedArtist[] {
+        const related = this.neighbours.get(spotifyId);
+        return related ? Array.from(related.values()).sort((a, b) => b.relatedness - a.relatedness) : [];
+    }
+
+    private addEdge(fromId: string, to: RelatedArtist): void {
+        if (fromId === to.spotifyId) return;
+        if (!this.neighbours.has(fromId)) this.neighbours.set(fromId, new Map());
+        const existing = this.neighbours.get(fromId)?.get(to.spotifyId);
+        if (!existing || to.relatedness > existing.relatedness) {
+            this.neighbours.get(fromId)?.set(to.spotifyId, to);
+        }
+    }
+}
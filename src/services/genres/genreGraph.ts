@@ -0,0 +1,156 @@
+// src/services/genres/genreGraph.ts
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import { Player } from '@/models/playerModel';
+import { GenreEdge, GenreGraphModel, GenreGraphDocument } from '@/models/genreGraphModel';
+import {
+    GENRE_TAXONOMY, RELATED_PARENT_GENRES, PARENT_CHILD_SIMILARITY, SIBLING_SIMILARITY
+} from '@/config/genreTaxonomy';
+
+export const GENRE_GRAPH_NAME = 'walkupSongs';
+const MIN_COOCCURRENCE = 2; // Ignore pairs seen on a single song
+const MIN_EDGE_WEIGHT = 0.05; // Drop edges too weak to matter
+const MAX_NON_IDENTICAL_SIMILARITY = 0.95; // Only identical genres score 1
+const CACHE_TTL_MS = 10 * 60 * 1000; // Rebuilds run in the jobs process; the web process reloads after this
+
+const normalizeGenre = (genre: string) => genre.toLowerCase().replace(/-/g, ' ').replace(/\s+/g, ' ').trim();
+const containsPhrase = (genre: string, phrase: string) => ` ${genre} `.includes(` ${phrase} `);
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Taxonomy phrases normalized once: parent -> phrases that resolve to it
+const PARENT_PHRASES: Array<{ parent: string; phrases: string[] }> = Object.entries(GENRE_TAXONOMY).map(([parent, children]) => ({
+    parent: normalizeGenre(parent),
+    phrases: [parent, ...children].map(normalizeGenre)
+}));
+const RELATED_PARENTS = new Map(RELATED_PARENT_GENRES.map(([a, b, weight]) => [pairKey(normalizeGenre(a), normalizeGenre(b)), weight]));
+
+/**
+ * Graded genre similarity (0-1) combining the curated taxonomy with
+ * co-occurrence weights learned from walkup song genre tags.
+ */
+export class GenreGraph {
+    private static cached: { loadedAt: number; graph: Promise<GenreGraph> } | null = null;
+    private learned: Map<string, number>;
+
+    constructor(edges: GenreEdge[] = []) {
+        this.learned = new Map(edges.map(edge => [pairKey(normalizeGenre(edge.source), normalizeGenre(edge.target)), edge.weight]));
+    }
+
+    /**
+     * Load the stored graph, cached for CACHE_TTL_MS. Falls back to taxonomy-only if none is
+     * stored, or for this call only if loading fails.
+     */
+    static load(): Promise<GenreGraph> {
+        if (!GenreGraph.cached || Date.now() - GenreGraph.cached.loadedAt > CACHE_TTL_MS) {
+            const graph = GenreGraph.loadFromDb();
+            // Don't keep a failed load around; the next call retries
+            graph.catch(() => { GenreGraph.cached = null; });
+            GenreGraph.cached = { loadedAt: Date.now(), graph };
+        }
+        return GenreGraph.cached.graph.catch(error => {
+            console.error('GenreGraph: Error loading stored graph, using taxonomy only:', error);
+            return new GenreGraph();
+        });
+    }
+
+    private static async loadFromDb(): Promise<GenreGraph> {
+        await ensureMongoConnection('GenreGraph');
+        const doc = await GenreGraphModel.findOne({ name: GENRE_GRAPH_NAME }).lean<GenreGraphDocument>();
+        if (!doc) {
+            console.warn('GenreGraph: No stored graph found, using taxonomy only. Run `npm run rebuild-genre-graph`.');
+            return new GenreGraph();
+        }
+        console.log(`GenreGraph: Loaded ${doc.edges.length} learned edges (built ${new Date(doc.builtAt).toISOString()}).`);
+        return new GenreGraph(doc.edges);
+    }
+
+    /**
+     * Recompute co-occurrence weights from every player's walkupSongs[].genre and store them.
+     */
+    static async rebuild(): Promise<{ edgeCount: number; genreCount: number; songCount: number }> {
+        await ensureMongoConnection('GenreGraph');
+        const players = await Player.find({}, { 'walkupSongs.genre': 1 }).lean<Array<{ walkupSongs?: Array<{ genre?: string[] }> }>>();
+
+        const genreCounts = new Map<string, number>();
+        const pairCounts = new Map<string, number>();
+        let songCount = 0;
+
+        players.forEach(player => {
+            (player.walkupSongs || []).forEach(song => {
+                const genres = Array.from(new Set((song.genre || []).map(normalizeGenre).filter(Boolean)));
+                if (genres.length === 0) return;
+                songCount++;
+                genres.forEach(genre => genreCounts.set(genre, (genreCounts.get(genre) || 0) + 1));
+                for (let i = 0; i < genres.length; i++) {
+                    for (let j = i + 1; j < genres.length; j++) {
+                        const key = pairKey(genres[i], genres[j]);
+                        pairCounts.set(key, (pairCounts.get(key) || 0) + 1);
+                    }
+                }
+            });
+        });
+
+        const edges: GenreEdge[] = [];
+        pairCounts.forEach((count, key) => {
+            if (count < MIN_COOCCURRENCE) return;
+            const [source, target] = key.split('|');
+            const weight = count / Math.sqrt((genreCounts.get(source) || 1) * (genreCounts.get(target) || 1));
+            if (weight >= MIN_EDGE_WEIGHT) {
+                edges.push({ source, target, count, weight });
+            }
+        });
+
+        await GenreGraphModel.findOneAndUpdate(
+            { name: GENRE_GRAPH_NAME },
+            {
+                name: GENRE_GRAPH_NAME,
+                edges,
+                genreCounts: Array.from(genreCounts, ([genre, count]) => ({ genre, count })),
+                songCount,
+                builtAt: new Date()
+            },
+            { upsert: true }
+        );
+        GenreGraph.cached = null; // Next load in this process picks up the new graph; others within CACHE_TTL_MS
+
+        console.log(`GenreGraph: Rebuilt graph with ${edges.length} edges across ${genreCounts.size} genres from ${songCount} songs.`);
+        return { edgeCount: edges.length, genreCount: genreCounts.size, songCount };
+    }
+
+    /**
+     * Similarity between two genres: 1 if identical, otherwise the stronger of the
+     * taxonomy and learned scores, capped below 1.
+     */
+    similarity(genre1: string, genre2: string): number {
+        const a = normalizeGenre(genre1);
+        const b = normalizeGenre(genre2);
+        if (!a || !b) return 0;
+        if (a === b) return 1;
+
+        const score = Math.max(this.taxonomySimilarity(a, b), this.learned.get(pairKey(a, b)) ?? 0);
+        return Math.min(score, MAX_NON_IDENTICAL_SIMILARITY);
+    }
+
+    private taxonomySimilarity(a: string, b: string): number {
+        const parentsA = this.resolveParents(a);
+        const parentsB = this.resolveParents(b);
+
+        let best = 0;
+        parentsA.forEach(parentA => {
+            parentsB.forEach(parentB => {
+                if (parentA === parentB) {
+                    best = Math.max(best, a === parentA || b === parentB ? PARENT_CHILD_SIMILARITY : SIBLING_SIMILARITY);
+                } else {
+                    best = Math.max(best, RELATED_PARENTS.get(pairKey(parentA, parentB)) ?? 0);
+                }
+            });
+        });
+        return best;
+    }
+
+    // Parents whose name or child phrases appear in the genre, e.g. "pop rap" -> pop, hip hop
+    private resolveParents(genre: string): string[] {
+        return PARENT_PHRASES
+            .filter(({ phrases }) => phrases.some(phrase => containsPhrase(genre, phrase)))
+            .map(({ parent }) => parent);
+    }
+}
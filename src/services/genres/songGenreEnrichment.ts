@@ -0,0 +1,224 @@
+// src/services/genres/songGenreEnrichment.ts
+import mongoose from 'mongoose';
+import SpotifyWebApi from 'spotify-web-api-node';
+import { Player } from '@/models/playerModel';
+import { WalkupSongArtist } from '@/lib/walkupSongs/types';
+import { ArtistRegistry, ArtistAliases, SpotifyArtistRecord } from '@/services/artists/artistRegistry';
+import { HttpClient } from '@/services/http/httpClient';
+import { GenreGraph } from './genreGraph';
+
+const TRACK_DETAILS_BATCH_SIZE = 50; // Max IDs for /tracks endpoint
+const ARTIST_DETAILS_BATCH_SIZE = 50; // Max IDs for /artists endpoint
+const DB_UPDATE_BATCH_SIZE = 100; // How many songs to prep before writing to DB
+const DELAY_BETWEEN_DB_BATCHES = 500; // 0.5 second delay between DB write batches
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface Song {
+    id: string;
+    spotifyId?: string;
+    genre?: string[];
+    artists?: WalkupSongArtist[];
+}
+
+interface PlayerSongs {
+    _id: mongoose.Types.ObjectId;
+    walkupSongs?: Song[];
+}
+
+export interface SongGenreEnrichmentSummary {
+    songsProcessed: number;
+    songsUpdated: number; // Songs given genres
+    songsLinked: number; // Songs whose artists were linked to the Artist collection
+}
+
+const needsGenres = (song: Song) => !song.genre || song.genre.length === 0;
+const needsArtistLinks = (song: Song) => !song.artists?.length || song.artists.some(artist => !artist.spotifyId);
+
+/**
+ * Fill in genres for walkup songs that have none and link their artists to the Artist
+ * collection, using each track's primary artist's Spotify genres. Rebuilds the genre
+ * graph afterwards. Expects an open MongoDB connection; throws if Spotify credentials
+ * are missing or rejected.
+ */
+export async function enrichSongGenres(): Promise<SongGenreEnrichmentSummary> {
+    if (!process.env.SPOTIFY_CLIENT_ID || !process.env.SPOTIFY_CLIENT_SECRET) {
+        throw new Error('SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET environment variables must be set');
+    }
+    const spotifyApi = new SpotifyWebApi({
+        clientId: process.env.SPOTIFY_CLIENT_ID,
+        clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+    });
+    // Spotify calls are paced and retried by the shared client rather than fixed delays
+    const http = HttpClient.getInstance();
+    const token = await http.run('accounts.spotify.com', () => spotifyApi.clientCredentialsGrant());
+    spotifyApi.setAccessToken(token.body['access_token']);
+    console.log('songGenreEnrichment: Retrieved Spotify app token.');
+
+    const summary: SongGenreEnrichmentSummary = { songsProcessed: 0, songsUpdated: 0, songsLinked: 0 };
+    const trackIdsToFetch = new Set<string>();
+    const trackIdToSongArtists = new Map<string, WalkupSongArtist[]>(); // Original credits across every player using the track
+
+    // 1. Find Players with Songs missing Genres or Spotify artist IDs
+    console.log('songGenreEnrichment: Finding players and songs missing genre or artist data...');
+    const players: PlayerSongs[] = await Player.find({
+        'walkupSongs.spotifyId': { $exists: true, $nin: ['', null] }, // Has valid Spotify ID
+        $or: [
+            { 'walkupSongs.genre': { $exists: false } }, // Find if field is missing
+            { 'walkupSongs.genre': { $size: 0 } },      // OR if field is an empty array
+            { 'walkupSongs.artists.spotifyId': { $exists: false } } // OR artists not yet linked to the Artist collection
+        ]
+    }).select('_id walkupSongs.id walkupSongs.spotifyId walkupSongs.genre walkupSongs.artists');
+
+    // Collect unique Spotify Track IDs
+    players.forEach(player => {
+        player.walkupSongs?.forEach(song => {
+            if (song.spotifyId && (needsGenres(song) || needsArtistLinks(song))) {
+                trackIdsToFetch.add(song.spotifyId);
+                trackIdToSongArtists.set(song.spotifyId, [...(trackIdToSongArtists.get(song.spotifyId) || []), ...(song.artists || [])]);
+            }
+        });
+    });
+
+    const uniqueTrackIds = Array.from(trackIdsToFetch);
+    console.log(`songGenreEnrichment: Found ${uniqueTrackIds.length} unique songs needing genre or artist check.`);
+    if (uniqueTrackIds.length === 0) {
+        return summary;
+    }
+
+    const trackIdToGenresMap = new Map<string, string[]>();
+    const trackIdToLinkedArtists = new Map<string, WalkupSongArtist[]>();
+
+    // 2. Process Track IDs in Batches to get Artist IDs
+    for (let i = 0; i < uniqueTrackIds.length; i += TRACK_DETAILS_BATCH_SIZE) {
+        const trackBatch = uniqueTrackIds.slice(i, i + TRACK_DETAILS_BATCH_SIZE);
+        try {
+            const trackDetails = await http.run('api.spotify.com', () => spotifyApi.getTracks(trackBatch));
+            const artistIdsToFetch = new Set<string>();
+            const trackIdToArtistIdMap = new Map<string, string>(); // Map track ID to its primary artist ID
+            const batchAliases: ArtistAliases = new Map();
+
+            trackDetails.body.tracks.forEach(track => {
+                if (track && track.artists && track.artists.length > 0) {
+                    const primaryArtistId = track.artists[0].id;
+                    if (primaryArtistId) {
+                        trackIdToArtistIdMap.set(track.id, primaryArtistId);
+                    }
+                    // Every credited artist gets an Artist record, and the song references them by ID
+                    track.artists.forEach(artist => {
+                        if (artist.id) artistIdsToFetch.add(artist.id);
+                    });
+                    const { artists, aliases } = ArtistRegistry.linkSongArtists(
+                        trackIdToSongArtists.get(track.id) || [],
+                        track.artists.filter(artist => artist.id).map(artist => ({ id: artist.id, name: artist.name }))
+                    );
+                    trackIdToLinkedArtists.set(track.id, artists);
+                    aliases.forEach((names, artistId) => {
+                        batchAliases.set(artistId, new Set([...(batchAliases.get(artistId) || []), ...names]));
+                    });
+                }
+            });
+
+            // 3. Fetch Artist Genres for the unique artists in this batch
+            const uniqueArtistIds = Array.from(artistIdsToFetch);
+            if (uniqueArtistIds.length > 0) {
+                const artistIdToGenresMap = new Map<string, string[]>();
+                const artistRecords: SpotifyArtistRecord[] = [];
+                for (let j = 0; j < uniqueArtistIds.length; j += ARTIST_DETAILS_BATCH_SIZE) {
+                    const artistBatch = uniqueArtistIds.slice(j, j + ARTIST_DETAILS_BATCH_SIZE);
+                    try {
+                        const artistDetails = await http.run('api.spotify.com', () => spotifyApi.getArtists(artistBatch));
+                        artistDetails.body.artists.forEach(artist => {
+                            if (artist) {
+                                artistIdToGenresMap.set(artist.id, artist.genres || []);
+                                artistRecords.push({ id: artist.id, name: artist.name, genres: artist.genres || [] });
+                            }
+                        });
+                    } catch (artistError) {
+                        // Skip these artists' genres and carry on with the rest
+                        console.error(`songGenreEnrichment: Failed to fetch details for artist batch starting with ${artistBatch[0]}:`, artistError);
+                    }
+                }
+
+                try {
+                    await ArtistRegistry.upsertArtists(artistRecords, batchAliases);
+                } catch (registryError) {
+                    console.error('songGenreEnrichment: Failed to upsert artists for batch:', registryError);
+                }
+
+                // Populate the main trackId -> genres map
+                trackIdToArtistIdMap.forEach((artistId, trackId) => {
+                    trackIdToGenresMap.set(trackId, artistIdToGenresMap.get(artistId) || []);
+                });
+            }
+        } catch (trackError) {
+            // Carry on with the next batch
+            console.error(`songGenreEnrichment: Failed to fetch details for track batch starting with ${trackBatch[0]}:`, trackError);
+        }
+
+        summary.songsProcessed += trackBatch.length;
+        console.log(`songGenreEnrichment: Processed ${summary.songsProcessed}/${uniqueTrackIds.length} songs so far.`);
+    }
+
+    // 4. Prepare and Execute Database Updates in Batches
+    const bulkOps: mongoose.AnyBulkWriteOperation[] = [];
+    const flush = async () => {
+        if (bulkOps.length === 0) return;
+        try {
+            await Player.bulkWrite(bulkOps);
+        } catch (dbError) {
+            console.error('songGenreEnrichment: Error executing DB bulkWrite:', dbError);
+        }
+        bulkOps.length = 0;
+    };
+
+    for (const [trackId, genres] of trackIdToGenresMap.entries()) {
+        if (genres && genres.length > 0) {
+            bulkOps.push({
+                updateOne: {
+                    filter: { "walkupSongs.spotifyId": trackId },
+                    update: { $set: { "walkupSongs.$[song].genre": genres } },
+                    arrayFilters: [
+                        {
+                            "song.spotifyId": trackId,
+                            $or: [
+                                { "song.genre": { $size: 0 } },
+                                { "song.genre": { $exists: false } }
+                            ]
+                        }
+                    ]
+                }
+            });
+            summary.songsUpdated++;
+        }
+
+        const linkedArtists = trackIdToLinkedArtists.get(trackId);
+        if (linkedArtists && linkedArtists.length > 0) {
+            bulkOps.push({
+                updateMany: {
+                    filter: { "walkupSongs.spotifyId": trackId },
+                    update: { $set: { "walkupSongs.$[song].artists": linkedArtists } },
+                    arrayFilters: [{ "song.spotifyId": trackId }]
+                }
+            });
+            summary.songsLinked++;
+        }
+
+        if (bulkOps.length >= DB_UPDATE_BATCH_SIZE) {
+            await flush();
+            await delay(DELAY_BETWEEN_DB_BATCHES);
+        }
+    }
+    await flush();
+
+    console.log(`songGenreEnrichment: Finished. Processed: ${summary.songsProcessed}. Updated: ${summary.songsUpdated}. Artists linked: ${summary.songsLinked}.`);
+
+    // Keep genre similarity in step with the newly enriched genres
+    try {
+        await GenreGraph.rebuild();
+    } catch (graphError) {
+        console.error('songGenreEnrichment: Error rebuilding genre graph:', graphError);
+    }
+
+    return summary;
+}
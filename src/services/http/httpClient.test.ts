@@ -0,0 +1,186 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DEFAULT_HOST_POLICY, HostPolicy } from '@/config/httpPolicies';
+import { CircuitOpenError, HttpClient } from './httpClient';
+
+// Canned response for one request to the stub server
+interface StubResponse {
+    status: number;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Local HTTP server answering each request with the next queued response (200 once the queue is empty).
+ */
+class StubServer {
+    public requestTimes: number[] = [];
+    private responses: StubResponse[] = [];
+    private server = http.createServer((req, res) => {
+        this.requestTimes.push(Date.now());
+        const { status, headers } = this.responses.shift() ?? { status: 200 };
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify({ status }));
+    });
+
+    get host(): string {
+        return `127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    get url(): string {
+        return `http://${this.host}/`;
+    }
+
+    respondWith(...responses: StubResponse[]): void {
+        this.responses.push(...responses);
+    }
+
+    listen(): Promise<void> {
+        return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+// Fast settings so retries and cooldowns play out in milliseconds
+const TEST_POLICY: HostPolicy = {
+    ...DEFAULT_HOST_POLICY,
+    requestsPerSecond: 1000,
+    burst: 1000,
+    maxRetries: 3,
+    baseDelayMs: 10,
+    maxDelayMs: 5000,
+    failureThreshold: 5,
+    cooldownMs: 100,
+    timeoutMs: 2000
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('HttpClient', () => {
+    let stub: StubServer;
+
+    const clientFor = (policy: Partial<HostPolicy> = {}) => new HttpClient({}, { ...TEST_POLICY, ...policy });
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        stub = new StubServer();
+        await stub.listen();
+    });
+
+    afterEach(async () => {
+        await stub.close();
+        jest.restoreAllMocks();
+    });
+
+    it('paces requests with the host token bucket', async () => {
+        const client = clientFor({ requestsPerSecond: 20, burst: 2 });
+        await clientFor().request({ url: stub.url }); // Warm up, so the first timed request isn't slowed by setup
+        stub.requestTimes = [];
+
+        const startedAt = Date.now();
+        for (let i = 0; i < 6; i++) {
+            await client.request({ url: stub.url });
+        }
+
+        // Two from the burst, then one token every 50ms for the other four
+        expect(stub.requestTimes).toHaveLength(6);
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(180);
+        expect(stub.requestTimes[5] - stub.requestTimes[4]).toBeGreaterThanOrEqual(40);
+    });
+
+    it('waits for Retry-After before retrying a 429', async () => {
+        const client = clientFor();
+        stub.respondWith({ status: 429, headers: { 'Retry-After': '1' } });
+
+        const response = await client.request({ url: stub.url });
+
+        expect(response.status).toBe(200);
+        expect(stub.requestTimes).toHaveLength(2);
+        expect(stub.requestTimes[1] - stub.requestTimes[0]).toBeGreaterThanOrEqual(950);
+    });
+
+    it('retries 429s on non-idempotent requests', async () => {
+        const client = clientFor();
+        stub.respondWith({ status: 429, headers: { 'Retry-After': '0' } });
+
+        const response = await client.request({ url: stub.url, method: 'POST' });
+
+        expect(response.status).toBe(200);
+        expect(stub.requestTimes).toHaveLength(2);
+    });
+
+    it('gives up when Retry-After is longer than the longest allowed wait', async () => {
+        const client = clientFor({ maxDelayMs: 500 });
+        stub.respondWith({ status: 429, headers: { 'Retry-After': '30' } });
+
+        await expect(client.request({ url: stub.url })).rejects.toMatchObject({ response: { status: 429 } });
+        expect(stub.requestTimes).toHaveLength(1);
+    });
+
+    it('backs off and retries server errors on idempotent requests', async () => {
+        const client = clientFor();
+        stub.respondWith({ status: 503 }, { status: 500 });
+
+        const response = await client.request({ url: stub.url });
+
+        expect(response.status).toBe(200);
+        expect(stub.requestTimes).toHaveLength(3);
+    });
+
+    it('throws after the last retry fails', async () => {
+        const client = clientFor({ maxRetries: 2 });
+        stub.respondWith({ status: 503 }, { status: 503 }, { status: 503 });
+
+        await expect(client.request({ url: stub.url })).rejects.toMatchObject({ response: { status: 503 } });
+        expect(stub.requestTimes).toHaveLength(3);
+    });
+
+    it('does not retry server errors on non-idempotent requests', async () => {
+        const client = clientFor();
+        stub.respondWith({ status: 503 });
+
+        await expect(client.request({ url: stub.url, method: 'POST' })).rejects.toMatchObject({ response: { status: 503 } });
+        expect(stub.requestTimes).toHaveLength(1);
+    });
+
+    it('does not retry client errors', async () => {
+        const client = clientFor();
+        stub.respondWith({ status: 404 });
+
+        await expect(client.request({ url: stub.url })).rejects.toMatchObject({ response: { status: 404 } });
+        expect(stub.requestTimes).toHaveLength(1);
+    });
+
+    it('opens the circuit after repeated failures, then half-opens and closes once the host recovers', async () => {
+        const client = clientFor({ maxRetries: 0, failureThreshold: 2, cooldownMs: 100 });
+        stub.respondWith({ status: 503 }, { status: 503 });
+
+        await expect(client.request({ url: stub.url })).rejects.toMatchObject({ response: { status: 503 } });
+        await expect(client.request({ url: stub.url })).rejects.toMatchObject({ response: { status: 503 } });
+
+        // Open: fails fast without reaching the host
+        await expect(client.request({ url: stub.url })).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(stub.requestTimes).toHaveLength(2);
+
+        // Half-open after the cooldown: one trial request goes through, and its success closes the circuit
+        await delay(120);
+        await expect(client.request({ url: stub.url })).resolves.toMatchObject({ status: 200 });
+        await expect(client.request({ url: stub.url })).resolves.toMatchObject({ status: 200 });
+        expect(stub.requestTimes).toHaveLength(4);
+    });
+
+    it('reopens the circuit when the half-open trial fails', async () => {
+        const client = clientFor({ maxRetries: 0, failureThreshold: 1, cooldownMs: 100 });
+        stub.respondWith({ status: 503 }, { status: 503 });
+
+        await expect(client.request({ url: stub.url })).rejects.toMatchObject({ response: { status: 503 } });
+        await delay(120);
+        await expect(client.request({ url: stub.url })).rejects.toMatchObject({ response: { status: 503 } });
+
+        await expect(client.request({ url: stub.url })).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(stub.requestTimes).toHaveLength(2);
+    });
+});
@@ -0,0 +1,224 @@
+// src/services/http/httpClient.ts
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { DEFAULT_HOST_POLICY, HOST_POLICIES, HostPolicy } from '@/config/httpPolicies';
+
+/**
+ * Thrown instead of calling a host whose circuit is open after repeated failures.
+ */
+export class CircuitOpenError extends Error {
+    constructor(public readonly host: string, public readonly retryAt: Date) {
+        super(`Circuit open for ${host} until ${retryAt.toISOString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export interface CallOptions {
+    // Whether the call is safe to repeat after a server error or dropped connection.
+    // Non-idempotent calls are still retried on 429, since the server didn't process them.
+    idempotent?: boolean;
+}
+
+interface HostState {
+    policy: HostPolicy;
+    bucket: TokenBucket;
+    pausedUntil: number; // Set from Retry-After, holds back every request to the host
+    consecutiveFailures: number;
+    openUntil: number; // 0 while the circuit is closed
+    trialInFlight: boolean; // Half-open: one request is testing whether the host recovered
+}
+
+// Network errors worth retrying; anything else without a status is a bug, not an outage
+const TRANSIENT_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK']);
+const NON_IDEMPOTENT_METHODS = new Set(['POST', 'PATCH']);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token bucket: holds up to capacity tokens, refilled continuously at ratePerSecond.
+ */
+class TokenBucket {
+    private tokens: number;
+    private refilledAt = Date.now();
+
+    constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+        this.tokens = capacity;
+    }
+
+    public async take(): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) / 1000 * this.ratePerSecond);
+            this.refilledAt = now;
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            await delay(Math.ceil((1 - this.tokens) / this.ratePerSecond * 1000));
+        }
+    }
+}
+
+/**
+ * HTTP status of a failed call, from axios errors or Spotify Web API errors.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+    if (axios.isAxiosError(error)) return error.response?.status;
+    const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+    return typeof statusCode === 'number' ? statusCode : undefined;
+}
+
+/**
+ * Wait requested by a Retry-After header (seconds or an HTTP date), in ms.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+    const headers = axios.isAxiosError(error)
+        ? error.response?.headers
+        : (error as { headers?: Record<string, unknown> } | null)?.headers;
+    const value = headers?.['retry-after'];
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(String(value));
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isTransientNetworkError(error: unknown): boolean {
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code);
+}
+
+/**
+ * Shared client for every outbound API call. Per host it applies a token bucket,
+ * retries 429s, 5xx responses and dropped connections with jittered exponential
+ * backoff (honoring Retry-After), and opens a circuit breaker after repeated
+ * failures so an outage fails fast instead of queueing retries.
+ * Hosts are configured in HOST_POLICIES; pass other policies to point it at a stub server.
+ */
+export class HttpClient {
+    private static instance: HttpClient;
+    private hosts = new Map<string, HostState>();
+
+    constructor(
+        private readonly policies: Record<string, Partial<HostPolicy>> = HOST_POLICIES,
+        private readonly defaultPolicy: HostPolicy = DEFAULT_HOST_POLICY
+    ) {}
+
+    public static getInstance(): HttpClient {
+        if (!HttpClient.instance) {
+            HttpClient.instance = new HttpClient();
+        }
+        return HttpClient.instance;
+    }
+
+    /**
+     * Make an axios request under its host's policy. POST and PATCH count as
+     * non-idempotent unless the config says otherwise.
+     */
+    public async request<T = unknown>(config: AxiosRequestConfig & CallOptions): Promise<AxiosResponse<T>> {
+        const { idempotent, ...axiosConfig } = config;
+        const host = new URL(axiosConfig.url || '', axiosConfig.baseURL).host;
+        const policy = this.getHostState(host).policy;
+        return this.run(host, () => axios.request<T>({ timeout: policy.timeoutMs, ...axiosConfig }), {
+            idempotent: idempotent ?? !NON_IDEMPOTENT_METHODS.has((axiosConfig.method || 'GET').toUpperCase())
+        });
+    }
+
+    /**
+     * Run any call to a host under the host's policy, e.g. a Spotify Web API SDK method.
+     */
+    public async run<T>(host: string, call: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+        const state = this.getHostState(host);
+        const idempotent = options.idempotent ?? true;
+
+        for (let attempt = 0; ; attempt++) {
+            this.enterCircuit(host, state);
+            await this.waitForTurn(state);
+            try {
+                const result = await call();
+                this.recordSuccess(host, state);
+                return result;
+            } catch (error) {
+                const status = getErrorStatus(error);
+                const transient = status === 429 || (status !== undefined && status >= 500) || (status === undefined && isTransientNetworkError(error));
+                if (transient) {
+                    this.recordFailure(host, state);
+                } else {
+                    // The host answered, so it's up even though the request was rejected
+                    this.recordSuccess(host, state);
+                }
+                if (!transient || (!idempotent && status !== 429) || attempt >= state.policy.maxRetries) {
+                    throw error;
+                }
+
+                const retryAfterMs = status === 429 ? getRetryAfterMs(error) : undefined;
+                if (retryAfterMs !== undefined && retryAfterMs > state.policy.maxDelayMs) {
+                    console.warn(`HttpClient: ${host} asked to wait ${Math.round(retryAfterMs / 1000)}s, longer than allowed; giving up.`);
+                    throw error;
+                }
+                const waitMs = retryAfterMs ?? this.getBackoffMs(state.policy, attempt);
+                if (status === 429) {
+                    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + waitMs);
+                }
+                console.warn(`HttpClient: ${host} failed with ${status ?? (error as { code?: string }).code}; retry ${attempt + 1}/${state.policy.maxRetries} in ${waitMs}ms.`);
+                await delay(waitMs);
+            }
+        }
+    }
+
+    private getHostState(host: string): HostState {
+        let state = this.hosts.get(host);
+        if (!state) {
+            const policy = { ...this.defaultPolicy, ...this.policies[host] };
+            state = {
+                policy,
+                bucket: new TokenBucket(policy.requestsPerSecond, policy.burst),
+                pausedUntil: 0,
+                consecutiveFailures: 0,
+                openUntil: 0,
+                trialInFlight: false
+            };
+            this.hosts.set(host, state);
+        }
+        return state;
+    }
+
+    // Full jitter: anywhere between zero and the exponential backoff
+    private getBackoffMs(policy: HostPolicy, attempt: number): number {
+        return Math.round(Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt)));
+    }
+
+    private async waitForTurn(state: HostState): Promise<void> {
+        const pausedMs = state.pausedUntil - Date.now();
+        if (pausedMs > 0) await delay(pausedMs);
+        await state.bucket.take();
+    }
+
+    // Closed: pass. Open: fail fast until the cooldown ends, then let one trial request through.
+    private enterCircuit(host: string, state: HostState): void {
+        if (state.openUntil === 0) return;
+        if (Date.now() < state.openUntil || state.trialInFlight) {
+            throw new CircuitOpenError(host, new Date(state.openUntil));
+        }
+        state.trialInFlight = true;
+    }
+
+    private recordSuccess(host: string, state: HostState): void {
+        if (state.openUntil !== 0) {
+            console.log(`HttpClient: ${host} recovered, closing circuit.`);
+        }
+        state.consecutiveFailures = 0;
+        state.openUntil = 0;
+        state.trialInFlight = false;
+    }
+
+    private recordFailure(host: string, state: HostState): void {
+        state.consecutiveFailures++;
+        const trialFailed = state.trialInFlight;
+        state.trialInFlight = false;
+        if (trialFailed || state.consecutiveFailures >= state.policy.failureThreshold) {
+            state.openUntil = Date.now() + state.policy.cooldownMs;
+            console.warn(`HttpClient: Opening circuit for ${host} after ${state.consecutiveFailures} consecutive failures.`);
+        }
+    }
+}
@@ -0,0 +1,57 @@
+// src/services/jobs/jobDefinitions.ts
+import type { JobDefinition } from './jobScheduler';
+
+const MINUTE_MS = 60 * 1000;
+
+// Task modules load when their job runs, so one job's missing API credentials
+// (checked when its client is created) can't stop the scheduler or the other jobs loading
+
+// Daily, staggered so each job sees the previous one's data. 08:00 UTC is 3 AM in Chicago during the season.
+export const JOBS: JobDefinition[] = [
+    {
+        name: 'walkup-sync',
+        description: 'Sync players and walkup songs from WalkupDB',
+        schedule: { intervalHours: 24, offsetHours: 8 },
+        leaseMs: 10 * MINUTE_MS,
+        // The sync is checkpointed, so a retry resumes where the failed attempt stopped
+        retry: { maxAttempts: 3, initialDelayMs: 5 * MINUTE_MS, backoffMultiplier: 2 },
+        run: async trigger => {
+            const { WalkupSongSyncService } = await import('@/services/walkupSongs/walkupSongSyncService');
+            const outcome = await WalkupSongSyncService.getInstance().updatePlayerData({ trigger });
+            return outcome === 'completed' ? undefined : 'skipped';
+        }
+    },
+    {
+        name: 'genre-enrichment',
+        description: 'Fill in missing song genres and artist links from Spotify',
+        schedule: { intervalHours: 24, offsetHours: 10 },
+        leaseMs: 10 * MINUTE_MS,
+        retry: { maxAttempts: 3, initialDelayMs: 2 * MINUTE_MS, backoffMultiplier: 2 },
+        run: async () => {
+            const { enrichSongGenres } = await import('@/services/genres/songGenreEnrichment');
+            await enrichSongGenres();
+        }
+    },
+    {
+        name: 'stats-enrichment',
+        description: 'Refresh player positions, teams and season stats from MySportsFeeds',
+        schedule: { intervalHours: 24, offsetHours: 11 },
+        leaseMs: 10 * MINUTE_MS,
+        retry: { maxAttempts: 3, initialDelayMs: 5 * MINUTE_MS, backoffMultiplier: 2 },
+        run: async () => {
+            const { enrichPlayerStats } = await import('@/services/mysportsfeeds/statsEnrichment');
+            await enrichPlayerStats();
+        }
+    },
+    {
+        name: 'team-stats',
+        description: 'Refresh games played and records for every club from MySportsFeeds',
+        schedule: { intervalHours: 24, offsetHours: 11 },
+        leaseMs: 5 * MINUTE_MS,
+        retry: { maxAttempts: 3, initialDelayMs: 5 * MINUTE_MS, backoffMultiplier: 2 },
+        run: async () => {
+            const { refreshTeamStats } = await import('@/services/mysportsfeeds/statsEnrichment');
+            await refreshTeamStats();
+        }
+    }
+];
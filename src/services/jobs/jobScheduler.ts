@@ -0,0 +1,282 @@
+// src/services/jobs/jobScheduler.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import { JobLock, JobLockDocument, JobOutcome } from '@/models/jobLockModel';
+import { JOBS } from './jobDefinitions';
+
+export type JobTrigger = 'schedule' | 'cli' | 'admin';
+
+export interface RetryPolicy {
+    maxAttempts: number; // Including the first attempt
+    initialDelayMs: number; // Wait before the second attempt
+    backoffMultiplier: number; // Each later wait is this many times longer
+}
+
+// A job runs once per slot: every intervalHours, offset from midnight UTC
+export interface JobSchedule {
+    intervalHours: number;
+    offsetHours?: number;
+}
+
+export interface JobDefinition {
+    name: string;
+    description: string;
+    schedule: JobSchedule;
+    leaseMs: number; // Renewed while the job runs, so a crashed instance frees the job once it lapses
+    retry: RetryPolicy;
+    // Resolves 'skipped' when the job found nothing to do, e.g. its work already running elsewhere
+    run: (trigger: JobTrigger) => Promise<void | 'skipped'>;
+}
+
+export type JobRunResult =
+    | { status: JobOutcome; attempts: number; error?: string }
+    | { status: 'locked' | 'not_due' }; // Running elsewhere, or this slot already finished
+
+export type JobStartResult =
+    | { status: 'started'; completion: Promise<JobRunResult> }
+    | { status: 'locked' | 'not_due' };
+
+// Job as shown on the admin jobs route
+export interface JobStatus {
+    name: string;
+    description: string;
+    schedule: JobSchedule;
+    running: boolean;
+    nextSlotAt: string;
+    lastStartedAt: string | null;
+    lastFinishedAt: string | null;
+    lastStatus: JobOutcome | null;
+    lastTrigger: string | null;
+    lastAttempts: number | null;
+    lastError: string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_TICK_MS = 60 * 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Start of the schedule slot containing the given time.
+ */
+export function getCurrentSlot(schedule: JobSchedule, now: Date = new Date()): Date {
+    const intervalMs = schedule.intervalHours * HOUR_MS;
+    const offsetMs = (schedule.offsetHours ?? 0) * HOUR_MS;
+    return new Date(Math.floor((now.getTime() - offsetMs) / intervalMs) * intervalMs + offsetMs);
+}
+
+export function getRetryDelay(retry: RetryPolicy, attempt: number): number {
+    return retry.initialDelayMs * Math.pow(retry.backoffMultiplier, attempt - 1);
+}
+
+/**
+ * Runs background jobs safely across instances. Each job holds a lease in Mongo while it
+ * runs, and a scheduled slot is marked done once a run succeeds, so a job neither runs
+ * twice at once nor once per instance, and a slot whose run failed or died mid-way is run
+ * again once its lease lapses. Something has to tick the scheduler: the run-jobs worker
+ * script, a system cron calling run-jobs, or an external cron hitting /api/jobs/tick.
+ */
+export class JobScheduler {
+    private static instance: JobScheduler;
+    private jobs: Map<string, JobDefinition>;
+
+    private constructor() {
+        this.jobs = new Map(JOBS.map(job => [job.name, job]));
+    }
+
+    public static getInstance(): JobScheduler {
+        if (!JobScheduler.instance) {
+            JobScheduler.instance = new JobScheduler();
+        }
+        return JobScheduler.instance;
+    }
+
+    public hasJob(name: string): boolean {
+        return this.jobs.has(name);
+    }
+
+    public async listJobs(): Promise<JobStatus[]> {
+        await ensureMongoConnection('JobScheduler');
+        const locks: JobLockDocument[] = await JobLock.find({ name: { $in: Array.from(this.jobs.keys()) } });
+        const now = new Date();
+
+        return Array.from(this.jobs.values()).map(job => {
+            const lock = locks.find(candidate => candidate.name === job.name);
+            const slot = getCurrentSlot(job.schedule, now);
+            const slotDone = lock?.lastSlotAt !== undefined && lock.lastSlotAt >= slot;
+            return {
+                name: job.name,
+                description: job.description,
+                schedule: job.schedule,
+                running: lock !== undefined && lock.lockedUntil > now,
+                nextSlotAt: (slotDone ? new Date(slot.getTime() + job.schedule.intervalHours * HOUR_MS) : slot).toISOString(),
+                lastStartedAt: lock?.lastStartedAt?.toISOString() ?? null,
+                lastFinishedAt: lock?.lastFinishedAt?.toISOString() ?? null,
+                lastStatus: lock?.lastStatus ?? null,
+                lastTrigger: lock?.lastTrigger ?? null,
+                lastAttempts: lock?.lastAttempts ?? null,
+                lastError: lock?.lastError ?? null
+            };
+        });
+    }
+
+    /**
+     * Start a job now, outside its schedule, unless it is already running somewhere.
+     * Resolves once the lease is taken; the job itself finishes with completion.
+     */
+    public async startJob(name: string, trigger: JobTrigger): Promise<JobStartResult> {
+        const job = this.jobs.get(name);
+        if (!job) {
+            throw new Error(`JobScheduler: Unknown job ${name}`);
+        }
+        return this.start(job, trigger);
+    }
+
+    /**
+     * Run a job now and wait for it to finish.
+     */
+    public async runJob(name: string, trigger: JobTrigger): Promise<JobRunResult> {
+        const started = await this.startJob(name, trigger);
+        return started.status === 'started' ? started.completion : started;
+    }
+
+    /**
+     * Run every job whose current slot hasn't finished yet, one at a time.
+     */
+    public async runDueJobs(now: Date = new Date()): Promise<Record<string, JobRunResult>> {
+        const results: Record<string, JobRunResult> = {};
+        for (const job of this.jobs.values()) {
+            const started = await this.start(job, 'schedule', getCurrentSlot(job.schedule, now));
+            results[job.name] = started.status === 'started' ? await started.completion : started;
+        }
+        return results;
+    }
+
+    /**
+     * Run one due job, least recently started first, and wait for it. For serverless ticks:
+     * one job and one attempt per request keeps the run inside the function's time limit, and
+     * a failed run leaves its slot due, so a later tick retries it.
+     */
+    public async runNextDueJob(now: Date = new Date()): Promise<Record<string, JobRunResult>> {
+        await ensureMongoConnection('JobScheduler');
+        const locks: JobLockDocument[] = await JobLock.find({ name: { $in: Array.from(this.jobs.keys()) } });
+        const lastStartedAt = (name: string) => locks.find(lock => lock.name === name)?.lastStartedAt?.getTime() ?? 0;
+        const jobs = Array.from(this.jobs.values()).sort((a, b) => lastStartedAt(a.name) - lastStartedAt(b.name));
+
+        for (const job of jobs) {
+            const started = await this.start(job, 'schedule', getCurrentSlot(job.schedule, now), 1);
+            if (started.status === 'started') {
+                return { [job.name]: await started.completion };
+            }
+        }
+        return {};
+    }
+
+    /**
+     * Tick the scheduler on an interval for as long as the process runs.
+     * @returns A function that stops the worker
+     */
+    public startWorker(tickMs: number = DEFAULT_TICK_MS): () => void {
+        let ticking = false;
+        const tick = async () => {
+            if (ticking) return; // A long job is still running from an earlier tick
+            ticking = true;
+            try {
+                await this.runDueJobs();
+            } catch (error) {
+                console.error('JobScheduler: Error running due jobs:', error);
+            } finally {
+                ticking = false;
+            }
+        };
+
+        tick();
+        const timer = setInterval(tick, tickMs);
+        console.log(`JobScheduler: Worker started, checking for due jobs every ${tickMs / 1000} seconds.`);
+        return () => clearInterval(timer);
+    }
+
+    /**
+     * Take the job's lease, then run it in the background. Scheduled runs only start while
+     * their slot hasn't finished; the slot is recorded when a run succeeds, not here.
+     */
+    private async start(job: JobDefinition, trigger: JobTrigger, slotAt?: Date, maxAttempts: number = job.retry.maxAttempts): Promise<JobStartResult> {
+        await ensureMongoConnection('JobScheduler');
+        const owner = crypto.randomUUID();
+        const now = new Date();
+
+        const filter: mongoose.FilterQuery<JobLockDocument> = { name: job.name, lockedUntil: { $lte: now } };
+        if (slotAt) {
+            filter.$or = [
+                { lastSlotAt: { $exists: false } },
+                { lastSlotAt: { $lt: slotAt } },
+                // The last run started and never finished (its process died), so whatever it was doing is still due
+                { $expr: { $lt: ['$lastFinishedAt', '$lastStartedAt'] } }
+            ];
+        }
+        try {
+            await JobLock.findOneAndUpdate(filter, {
+                $set: {
+                    owner,
+                    lockedUntil: new Date(now.getTime() + job.leaseMs),
+                    lastStartedAt: now,
+                    lastTrigger: trigger
+                }
+            }, { upsert: true });
+        } catch (error) {
+            // Another instance holds the lease or the slot already finished, so the upsert collides
+            if ((error as { code?: number }).code !== 11000) throw error;
+            const lock: JobLockDocument | null = await JobLock.findOne({ name: job.name });
+            return { status: lock && lock.lockedUntil > now ? 'locked' : 'not_due' };
+        }
+
+        console.log(`JobScheduler: Starting ${job.name} (${trigger}).`);
+        return { status: 'started', completion: this.execute(job, owner, trigger, slotAt, maxAttempts) };
+    }
+
+    private async execute(job: JobDefinition, owner: string, trigger: JobTrigger, slotAt: Date | undefined, maxAttempts: number): Promise<JobRunResult> {
+        const heartbeat = setInterval(() => {
+            JobLock.updateOne({ name: job.name, owner }, { $set: { lockedUntil: new Date(Date.now() + job.leaseMs) } })
+                .catch((error: unknown) => console.warn(`JobScheduler: Failed to renew lease for ${job.name}:`, error));
+        }, job.leaseMs / 3);
+
+        let attempts = 0;
+        let error: string | undefined;
+        let skipped = false;
+        try {
+            while (attempts < maxAttempts) {
+                attempts++;
+                try {
+                    skipped = await job.run(trigger) === 'skipped';
+                    error = undefined;
+                    break;
+                } catch (runError) {
+                    error = runError instanceof Error ? runError.message : String(runError);
+                    console.error(`JobScheduler: ${job.name} attempt ${attempts}/${maxAttempts} failed:`, runError);
+                    if (attempts < maxAttempts) {
+                        await delay(getRetryDelay(job.retry, attempts));
+                    }
+                }
+            }
+        } finally {
+            clearInterval(heartbeat);
+        }
+
+        const status: JobOutcome = error !== undefined ? 'failed' : skipped ? 'skipped' : 'succeeded';
+        await JobLock.updateOne({ name: job.name, owner }, {
+            $set: {
+                lockedUntil: new Date(),
+                lastFinishedAt: new Date(),
+                lastStatus: status,
+                lastAttempts: attempts,
+                // A failed slot stays due, so the next tick retries it
+                ...(slotAt && status !== 'failed' ? { lastSlotAt: slotAt } : {}),
+                ...(error !== undefined ? { lastError: error } : {})
+            },
+            ...(error === undefined ? { $unset: { lastError: '' } } : {})
+        }).catch((lockError: unknown) => console.error(`JobScheduler: Failed to release lease for ${job.name}:`, lockError));
+        console.log(`JobScheduler: ${job.name} ${status} after ${attempts} attempt(s).`);
+        return { status, attempts, ...(error !== undefined ? { error } : {}) };
+    }
+}
@@ -9,15 +9,23 @@ interface HitterStats {
   HBP: number; // Hit by pitch
   SF: number; // Sacrifice flies
   TB: number; // Total bases
-  R: number;  // Runs scored
+  R?: number; // Runs scored
 }
 
 interface PitcherStats {
   IP: number; // Innings pitched
   ER: number; // Earned runs
-  R: number;  // Runs allowed
+  R?: number; // Runs allowed
 }
 
+// Projection constants
+const LEAGUE_AVG_ERA = 3.90;
+const LEAGUE_AVG_OPS = 0.711;
+const LEAGUE_AVG_RUNS_PER_GAME = 4.55;
+const GAMES_IN_SEASON = 162;
+const LINEUP_SIZE = 9; // Starting hitters, including DH
+const ROTATION_SIZE = 5; // Starting pitchers
+
 /**
  * Calculate the Pythagorean expectation (expected win-loss percentage)
  * using the formula: (runs scored^2) / (runs scored^2 + runs allowed^2)
@@ -62,7 +70,8 @@ export function calculateTeamOPS(hitterStats: HitterStats[]): number {
   const totalAB = hitterStats.reduce((sum, player) => sum + player.AB, 0);
   const totalSF = hitterStats.reduce((sum, player) => sum + player.SF, 0);
   
-  const obp = (totalHits + totalBB + totalHBP) / (totalAB + totalBB + totalHBP + totalSF);
+  const obpDenominator = totalAB + totalBB + totalHBP + totalSF;
+  const obp = obpDenominator === 0 ? 0 : (totalHits + totalBB + totalHBP) / obpDenominator;
   
   // Calculate slugging percentage (SLG)
   const totalTB = hitterStats.reduce((sum, player) => sum + player.TB, 0);
@@ -86,98 +95,88 @@ export function calculateTeamERA(pitcherStats: PitcherStats[]): number {
 }
 
 /**
- * Calculate team stats based on player data from MySportsFeeds
+ * Convert a player's batting line to counting stats.
+ * Players enriched before counting stats were stored only have rate stats, so those are
+ * back-solved from AVG/OBP/SLG and PA (treating every non-AB plate appearance as a walk).
+ */
+function toHitterStats(player: Player): HitterStats | null {
+  const batting = player.stats?.batting;
+  if (!batting || !batting.plateAppearances) return null;
+
+  if (batting.atBats !== undefined && batting.hits !== undefined) {
+    return {
+      PA: batting.plateAppearances,
+      H: batting.hits,
+      AB: batting.atBats,
+      BB: batting.walks ?? 0,
+      HBP: batting.hitByPitch ?? 0,
+      SF: batting.sacrificeFlies ?? 0,
+      TB: batting.totalBases ?? 0
+    };
+  }
+
+  // OBP = (H + BB) / PA and AVG = H / (PA - BB)  =>  H = AVG * PA * (1 - OBP) / (1 - AVG)
+  const PA = batting.plateAppearances;
+  const AVG = batting.battingAvg || 0;
+  const OBP = batting.onBasePercentage || 0;
+  const H = AVG < 1 ? (AVG * PA * (1 - OBP)) / (1 - AVG) : AVG * PA;
+  const BB = Math.max(0, OBP * PA - H);
+  const AB = PA - BB;
+  return { PA, H, AB, BB, HBP: 0, SF: 0, TB: (batting.sluggingPercentage || 0) * AB };
+}
+
+/**
+ * Convert a player's pitching line to counting stats, deriving ER from ERA when not stored.
+ */
+function toPitcherStats(player: Player): PitcherStats | null {
+  const pitching = player.stats?.pitching;
+  if (!pitching || !pitching.inningsPitched) return null;
+
+  return {
+    IP: pitching.inningsPitched,
+    ER: pitching.earnedRuns ?? (pitching.earnedRunAvg * pitching.inningsPitched) / 9
+  };
+}
+
+/**
+ * Calculate team stats based on player data from MySportsFeeds.
+ * Rates are computed from summed counting stats, so each hitter is weighted by PA and each
+ * pitcher by IP. Runs scored/allowed per game are scaled from league average by OPS and ERA
+ * and fed into the Pythagorean expectation.
  */
 export function calculateTeamStats(
   hitters: Player[], 
   pitchers: Player[]
 ): TeamStats {
-  // League averages
-  const LEAGUE_AVG_ERA = 3.90;
-  const LEAGUE_AVG_OPS = 0.711;
-  const LEAGUE_AVG_RUNS_PER_GAME = 4.55;
-  const GAMES_IN_SEASON = 162;
-
-  console.log('Input players:', {
-    hitters: hitters.map(p => ({
-      name: p.name,
-      stats: p.stats
-    })),
-    pitchers: pitchers.map(p => ({
-      name: p.name,
-      stats: p.stats
-    }))
-  });
-
-  // Calculate batting stats for non-pitchers
-  const validHitterStats = hitters
-    .map(player => player.stats?.batting)
-    .filter((stats): stats is NonNullable<typeof stats> => 
-      stats !== undefined
-    );
-
-
-
-  // Calculate pitching stats
-  const validPitcherStats = pitchers
-    .map(player => player.stats?.pitching)
-    .filter((stats): stats is NonNullable<typeof stats> => 
-      stats !== undefined
-    );
-
-
-
-  // Calculate team AVG (batting average)
-  const teamAVG = validHitterStats.length > 0
-    ? validHitterStats.reduce((sum, stats) => {
-        const avg = stats.battingAvg || 0;
-        console.log('Adding batting avg:', avg);
-        return sum + avg;
-      }, 0) / validHitterStats.length
-    : 0;
-
-  console.log('Team AVG:', teamAVG);
-
-  // Calculate team OPS (on-base plus slugging)
-  const teamOPS = validHitterStats.length > 0
-    ? validHitterStats.reduce((sum, stats) => {
-        const ops = (stats.onBasePercentage || 0) + (stats.sluggingPercentage || 0);
-        console.log('Adding OPS:', ops, 'from', {
-          onBasePercentage: stats.onBasePercentage,
-          sluggingPercentage: stats.sluggingPercentage
-        });
-        return sum + ops;
-      }, 0) / validHitterStats.length
-    : 0;
-
-  console.log('Team OPS:', teamOPS);
-
-  // Calculate team ERA (earned run average)
-  const teamERA = validPitcherStats.length > 0
-    ? validPitcherStats.reduce((sum, stats) => {
-        const era = stats.earnedRunAvg || 0;
-        console.log('Adding ERA:', era);
-        return sum + era;
-      }, 0) / validPitcherStats.length
-    : 0;
-
-  console.log('Team ERA:', teamERA);
-
-  // Calculate Runs Scored (RS) based on team OPS relative to league average
-  const runsScored = (teamOPS / LEAGUE_AVG_OPS) * LEAGUE_AVG_RUNS_PER_GAME;
-  console.log('Estimated Runs Scored per game:', runsScored);
-
-  // Calculate Runs Allowed (RA) based on team ERA relative to league average
-  const runsAllowed = (teamERA / LEAGUE_AVG_ERA) * LEAGUE_AVG_RUNS_PER_GAME;
-  console.log('Estimated Runs Allowed per game:', runsAllowed);
-
-  // Calculate win percentage using Pythagorean Expectation
-  const winPercentage = Math.pow(runsScored, 2) / (Math.pow(runsScored, 2) + Math.pow(runsAllowed, 2));
-  console.log('Win Percentage:', winPercentage);
-
-  // Calculate wins and losses
-  const wins = Math.round(winPercentage * GAMES_IN_SEASON);
-  const losses = GAMES_IN_SEASON - wins;
+  if (hitters.length > LINEUP_SIZE || pitchers.length > ROTATION_SIZE) {
+    console.warn(`calculateTeamStats: Expected up to ${LINEUP_SIZE} hitters and ${ROTATION_SIZE} pitchers, got ${hitters.length} and ${pitchers.length}. Using the first ${LINEUP_SIZE}/${ROTATION_SIZE}.`);
+  }
+
+  const hitterStats = hitters
+    .slice(0, LINEUP_SIZE)
+    .map(toHitterStats)
+    .filter((stats): stats is HitterStats => stats !== null);
+  const pitcherStats = pitchers
+    .slice(0, ROTATION_SIZE)
+    .map(toPitcherStats)
+    .filter((stats): stats is PitcherStats => stats !== null);
+
+  const teamAVG = calculateTeamAVG(hitterStats);
+  const teamOPS = calculateTeamOPS(hitterStats);
+  const teamERA = calculateTeamERA(pitcherStats);
+  console.log(`calculateTeamStats: ${hitterStats.length} hitters, ${pitcherStats.length} pitchers with stats. AVG ${teamAVG.toFixed(3)}, OPS ${teamOPS.toFixed(3)}, ERA ${teamERA.toFixed(2)}`);
+
+  // Fall back to league average when a side of the roster has no stats
+  const runsScored = hitterStats.length > 0
+    ? (teamOPS / LEAGUE_AVG_OPS) * LEAGUE_AVG_RUNS_PER_GAME
+    : LEAGUE_AVG_RUNS_PER_GAME;
+  const runsAllowed = pitcherStats.length > 0
+    ? (teamERA / LEAGUE_AVG_ERA) * LEAGUE_AVG_RUNS_PER_GAME
+    : LEAGUE_AVG_RUNS_PER_GAME;
+
+  const { wins, losses } = runsScored + runsAllowed > 0
+    ? calculatePythagoreanWinLoss(runsScored, runsAllowed, GAMES_IN_SEASON)
+    : { wins: GAMES_IN_SEASON / 2, losses: GAMES_IN_SEASON / 2 };
 
   return {
     wins,
@@ -186,4 +185,4 @@ export function calculateTeamStats(
     OPS: teamOPS,
     ERA: teamERA
   };
-}
\ No newline at end of file
+}
@@ -1,11 +1,13 @@
 import axios from 'axios';
 import dotenv from 'dotenv';
 import path from 'path';
+import { HttpClient } from '@/services/http/httpClient';
+import type { NameConflictReason } from '@/models/playerNameConflictModel';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
 
-interface MySportsFeedsPlayer {
+export interface MySportsFeedsPlayer {
   player: {
     id: string;
     firstName: string;
@@ -22,10 +24,17 @@ interface MySportsFeedsPlayer {
       batterOnBasePct: number;
       batterSluggingPct: number;
       plateAppearances: number;
+      hits: number;
+      atBats: number;
+      batterWalks: number;
+      batterHitByPitch: number;
+      batterSacrificeFlies: number;
+      totalBases: number;
     };
     pitching: {
       earnedRunAvg: number;
       inningsPitched: number;
+      earnedRunsAllowed: number;
     };
   };
 }
@@ -57,28 +66,44 @@ interface PlayerDocument {
       onBasePercentage: number;
       sluggingPercentage: number;
       plateAppearances: number;
+      hits?: number;
+      atBats?: number;
+      walks?: number;
+      hitByPitch?: number;
+      sacrificeFlies?: number;
+      totalBases?: number;
     };
     pitching: {
       earnedRunAvg: number;
       inningsPitched: number;
+      earnedRuns?: number;
     };
   };
 }
 
-interface PlayerMaps {
+export interface PlayerMaps {
+  playersById: Record<string, MySportsFeedsPlayer>;
   playersByName: Record<string, MySportsFeedsPlayer[]>;
   playersByFirstName: Record<string, MySportsFeedsPlayer[]>;
   playersByLastName: Record<string, MySportsFeedsPlayer[]>;
   allPlayers: MySportsFeedsPlayer[];
 }
 
-interface NameConflict {
+// A player enrichment couldn't match by name, for admin resolution
+export interface NameConflict {
+  playerId: string;
+  mlbId: string;
   playerName: string;
-  matches: MySportsFeedsPlayer[];
+  team: string;
+  position: string;
+  reason: NameConflictReason;
+  matches: MySportsFeedsPlayer[]; // Players sharing the name; empty when none has it exactly
 }
 
 interface TeamStats {
   team: string;
+  name?: string; // Full club name, e.g. "Detroit Tigers"
+  msfTeamId?: string; // MySportsFeeds team ID (what enrichment stores as a player's teamId)
   gamesPlayed: number;
   wins: number;
   losses: number;
@@ -87,8 +112,9 @@ interface TeamStats {
 
 interface TeamStatsResponse {
   team: {
-    id: string;
+    id: string | number;
     abbreviation: string;
+    city: string;
     name: string;
   };
   stats: {
@@ -101,14 +127,12 @@ interface TeamStatsResponse {
 
 export class MySportsFeedsService {
   private static instance: MySportsFeedsService;
-  private readonly API_BASE_URL = 'https://api.mysportsfeeds.com/v2.1/pull/mlb';
+  private readonly API_BASE_URL = process.env.MYSPORTSFEEDS_API_URL || 'https://api.mysportsfeeds.com/v2.1/pull/mlb';
   private readonly API_KEY: string;
   private readonly API_PASSWORD = 'MYSPORTSFEEDS';
   private readonly SEASON = 'latest';
-  private lastRequestTime = 0;
-  private readonly RATE_LIMIT_DELAY = 5500; // 5.5 seconds between requests
-  private retryCount = 0;
-  private readonly MAX_RETRIES = 3;
+  // Paces requests to the MySportsFeeds limit and retries throttled ones
+  private http = HttpClient.getInstance();
   private nameConflicts: NameConflict[] = [];
 
   private constructor() {
@@ -131,23 +155,11 @@ export class MySportsFeedsService {
     return `Basic ${Buffer.from(credentials).toString('base64')}`;
   }
 
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.RATE_LIMIT_DELAY) {
-      const waitTime = this.RATE_LIMIT_DELAY - timeSinceLastRequest;
-      console.log(`Waiting ${waitTime}ms before next request...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    this.lastRequestTime = Date.now();
-  }
-
   public async fetchAllPlayerData(): Promise<PlayerMaps> {
     try {
-      await this.waitForRateLimit();
-      
       console.log("Fetching all player data from MySportsFeeds API...");
-      const response = await axios.get(`${this.API_BASE_URL}/${this.SEASON}/player_stats_totals.json`, {
+      const response = await this.http.request<{ playerStatsTotals?: MySportsFeedsPlayer[] }>({
+        url: `${this.API_BASE_URL}/${this.SEASON}/player_stats_totals.json`,
         headers: {
           'Authorization': this.getAuthHeader(),
           'Accept': 'application/json'
@@ -163,12 +175,14 @@ export class MySportsFeedsService {
       console.log(`Retrieved data for ${playerStats.length} players from API`);
       
       // Create maps for different lookup strategies
+      const playersById: Record<string, MySportsFeedsPlayer> = {};
       const playersByName: Record<string, MySportsFeedsPlayer[]> = {};
       const playersByFirstName: Record<string, MySportsFeedsPlayer[]> = {};
       const playersByLastName: Record<string, MySportsFeedsPlayer[]> = {};
       
       playerStats.forEach((playerData: MySportsFeedsPlayer) => {
         if (playerData.player) {
+          playersById[String(playerData.player.id)] = playerData;
           const firstName = playerData.player.firstName?.toLowerCase().trim() || '';
           const lastName = playerData.player.lastName?.toLowerCase().trim() || '';
           const fullName = `${firstName} ${lastName}`.trim();
@@ -194,6 +208,7 @@ export class MySportsFeedsService {
       });
       
       return {
+        playersById,
         playersByName,
         playersByFirstName,
         playersByLastName,
@@ -208,6 +223,7 @@ export class MySportsFeedsService {
         });
       }
       return {
+        playersById: {},
         playersByName: {},
         playersByFirstName: {},
         playersByLastName: {},
@@ -216,7 +232,24 @@ export class MySportsFeedsService {
     }
   }
   
-  public findBestPlayerMatch(player: PlayerDocument, playerMaps: PlayerMaps): MySportsFeedsPlayer | null {
+  /**
+   * Find the MySportsFeeds player for one of ours. An admin-chosen override for the player's
+   * mlbId wins; otherwise match by exact name, using position and team to tell apart players
+   * who share a name. Players that can't be matched, or whose override no longer finds its
+   * player, are recorded for getConflicts().
+   */
+  public findBestPlayerMatch(player: PlayerDocument, playerMaps: PlayerMaps, overrides?: Map<string, string>): MySportsFeedsPlayer | null {
+    const overrideId = player.mlbId ? overrides?.get(player.mlbId) : undefined;
+    if (overrideId) {
+      const overridden = playerMaps.playersById[overrideId];
+      if (!overridden) {
+        console.log(`Override for ${player.name} points to MySportsFeeds player ${overrideId}, who has no data this season`);
+        this.nameConflicts.push(this.toConflict(player, 'stale_override', []));
+        return null;
+      }
+      return overridden;
+    }
+
     // Normalize the player name from our database
     const firstName = player.name.split(' ')[0]?.toLowerCase().trim() || '';
     const lastName = this.getLastName(player.name)?.toLowerCase().trim() || '';
@@ -252,38 +285,79 @@ export class MySportsFeedsService {
         console.log(`Successfully disambiguated ${player.name} using position/team data`);
         return matches[0];
       } else if (matches.length > 1) {
-        // If we still have multiple matches after trying to disambiguate, log the conflict
-        this.nameConflicts.push({
-          playerName: player.name,
-          matches: matches
-        });
+        // If we still have multiple matches after trying to disambiguate, record the conflict
+        this.nameConflicts.push(this.toConflict(player, 'ambiguous', exactMatches));
         console.log(`WARNING: Unable to disambiguate ${player.name} - skipping enrichment`);
         return null;
       }
     }
     
-    // No match found
+    // No match found; same-named players whose position and team both differ are still suggestions
     console.log(`No exact match found for ${player.name}`);
+    this.nameConflicts.push(this.toConflict(player, exactMatches.length > 0 ? 'ambiguous' : 'no_exact_match', exactMatches));
     return null;
   }
+
+  private toConflict(player: PlayerDocument, reason: NameConflictReason, matches: MySportsFeedsPlayer[]): NameConflict {
+    return {
+      playerId: player.id,
+      mlbId: player.mlbId,
+      playerName: player.name,
+      team: player.team,
+      position: player.position,
+      reason,
+      matches
+    };
+  }
   
   private getLastName(fullName: string): string {
     const parts = fullName.split(' ');
     return parts.length > 1 ? parts.slice(1).join(' ') : '';
   }
   
+  private getZeroedStats(): NonNullable<PlayerDocument['stats']> {
+    return {
+      batting: {
+        battingAvg: 0,
+        onBasePercentage: 0,
+        sluggingPercentage: 0,
+        plateAppearances: 0,
+        hits: 0,
+        atBats: 0,
+        walks: 0,
+        hitByPitch: 0,
+        sacrificeFlies: 0,
+        totalBases: 0
+      },
+      pitching: {
+        earnedRunAvg: 0,
+        inningsPitched: 0,
+        earnedRuns: 0
+      }
+    };
+  }
+
   public getConflicts(): NameConflict[] {
     return this.nameConflicts;
   }
+
+  // Start a new enrichment pass; conflicts are collected per pass
+  public clearConflicts(): void {
+    this.nameConflicts = [];
+  }
   
-  public async enrichPlayerData(player: PlayerDocument, playerMaps?: PlayerMaps): Promise<PlayerDocument> {
+  public async enrichPlayerData(player: PlayerDocument, playerMaps?: PlayerMaps, overrides?: Map<string, string>): Promise<PlayerDocument> {
     try {
       if (!playerMaps) {
         console.log('No player maps provided, skipping enrichment');
         return player;
       }
 
-      const matchedPlayer = this.findBestPlayerMatch(player, playerMaps);
+      const matchedPlayer = this.findBestPlayerMatch(player, playerMaps, overrides);
+      if (!matchedPlayer && this.nameConflicts.some(conflict => conflict.playerId === player.id)) {
+        // Keep the last known data rather than zeroing it until an admin picks the right player
+        return player;
+      }
       if (matchedPlayer) {
         // Check if player has any stats for the current season (minimum 1 PA or 1 IP)
         const hasBattingStats = matchedPlayer.stats?.batting?.plateAppearances >= 1;
@@ -298,18 +372,7 @@ export class MySportsFeedsService {
             position: matchedPlayer.player.primaryPosition,
             team: matchedPlayer.player.currentTeam.abbreviation,
             teamId: matchedPlayer.player.currentTeam.id,
-            stats: {
-              batting: {
-                battingAvg: 0,
-                onBasePercentage: 0,
-                sluggingPercentage: 0,
-                plateAppearances: 0
-              },
-              pitching: {
-                earnedRunAvg: 0,
-                inningsPitched: 0
-              }
-            }
+            stats: this.getZeroedStats()
           };
         }
 
@@ -324,11 +387,19 @@ export class MySportsFeedsService {
               battingAvg: matchedPlayer.stats.batting.battingAvg || 0,
               onBasePercentage: matchedPlayer.stats.batting.batterOnBasePct || 0,
               sluggingPercentage: matchedPlayer.stats.batting.batterSluggingPct || 0,
-              plateAppearances: matchedPlayer.stats.batting.plateAppearances || 0
+              plateAppearances: matchedPlayer.stats.batting.plateAppearances || 0,
+              // Counting stats for PA/IP-weighted team projections
+              hits: matchedPlayer.stats.batting.hits || 0,
+              atBats: matchedPlayer.stats.batting.atBats || 0,
+              walks: matchedPlayer.stats.batting.batterWalks || 0,
+              hitByPitch: matchedPlayer.stats.batting.batterHitByPitch || 0,
+              sacrificeFlies: matchedPlayer.stats.batting.batterSacrificeFlies || 0,
+              totalBases: matchedPlayer.stats.batting.totalBases || 0
             },
             pitching: {
               earnedRunAvg: matchedPlayer.stats.pitching.earnedRunAvg || 0,
-              inningsPitched: matchedPlayer.stats.pitching.inningsPitched || 0
+              inningsPitched: matchedPlayer.stats.pitching.inningsPitched || 0,
+              earnedRuns: matchedPlayer.stats.pitching.earnedRunsAllowed || 0
             }
           }
         };
@@ -338,46 +409,23 @@ export class MySportsFeedsService {
       console.log(`No match found for ${player.name} in player maps, zeroing stats`);
       return {
         ...player,
-        stats: {
-          batting: {
-            battingAvg: 0,
-            onBasePercentage: 0,
-            sluggingPercentage: 0,
-            plateAppearances: 0
-          },
-          pitching: {
-            earnedRunAvg: 0,
-            inningsPitched: 0
-          }
-        }
+        stats: this.getZeroedStats()
       };
     } catch (error) {
       console.error(`Error enriching player data for ${player.name}:`, error);
       // On error, zero out stats to be safe
       return {
         ...player,
-        stats: {
-          batting: {
-            battingAvg: 0,
-            onBasePercentage: 0,
-            sluggingPercentage: 0,
-            plateAppearances: 0
-          },
-          pitching: {
-            earnedRunAvg: 0,
-            inningsPitched: 0
-          }
-        }
+        stats: this.getZeroedStats()
       };
     }
   }
 
   public async updateTeamGamesPlayed(teamAbbr: string): Promise<TeamStats | null> {
     try {
-      await this.waitForRateLimit();
-      
       console.log(`Fetching team stats for ${teamAbbr} from MySportsFeeds API...`);
-      const response = await axios.get(`${this.API_BASE_URL}/${this.SEASON}/team_stats_totals.json`, {
+      const response = await this.http.request<{ teamStatsTotals?: TeamStatsResponse[] }>({
+        url: `${this.API_BASE_URL}/${this.SEASON}/team_stats_totals.json`,
         headers: {
           'Authorization': this.getAuthHeader(),
           'Accept': 'application/json'
@@ -423,16 +471,49 @@ export class MySportsFeedsService {
       return null;
     }
   }
-}
 
-const msfService = MySportsFeedsService.getInstance();
-const conflicts = msfService.getConflicts();
+  /**
+   * Fetch games played for every club in a single request.
+   */
+  public async fetchAllTeamGamesPlayed(): Promise<TeamStats[]> {
+    try {
+      console.log('Fetching team stats for all teams from MySportsFeeds API...');
+      const response = await this.http.request<{ teamStatsTotals?: TeamStatsResponse[] }>({
+        url: `${this.API_BASE_URL}/${this.SEASON}/team_stats_totals.json`,
+        headers: {
+          'Authorization': this.getAuthHeader(),
+          'Accept': 'application/json'
+        },
+        params: {
+          force: true
+        }
+      });
+
+      const teams: TeamStatsResponse[] = response.data.teamStatsTotals || [];
+      console.log(`Retrieved team stats for ${teams.length} teams`);
 
-console.log('Name conflicts that need manual resolution:');
-conflicts.forEach(conflict => {
-  console.log(`\nPlayer: ${conflict.playerName}`);
-  console.log('Possible matches:');
-  conflict.matches.forEach(match => {
-    console.log(`- ${match.player.firstName} ${match.player.lastName} (${match.player.primaryPosition}, ${match.player.currentTeam.abbreviation})`);
-  });
-});
\ No newline at end of file
+      return teams.map(teamData => {
+        const wins = teamData.stats?.standings?.wins || 0;
+        const losses = teamData.stats?.standings?.losses || 0;
+        return {
+          team: teamData.team.abbreviation,
+          name: `${teamData.team.city} ${teamData.team.name}`.trim(),
+          msfTeamId: String(teamData.team.id),
+          gamesPlayed: wins + losses,
+          wins,
+          losses,
+          lastUpdated: new Date()
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching team games played for all teams:', error);
+      if (axios.isAxiosError(error)) {
+        console.error('API Error details:', {
+          status: error.response?.status,
+          data: error.response?.data
+        });
+      }
+      return [];
+    }
+  }
+}
@@ -0,0 +1,224 @@
+// src/services/mysportsfeeds/nameConflictService.ts
+import mongoose from 'mongoose';
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import {
+  NameConflictCandidate,
+  NameConflictReason,
+  NameConflictStatus,
+  PlayerNameConflict,
+  PlayerNameConflictDocument
+} from '@/models/playerNameConflictModel';
+import { PlayerIdentityOverride, PlayerIdentityOverrideDocument } from '@/models/playerIdentityOverrideModel';
+import { MAX_CONFLICT_CANDIDATES, PLAYER_CANDIDATE_WEIGHTS, PLAYER_NAME_CANDIDATE_THRESHOLD } from '@/config/matchingConfig';
+import { nameSimilarity, normalizePlayerName } from '@/services/walkupSongs/nameMatching';
+import type { MySportsFeedsPlayer, NameConflict } from './mysportsfeedsService';
+
+// Conflict as shown on the admin conflicts page
+export interface NameConflictSummary {
+  id: string;
+  playerId: string;
+  mlbId: string;
+  playerName: string;
+  team: string;
+  position: string;
+  reason: NameConflictReason;
+  candidates: NameConflictCandidate[];
+  status: NameConflictStatus;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolvedMsfPlayerId: string | null;
+}
+
+export type NameConflictResolution =
+  | { status: 'resolved' | 'dismissed'; conflict: NameConflictSummary }
+  | { status: 'not_found' }
+  | { status: 'invalid_candidate' }; // The chosen player isn't one of the conflict's candidates
+
+const sameValue = (a: string | undefined, b: string | undefined) =>
+  !!a && !!b && a !== 'Unknown' && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Suggested MySportsFeeds players for a conflict, best first. Ambiguous conflicts rank the
+ * players sharing the name; unmatched players get anyone whose name is close enough.
+ */
+export function rankConflictCandidates(conflict: NameConflict, allPlayers: MySportsFeedsPlayer[]): NameConflictCandidate[] {
+  const playerName = normalizePlayerName(conflict.playerName);
+  const pool = conflict.matches.length > 0 ? conflict.matches : allPlayers;
+
+  const candidates: NameConflictCandidate[] = [];
+  for (const msfPlayer of pool) {
+    const name = `${msfPlayer.player.firstName || ''} ${msfPlayer.player.lastName || ''}`.trim();
+    const nameScore = nameSimilarity(playerName, normalizePlayerName(name));
+    if (conflict.matches.length === 0 && nameScore < PLAYER_NAME_CANDIDATE_THRESHOLD) continue;
+
+    const team = msfPlayer.player.currentTeam?.abbreviation || '';
+    const position = msfPlayer.player.primaryPosition || '';
+    const teamMatch = sameValue(conflict.team, team);
+    const positionMatch = sameValue(conflict.position, position);
+    const score = PLAYER_CANDIDATE_WEIGHTS.NAME * nameScore
+      + (teamMatch ? PLAYER_CANDIDATE_WEIGHTS.TEAM : 0)
+      + (positionMatch ? PLAYER_CANDIDATE_WEIGHTS.POSITION : 0);
+
+    candidates.push({
+      msfPlayerId: String(msfPlayer.player.id),
+      name,
+      position,
+      team,
+      nameScore: Math.round(nameScore * 1000) / 1000,
+      teamMatch,
+      positionMatch,
+      score: Math.round(score * 1000) / 1000
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CONFLICT_CANDIDATES);
+}
+
+/**
+ * Players stats enrichment couldn't match to MySportsFeeds by name, and the admin-chosen
+ * mlbId -> MySportsFeeds player overrides that settle them for every later run.
+ */
+export class NameConflictService {
+  private static instance: NameConflictService;
+
+  private constructor() {}
+
+  public static getInstance(): NameConflictService {
+    if (!NameConflictService.instance) {
+      NameConflictService.instance = new NameConflictService();
+    }
+    return NameConflictService.instance;
+  }
+
+  /**
+   * MySportsFeeds player ID to use for each overridden mlbId.
+   */
+  public async loadOverrides(): Promise<Map<string, string>> {
+    await ensureMongoConnection('NameConflictService');
+    const overrides: PlayerIdentityOverrideDocument[] = await PlayerIdentityOverride.find({});
+    return new Map(overrides.map(override => [override.mlbId, override.msfPlayerId]));
+  }
+
+  /**
+   * Save the conflicts from one enrichment pass with ranked candidates. Dismissed conflicts
+   * stay dismissed, resolved ones that come back are reopened, and open ones the pass no
+   * longer reports are removed. Unmatched players without any close candidate aren't kept.
+   * @returns The number of conflicts saved from this pass
+   */
+  public async recordConflicts(conflicts: NameConflict[], allPlayers: MySportsFeedsPlayer[]): Promise<number> {
+    await ensureMongoConnection('NameConflictService');
+    const now = new Date();
+
+    const ranked = conflicts
+      .map(conflict => ({ conflict, candidates: rankConflictCandidates(conflict, allPlayers) }))
+      .filter(({ candidates }) => candidates.length > 0);
+    const playerIds = ranked.map(({ conflict }) => conflict.playerId);
+
+    if (ranked.length > 0) {
+      await PlayerNameConflict.bulkWrite(ranked.map(({ conflict, candidates }) => ({
+        updateOne: {
+          filter: { playerId: conflict.playerId },
+          update: {
+            $set: {
+              mlbId: conflict.mlbId,
+              playerName: conflict.playerName,
+              team: conflict.team,
+              position: conflict.position,
+              reason: conflict.reason,
+              candidates,
+              lastSeenAt: now
+            },
+            $setOnInsert: { status: 'open', firstSeenAt: now }
+          },
+          upsert: true
+        }
+      })));
+      // A resolved conflict only comes back if its override no longer applies, e.g. a new mlbId
+      await PlayerNameConflict.updateMany(
+        { playerId: { $in: playerIds }, status: 'resolved' },
+        { $set: { status: 'open' }, $unset: { resolvedAt: '', resolvedBy: '', resolvedMsfPlayerId: '' } }
+      );
+    }
+    await PlayerNameConflict.deleteMany({ status: 'open', playerId: { $nin: playerIds } });
+
+    console.log(`NameConflictService: Recorded ${ranked.length} name conflicts.`);
+    return ranked.length;
+  }
+
+  public async listConflicts(status: NameConflictStatus = 'open'): Promise<NameConflictSummary[]> {
+    await ensureMongoConnection('NameConflictService');
+    const conflicts: PlayerNameConflictDocument[] = await PlayerNameConflict.find({ status }).sort({ playerName: 1 });
+    return conflicts.map(toSummary);
+  }
+
+  /**
+   * Map the conflict's player to one of its candidates. The mapping is saved as an override
+   * for the player's mlbId, so later enrichment runs use it instead of matching by name.
+   */
+  public async resolveConflict(conflictId: string, msfPlayerId: string, adminId: string): Promise<NameConflictResolution> {
+    const conflict = await this.findConflict(conflictId);
+    if (!conflict) return { status: 'not_found' };
+    if (!conflict.candidates.some(candidate => candidate.msfPlayerId === msfPlayerId)) {
+      return { status: 'invalid_candidate' };
+    }
+
+    await PlayerIdentityOverride.findOneAndUpdate(
+      { mlbId: conflict.mlbId },
+      { $set: { msfPlayerId, playerName: conflict.playerName, createdBy: adminId, createdAt: new Date() } },
+      { upsert: true }
+    );
+    conflict.set({ status: 'resolved', resolvedAt: new Date(), resolvedBy: adminId, resolvedMsfPlayerId: msfPlayerId });
+    await conflict.save();
+    console.log(`NameConflictService: ${adminId} mapped ${conflict.playerName} (${conflict.mlbId}) to MySportsFeeds player ${msfPlayerId}.`);
+    return { status: 'resolved', conflict: toSummary(conflict) };
+  }
+
+  /**
+   * Mark a conflict as not worth resolving, e.g. a player MySportsFeeds doesn't cover.
+   * The player keeps being matched by name.
+   */
+  public async dismissConflict(conflictId: string, adminId: string): Promise<NameConflictResolution> {
+    const conflict = await this.findConflict(conflictId);
+    if (!conflict) return { status: 'not_found' };
+
+    conflict.set({ status: 'dismissed', resolvedAt: new Date(), resolvedBy: adminId });
+    await conflict.save();
+    return { status: 'dismissed', conflict: toSummary(conflict) };
+  }
+
+  private async findConflict(conflictId: string): Promise<PlayerNameConflictDocument | null> {
+    if (!mongoose.isValidObjectId(conflictId)) return null;
+    await ensureMongoConnection('NameConflictService');
+    return PlayerNameConflict.findById(conflictId);
+  }
+}
+
+function toSummary(conflict: PlayerNameConflictDocument): NameConflictSummary {
+  return {
+    id: conflict.id,
+    playerId: conflict.playerId,
+    mlbId: conflict.mlbId,
+    playerName: conflict.playerName,
+    team: conflict.team,
+    position: conflict.position,
+    reason: conflict.reason,
+    candidates: conflict.candidates.map(candidate => ({
+      msfPlayerId: candidate.msfPlayerId,
+      name: candidate.name,
+      position: candidate.position,
+      team: candidate.team,
+      nameScore: candidate.nameScore,
+      teamMatch: candidate.teamMatch,
+      positionMatch: candidate.positionMatch,
+      score: candidate.score
+    })),
+    status: conflict.status,
+    firstSeenAt: conflict.firstSeenAt.toISOString(),
+    lastSeenAt: conflict.lastSeenAt.toISOString(),
+    resolvedAt: conflict.resolvedAt?.toISOString() ?? null,
+    resolvedBy: conflict.resolvedBy ?? null,
+    resolvedMsfPlayerId: conflict.resolvedMsfPlayerId ?? null
+  };
+}
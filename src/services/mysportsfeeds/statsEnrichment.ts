@@ -0,0 +1,142 @@
+// src/services/mysportsfeeds/statsEnrichment.ts
+import { Player } from '@/models/playerModel';
+import { TeamStatsModel } from '@/models/teamStatsModel';
+import { MySportsFeedsService } from './mysportsfeedsService';
+import { NameConflictService } from './nameConflictService';
+
+// Expected number of MLB clubs; fewer usually means a partial API response
+const EXPECTED_TEAM_COUNT = 30;
+
+export interface PlayerStatsEnrichmentSummary {
+  totalPlayers: number;
+  successfulUpdates: number;
+  failedUpdates: number;
+  skippedUpdates: number;
+  notFoundInAPI: number;
+  nameConflicts: number; // Players left for an admin to match on the conflicts page
+}
+
+/**
+ * Refresh every player's position, team and season stats from MySportsFeeds, using
+ * admin-chosen identity overrides before name matching and saving the players that
+ * couldn't be matched as name conflicts. Expects an open MongoDB connection; throws
+ * if the MySportsFeeds fetch fails.
+ */
+export async function enrichPlayerStats(): Promise<PlayerStatsEnrichmentSummary> {
+  const msfService = MySportsFeedsService.getInstance();
+  const conflictService = NameConflictService.getInstance();
+  msfService.clearConflicts();
+  const overrides = await conflictService.loadOverrides();
+
+  // Get all players from MongoDB
+  const players = await Player.find({});
+  console.log(`statsEnrichment: Found ${players.length} players to enrich`);
+
+  // Fetch ALL player data in a single API call
+  console.log('statsEnrichment: Fetching all player data from MySportsFeeds API in a single request...');
+  const playerMaps = await msfService.fetchAllPlayerData();
+  if (playerMaps.allPlayers.length === 0) {
+    // fetchAllPlayerData returns empty maps on failure; updating against them would mark everyone unmatched
+    throw new Error('No player data received from MySportsFeeds');
+  }
+  console.log(`statsEnrichment: Retrieved data for ${playerMaps.allPlayers.length} players`);
+
+  const summary: PlayerStatsEnrichmentSummary = {
+    totalPlayers: players.length,
+    successfulUpdates: 0,
+    failedUpdates: 0,
+    skippedUpdates: 0,
+    notFoundInAPI: 0,
+    nameConflicts: 0
+  };
+
+  // Process all players using name-based matching
+  for (const player of players) {
+    try {
+      const enrichedPlayer = await msfService.enrichPlayerData(player, playerMaps, overrides);
+
+      // Check if data actually changed
+      const hasChanges =
+        enrichedPlayer.position !== player.position ||
+        enrichedPlayer.team !== player.team ||
+        enrichedPlayer.teamId !== player.teamId ||
+        JSON.stringify(enrichedPlayer.stats) !== JSON.stringify(player.stats);
+
+      if (hasChanges) {
+        const result = await Player.updateOne(
+          { id: player.id },
+          {
+            $set: {
+              position: enrichedPlayer.position,
+              team: enrichedPlayer.team,
+              teamId: enrichedPlayer.teamId,
+              stats: enrichedPlayer.stats,
+              lastUpdated: new Date()
+            }
+          }
+        );
+
+        if (result.modifiedCount > 0) {
+          summary.successfulUpdates++;
+        } else {
+          summary.skippedUpdates++;
+        }
+      } else {
+        summary.skippedUpdates++;
+      }
+
+      // If the player wasn't found in the name matching
+      if (enrichedPlayer.position === player.position && player.position === 'Unknown') {
+        console.log(`statsEnrichment: Player ${player.name} not matched in MySportsFeeds data`);
+        summary.notFoundInAPI++;
+      }
+    } catch (error) {
+      console.error(`statsEnrichment: Error processing player ${player.name}:`, error);
+      summary.failedUpdates++;
+    }
+  }
+
+  summary.nameConflicts = await conflictService.recordConflicts(msfService.getConflicts(), playerMaps.allPlayers);
+  console.log('statsEnrichment: Player data enrichment completed', summary);
+  return summary;
+}
+
+/**
+ * Refresh games played and records for every club, used to validate each player
+ * against their own team's schedule. Expects an open MongoDB connection.
+ * @returns The number of teams updated
+ */
+export async function refreshTeamStats(): Promise<number> {
+  const msfService = MySportsFeedsService.getInstance();
+  const allTeamStats = await msfService.fetchAllTeamGamesPlayed();
+
+  if (allTeamStats.length === 0) {
+    throw new Error('No team stats received from MySportsFeeds');
+  }
+  if (allTeamStats.length < EXPECTED_TEAM_COUNT) {
+    console.warn(`statsEnrichment: Only received stats for ${allTeamStats.length} of ${EXPECTED_TEAM_COUNT} teams`);
+  }
+
+  for (const teamStats of allTeamStats) {
+    // teamId stays the lowercase abbreviation, matching existing records (e.g. 'det')
+    const teamId = teamStats.team.toLowerCase();
+    await TeamStatsModel.findOneAndUpdate(
+      { teamId },
+      {
+        teamId,
+        team: teamStats.team,
+        name: teamStats.name,
+        msfTeamId: teamStats.msfTeamId,
+        gamesPlayed: teamStats.gamesPlayed,
+        wins: teamStats.wins,
+        losses: teamStats.losses,
+        lastUpdated: new Date()
+      },
+      { upsert: true, new: true }
+    );
+    console.log(`- ${teamStats.team}: ${teamStats.gamesPlayed} games played (${teamStats.wins}-${teamStats.losses})`);
+  }
+
+  console.log(`statsEnrichment: Successfully updated team stats for ${allTeamStats.length} teams`);
+  return allTeamStats.length;
+}
@@ -0,0 +1,12 @@
+// src/services/spotify/exportPlaylist.ts
+
+// Every playlist the app exports is named with this prefix and the team name
+export const EXPORT_PLAYLIST_PREFIX = 'WalkUp Match – ';
+
+export const playlistNameFor = (teamName: string) => `${EXPORT_PLAYLIST_PREFIX}${teamName}`;
+
+/**
+ * True for a playlist the app exported itself. Its tracks are an earlier team, not the user's taste.
+ */
+export const isExportPlaylist = (playlist: { name: string; ownerId: string }, userId: string) =>
+  playlist.ownerId === userId && playlist.name.startsWith(EXPORT_PLAYLIST_PREFIX);
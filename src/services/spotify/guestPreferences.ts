@@ -0,0 +1,87 @@
+// src/services/spotify/guestPreferences.ts
+import { SpotifyGenreSummary, SpotifyTopItem } from './spotifyService';
+import { SpotifySnapshot } from './spotifyDataSource';
+
+// Favorites a guest picked through autocomplete instead of connecting Spotify
+export interface GuestSelections {
+  artists: Array<{ name: string; spotifyId?: string }>;
+  songs: Array<{ name: string; artistName: string; spotifyId?: string }>;
+  genres: string[];
+}
+
+const MAX_SELECTIONS_PER_TYPE = 25;
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/**
+ * Validate guest selections from a request body.
+ */
+export function parseGuestSelections(body: unknown): { selections: GuestSelections } | { error: string } {
+  const { artists = [], songs = [], genres = [] } = (body ?? {}) as Partial<Record<keyof GuestSelections, unknown>>;
+  if (!Array.isArray(artists) || !Array.isArray(songs) || !Array.isArray(genres)) {
+    return { error: 'artists, songs and genres must be arrays' };
+  }
+  if (artists.length + songs.length + genres.length === 0) {
+    return { error: 'Pick at least one artist, song or genre' };
+  }
+  if ([artists, songs, genres].some(list => list.length > MAX_SELECTIONS_PER_TYPE)) {
+    return { error: `Pick at most ${MAX_SELECTIONS_PER_TYPE} of each` };
+  }
+  if (!artists.every(artist => typeof artist?.name === 'string' && isOptionalString(artist.spotifyId))) {
+    return { error: 'Each artist needs a name' };
+  }
+  if (!songs.every(song => typeof song?.name === 'string' && typeof song.artistName === 'string' && isOptionalString(song.spotifyId))) {
+    return { error: 'Each song needs a name and artistName' };
+  }
+  if (!genres.every(genre => typeof genre === 'string')) {
+    return { error: 'Genres must be strings' };
+  }
+  return { selections: { artists, songs, genres } };
+}
+
+/**
+ * Convert guest selections into the snapshot shape the matcher consumes. Picks are ranked
+ * in the order given and treated as medium-term favorites, Spotify's default top range.
+ * Picked genres count fully; genres of picked artists are weighted like SpotifyService.getUserGenres.
+ */
+export function buildSnapshotFromGuestSelections(
+  selections: GuestSelections,
+  lookups: {
+    resolveArtistId?: (name: string) => string | undefined;
+    getArtistGenres?: (spotifyId: string) => string[];
+  } = {}
+): SpotifySnapshot {
+  const resolveArtistId = lookups.resolveArtistId ?? (() => undefined);
+  const getArtistGenres = lookups.getArtistGenres ?? (() => []);
+
+  const topArtists: SpotifyTopItem[] = selections.artists.map(artist => {
+    const id = artist.spotifyId || resolveArtistId(artist.name) || '';
+    return { id, name: artist.name, type: 'artist', genres: id ? getArtistGenres(id) : [] };
+  });
+  const topTracks: SpotifyTopItem[] = selections.songs.map(song => ({
+    id: song.spotifyId || '',
+    name: song.name,
+    type: 'track',
+    artists: [{ id: resolveArtistId(song.artistName) || '', name: song.artistName }]
+  }));
+
+  const genreMap = new Map<string, SpotifyGenreSummary>();
+  topArtists.forEach(artist => {
+    artist.genres?.forEach(name => {
+      const count = (genreMap.get(name)?.count || 0) + 1;
+      genreMap.set(name, { name, count, weight: count / topArtists.length });
+    });
+  });
+  selections.genres.forEach(name => {
+    genreMap.set(name, { name, count: (genreMap.get(name)?.count || 0) + 1, weight: 1 });
+  });
+
+  return {
+    recordedAt: new Date().toISOString(),
+    genres: Array.from(genreMap.values()).sort((a, b) => b.weight - a.weight || b.count - a.count),
+    topTracks: { short_term: [], medium_term: topTracks, long_term: [] },
+    topArtists: { short_term: [], medium_term: topArtists, long_term: [] },
+    savedTracks: [],
+    likedTrackIds: []
+  };
+}
@@ -0,0 +1,145 @@
+// src/services/spotify/spotifyDataSource.ts
+import fs from 'fs/promises';
+import { SpotifyGenreSummary, SpotifyPlaylistTrack, SpotifySavedAlbum, SpotifyTopItem } from './spotifyService';
+import type { MatchingReferenceData } from '../walkupSongs/matchingReferenceData';
+
+export interface SpotifyItemsByTimeFrame {
+  short_term: SpotifyTopItem[];
+  medium_term: SpotifyTopItem[];
+  long_term: SpotifyTopItem[];
+  recent?: SpotifyTopItem[]; // Ranked by decayed recent plays; missing in older snapshots
+}
+
+/**
+ * Everything the team matcher needs to know about a Spotify user.
+ * SpotifyService is the live implementation; FixtureSpotifyDataSource replays a recorded snapshot.
+ */
+export interface SpotifyDataSource {
+  getUserGenres(): Promise<SpotifyGenreSummary[]>;
+  getAllTopTracks(): Promise<SpotifyItemsByTimeFrame>;
+  getAllTopArtists(): Promise<SpotifyItemsByTimeFrame>;
+  getSavedTracks(limit?: number): Promise<SpotifyTopItem[]>;
+  getSavedAlbums(maxItems?: number): Promise<SpotifySavedAlbum[]>;
+  getFollowedArtists(maxItems?: number): Promise<SpotifyTopItem[]>;
+  getUserPlaylistTracks(): Promise<SpotifyPlaylistTrack[]>;
+  checkSavedTracks(trackIds: string[]): Promise<boolean[]>;
+  getDefaultAlbumArt(): string;
+}
+
+/**
+ * JSON snapshot of a user's Spotify data, as written by the record-spotify-snapshot script.
+ */
+export interface SpotifySnapshot {
+  recordedAt: string;
+  genres: SpotifyGenreSummary[];
+  topTracks: SpotifyItemsByTimeFrame;
+  topArtists: SpotifyItemsByTimeFrame;
+  savedTracks: SpotifyTopItem[];
+  savedAlbums?: SpotifySavedAlbum[]; // Missing in snapshots recorded before saved albums were matched
+  followedArtists?: SpotifyTopItem[];
+  playlistTracks?: SpotifyPlaylistTrack[];
+  likedTrackIds: string[]; // Walkup song IDs the user had liked when recorded
+  reference?: MatchingReferenceData; // Stored matching data at record time; needed to replay without Mongo
+}
+
+const DEFAULT_ALBUM_ART = 'https://i.scdn.co/image/ab67616d00001e02ff9ca10b55ce82ae553c8228';
+
+/**
+ * Serves Spotify data from a recorded snapshot so team generation can run offline.
+ */
+export class FixtureSpotifyDataSource implements SpotifyDataSource {
+  private likedTrackIds: Set<string>;
+
+  constructor(private snapshot: SpotifySnapshot) {
+    this.likedTrackIds = new Set(snapshot.likedTrackIds || []);
+  }
+
+  /**
+   * Load a snapshot from a JSON file on disk
+   */
+  static async fromFile(filePath: string): Promise<FixtureSpotifyDataSource> {
+    const contents = await fs.readFile(filePath, 'utf-8');
+    return new FixtureSpotifyDataSource(JSON.parse(contents) as SpotifySnapshot);
+  }
+
+  async getUserGenres(): Promise<SpotifyGenreSummary[]> {
+    return this.snapshot.genres;
+  }
+
+  async getAllTopTracks(): Promise<SpotifyItemsByTimeFrame> {
+    return this.snapshot.topTracks;
+  }
+
+  async getAllTopArtists(): Promise<SpotifyItemsByTimeFrame> {
+    return this.snapshot.topArtists;
+  }
+
+  async getSavedTracks(limit = 50): Promise<SpotifyTopItem[]> {
+    return this.snapshot.savedTracks.slice(0, limit);
+  }
+
+  async getSavedAlbums(maxItems = 200): Promise<SpotifySavedAlbum[]> {
+    return (this.snapshot.savedAlbums || []).slice(0, maxItems);
+  }
+
+  async getFollowedArtists(maxItems = 200): Promise<SpotifyTopItem[]> {
+    return (this.snapshot.followedArtists || []).slice(0, maxItems);
+  }
+
+  async getUserPlaylistTracks(): Promise<SpotifyPlaylistTrack[]> {
+    return this.snapshot.playlistTracks || [];
+  }
+
+  async checkSavedTracks(trackIds: string[]): Promise<boolean[]> {
+    return trackIds.map(id => this.likedTrackIds.has(id));
+  }
+
+  getDefaultAlbumArt(): string {
+    return DEFAULT_ALBUM_ART;
+  }
+
+  /**
+   * Matching reference data recorded with the snapshot. Throws for snapshots recorded
+   * without it, so an offline replay can't silently fall back to reading Mongo.
+   */
+  getReferenceData(): MatchingReferenceData {
+    if (!this.snapshot.reference) {
+      throw new Error('Snapshot has no matching reference data (team stats, genre graph, artists); re-record it with `npm run record-spotify-snapshot`');
+    }
+    return this.snapshot.reference;
+  }
+}
+
+/**
+ * Record a snapshot from any data source. Liked status is only recorded for the
+ * given track IDs, so pass every walkup song Spotify ID the matcher will check.
+ */
+export async function recordSpotifySnapshot(
+  source: SpotifyDataSource,
+  trackIdsToCheck: string[]
+): Promise<SpotifySnapshot> {
+  const [genres, topTracks, topArtists, savedTracks, savedAlbums, followedArtists, playlistTracks] = await Promise.all([
+    source.getUserGenres(),
+    source.getAllTopTracks(),
+    source.getAllTopArtists(),
+    source.getSavedTracks(50),
+    source.getSavedAlbums(),
+    source.getFollowedArtists(),
+    source.getUserPlaylistTracks()
+  ]);
+
+  const likedStatus = await source.checkSavedTracks(trackIdsToCheck);
+  const likedTrackIds = trackIdsToCheck.filter((_, index) => likedStatus[index]);
+
+  return {
+    recordedAt: new Date().toISOString(),
+    genres,
+    topTracks,
+    topArtists,
+    savedTracks,
+    savedAlbums,
+    followedArtists,
+    playlistTracks,
+    likedTrackIds
+  };
+}
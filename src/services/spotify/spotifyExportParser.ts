@@ -0,0 +1,190 @@
+// src/services/spotify/spotifyExportParser.ts
+import { SpotifyGenreSummary, SpotifyTopItem } from './spotifyService';
+import { SpotifyItemsByTimeFrame, SpotifySnapshot } from './spotifyDataSource';
+import { normalizeArtistName, normalizeSongTitle } from '@/services/walkupSongs/nameMatching';
+
+// Entry in the account data export's StreamingHistory*.json (one year, no track IDs)
+interface StreamingHistoryEntry {
+  endTime: string; // "2023-01-15 18:32", UTC
+  artistName: string;
+  trackName: string;
+  msPlayed: number;
+}
+
+// Entry in the extended streaming history's endsong_*.json / Streaming_History_Audio_*.json
+interface ExtendedStreamingHistoryEntry {
+  ts: string; // ISO timestamp the stream ended
+  ms_played: number;
+  master_metadata_track_name: string | null; // Null for podcast episodes
+  master_metadata_album_artist_name: string | null;
+  master_metadata_album_album_name: string | null;
+  spotify_track_uri: string | null;
+}
+
+// A single play of a music track from either export format
+export interface SpotifyExportPlay {
+  playedAt: Date;
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+  trackId?: string;
+  msPlayed: number;
+}
+
+// Spotify only counts a stream after 30 seconds; shorter plays are skips
+const MIN_PLAY_MS = 30 * 1000;
+const SHORT_TERM_DAYS = 28;
+const MEDIUM_TERM_DAYS = 182;
+// Deeper than the live top-50 lists; the export covers years of listening
+const MAX_ITEMS_PER_TIME_FRAME = 200;
+const GENRE_SOURCE_ARTISTS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPORT_FILE_PATTERNS = [/StreamingHistory.*\.json$/i, /endsong_.*\.json$/i, /Streaming_History_Audio.*\.json$/i];
+
+/**
+ * Parse one file from a Spotify account data export into music plays.
+ * Podcast episodes and plays under 30 seconds are dropped.
+ */
+export function parseSpotifyExportFile(
+  fileName: string,
+  entries: unknown
+): { plays: SpotifyExportPlay[] } | { error: string } {
+  if (!EXPORT_FILE_PATTERNS.some(pattern => pattern.test(fileName))) {
+    return { error: `${fileName} is not a Spotify streaming history file` };
+  }
+  if (!Array.isArray(entries)) {
+    return { error: `${fileName} must contain a JSON array` };
+  }
+
+  const plays: SpotifyExportPlay[] = [];
+  for (const entry of entries) {
+    const play = isExtendedEntry(entry) ? fromExtendedEntry(entry)
+      : isStreamingHistoryEntry(entry) ? fromStreamingHistoryEntry(entry)
+      : null;
+    if (play && play.msPlayed >= MIN_PLAY_MS && !isNaN(play.playedAt.getTime())) {
+      plays.push(play);
+    }
+  }
+  return { plays };
+}
+
+/**
+ * Aggregate export plays into the snapshot shape the matcher consumes. Tracks and artists
+ * are ranked by total ms played over the last 4 weeks, 6 months and all time, counted back
+ * from the export's latest play, and carry their play count and ms played.
+ * Artist IDs and genres come from the given lookups, since the export has neither.
+ */
+export function buildSnapshotFromExport(
+  plays: SpotifyExportPlay[],
+  lookups: {
+    resolveArtistId?: (name: string) => string | undefined;
+    getArtistGenres?: (spotifyId: string) => string[];
+  } = {}
+): SpotifySnapshot {
+  const resolveArtistId = lookups.resolveArtistId ?? (() => undefined);
+  const getArtistGenres = lookups.getArtistGenres ?? (() => []);
+  const latestPlay = plays.reduce((latest, play) => Math.max(latest, play.playedAt.getTime()), 0);
+  const playsSince = (days: number) => plays.filter(play => play.playedAt.getTime() > latestPlay - days * DAY_MS);
+
+  const rankTracks = (timeFramePlays: SpotifyExportPlay[]) => rankByMsPlayed(timeFramePlays, play => ({
+    // Keyed by name so plays from files without track URIs merge with those that have them
+    key: `${normalizeSongTitle(play.trackName)}|${normalizeArtistName(play.artistName)}`,
+    item: {
+      id: play.trackId || '',
+      name: play.trackName,
+      type: 'track',
+      album: play.albumName ? { name: play.albumName, images: [] } : undefined,
+      artists: [{ id: resolveArtistId(play.artistName) || '', name: play.artistName }]
+    }
+  }));
+  const rankArtists = (timeFramePlays: SpotifyExportPlay[]) => rankByMsPlayed(timeFramePlays, play => {
+    const id = resolveArtistId(play.artistName) || '';
+    return {
+      key: id || normalizeArtistName(play.artistName),
+      item: { id, name: play.artistName, type: 'artist', genres: id ? getArtistGenres(id) : [] }
+    };
+  });
+
+  const byTimeFrame = (rank: (timeFramePlays: SpotifyExportPlay[]) => SpotifyTopItem[]): SpotifyItemsByTimeFrame => ({
+    short_term: rank(playsSince(SHORT_TERM_DAYS)),
+    medium_term: rank(playsSince(MEDIUM_TERM_DAYS)),
+    long_term: rank(plays)
+  });
+  const topArtists = byTimeFrame(rankArtists);
+
+  return {
+    recordedAt: new Date(latestPlay || Date.now()).toISOString(),
+    genres: summarizeGenres(topArtists.long_term.slice(0, GENRE_SOURCE_ARTISTS)),
+    topTracks: byTimeFrame(rankTracks),
+    topArtists,
+    savedTracks: [],
+    likedTrackIds: []
+  };
+}
+
+function rankByMsPlayed(
+  plays: SpotifyExportPlay[],
+  identify: (play: SpotifyExportPlay) => { key: string; item: SpotifyTopItem }
+): SpotifyTopItem[] {
+  const items = new Map<string, SpotifyTopItem>();
+  plays.forEach(play => {
+    const { key, item } = identify(play);
+    if (!key) return;
+    const existing = items.get(key) ?? { ...item, playCount: 0, msPlayed: 0 };
+    items.set(key, {
+      ...existing,
+      id: existing.id || item.id,
+      album: existing.album || item.album,
+      playCount: (existing.playCount ?? 0) + 1,
+      msPlayed: (existing.msPlayed ?? 0) + play.msPlayed
+    });
+  });
+  return Array.from(items.values())
+    .sort((a, b) => (b.msPlayed ?? 0) - (a.msPlayed ?? 0))
+    .slice(0, MAX_ITEMS_PER_TIME_FRAME);
+}
+
+// Same weighting as SpotifyService.getUserGenres: share of top artists tagged with each genre
+function summarizeGenres(artists: SpotifyTopItem[]): SpotifyGenreSummary[] {
+  const genreMap = new Map<string, number>();
+  artists.forEach(artist => {
+    artist.genres?.forEach(genre => genreMap.set(genre, (genreMap.get(genre) || 0) + 1));
+  });
+  return Array.from(genreMap.entries())
+    .map(([name, count]) => ({ name, count, weight: count / artists.length }))
+    .sort((a, b) => b.count - a.count);
+}
+
+function isStreamingHistoryEntry(entry: unknown): entry is StreamingHistoryEntry {
+  const candidate = entry as Partial<StreamingHistoryEntry> | null;
+  return typeof candidate?.endTime === 'string' && typeof candidate.trackName === 'string' &&
+    typeof candidate.artistName === 'string' && typeof candidate.msPlayed === 'number';
+}
+
+function isExtendedEntry(entry: unknown): entry is ExtendedStreamingHistoryEntry {
+  const candidate = entry as Partial<ExtendedStreamingHistoryEntry> | null;
+  return typeof candidate?.ts === 'string' && typeof candidate.ms_played === 'number';
+}
+
+function fromStreamingHistoryEntry(entry: StreamingHistoryEntry): SpotifyExportPlay | null {
+  if (!entry.trackName || !entry.artistName) return null;
+  return {
+    playedAt: new Date(`${entry.endTime.replace(' ', 'T')}Z`),
+    trackName: entry.trackName,
+    artistName: entry.artistName,
+    msPlayed: entry.msPlayed
+  };
+}
+
+function fromExtendedEntry(entry: ExtendedStreamingHistoryEntry): SpotifyExportPlay | null {
+  if (!entry.master_metadata_track_name || !entry.master_metadata_album_artist_name) return null;
+  return {
+    playedAt: new Date(entry.ts),
+    trackName: entry.master_metadata_track_name,
+    artistName: entry.master_metadata_album_artist_name,
+    albumName: entry.master_metadata_album_album_name || undefined,
+    trackId: entry.spotify_track_uri?.startsWith('spotify:track:') ? entry.spotify_track_uri.slice('spotify:track:'.length) : undefined,
+    msPlayed: entry.ms_played
+  };
+}
@@ -1,5 +1,9 @@
 import SpotifyWebApi from 'spotify-web-api-node';
 import { Session } from 'next-auth';
+import { SpotifyDataSource, SpotifyItemsByTimeFrame } from './spotifyDataSource';
+import { RECENT_PLAY_HALF_LIFE_HOURS } from '@/config/matchingConfig';
+import { CallOptions, HttpClient } from '@/services/http/httpClient';
+import { isExportPlaylist } from './exportPlaylist';
 
 // Types for Spotify data
 export interface SpotifyUserProfile {
@@ -21,6 +25,8 @@ export interface SpotifyTopItem {
   type: 'track' | 'artist';
   images?: SpotifyImage[];
   album?: {
+    id?: string;
+    name?: string;
     images: SpotifyImage[];
   };
   artists?: Array<{
@@ -29,6 +35,24 @@ export interface SpotifyTopItem {
   }>;
   preview_url?: string | null;
   genres?: string[];
+  playWeight?: number; // Decayed recent play count, for items ranked from recently played
+  playCount?: number; // Plays and listening time, for items ranked from a data export
+  msPlayed?: number;
+}
+
+export interface SpotifySavedAlbum {
+  id: string;
+  name: string;
+  artists: Array<{
+    id: string;
+    name: string;
+  }>;
+  images?: SpotifyImage[];
+}
+
+// A track from the user's playlists, with every playlist it appears in
+export interface SpotifyPlaylistTrack extends SpotifyTopItem {
+  playlists: Array<{ id: string; name: string }>;
 }
 
 export interface SpotifyGenreSummary {
@@ -37,12 +61,41 @@ export interface SpotifyGenreSummary {
   weight: number;
 }
 
+const SPOTIFY_API_HOST = 'api.spotify.com';
+
+// Playlist reading is capped so users with huge libraries don't stall team generation
+const MAX_PLAYLISTS = 50;
+const MAX_PLAYLIST_TRACKS = 2000;
+const PLAYLIST_CACHE_TTL_MS = 30 * 60 * 1000;
+const PLAYLIST_CACHE_MAX_USERS = 100;
+
+// Playlist tracks per Spotify user ID, shared across requests in this process.
+// Least recently used first (Map insertion order), so the oldest entry is evicted at the cap.
+const playlistTrackCache = new Map<string, { fetchedAt: number; tracks: SpotifyPlaylistTrack[] }>();
+
+function cachePlaylistTracks(userId: string, tracks: SpotifyPlaylistTrack[]): void {
+  const now = Date.now();
+  playlistTrackCache.forEach((entry, cachedUserId) => {
+    if (now - entry.fetchedAt >= PLAYLIST_CACHE_TTL_MS) playlistTrackCache.delete(cachedUserId);
+  });
+  playlistTrackCache.delete(userId);
+  playlistTrackCache.set(userId, { fetchedAt: now, tracks });
+  while (playlistTrackCache.size > PLAYLIST_CACHE_MAX_USERS) {
+    const oldestUserId = playlistTrackCache.keys().next().value as string;
+    playlistTrackCache.delete(oldestUserId);
+  }
+}
+
 /**
- * Service class for interacting with Spotify API
+ * Service class for interacting with Spotify API.
+ * This is the live SpotifyDataSource used by the matcher.
  */
-export class SpotifyService {
+export class SpotifyService implements SpotifyDataSource {
   private spotifyApi: SpotifyWebApi;
+  private recentlyPlayed: Promise<{ tracks: SpotifyTopItem[]; artists: SpotifyTopItem[] }> | null = null;
   
+  private http = HttpClient.getInstance();
+
   constructor(accessToken: string) {
     this.spotifyApi = new SpotifyWebApi({
       clientId: process.env.SPOTIFY_CLIENT_ID,
@@ -52,6 +105,13 @@ export class SpotifyService {
     this.spotifyApi.setAccessToken(accessToken);
   }
   
+  /**
+   * Call the Web API under the shared rate limit, retrying throttled and failed requests
+   */
+  private call<T>(request: () => Promise<T>, options?: CallOptions): Promise<T> {
+    return this.http.run(SPOTIFY_API_HOST, request, options);
+  }
+
   /**
    * Create a SpotifyService instance from a NextAuth session
    */
@@ -64,7 +124,7 @@ export class SpotifyService {
    * Get the current user's Spotify profile
    */
   async getUserProfile(): Promise<SpotifyUserProfile> {
-    const response = await this.spotifyApi.getMe();
+    const response = await this.call(() => this.spotifyApi.getMe());
     return response.body as SpotifyUserProfile;
   }
   
@@ -72,10 +132,10 @@ export class SpotifyService {
    * Get the user's top tracks
    */
   async getTopTracks(limit = 50, timeRange: 'short_term' | 'medium_term' | 'long_term' = 'medium_term'): Promise<SpotifyTopItem[]> {
-    const response = await this.spotifyApi.getMyTopTracks({
+    const response = await this.call(() => this.spotifyApi.getMyTopTracks({
       limit,
       time_range: timeRange
-    });
+    }));
     
     return response.body.items.map(track => ({
       id: track.id,
@@ -91,10 +151,10 @@ export class SpotifyService {
    * Get the user's top artists
    */
   async getTopArtists(limit = 50, timeRange: 'short_term' | 'medium_term' | 'long_term' = 'medium_term'): Promise<SpotifyTopItem[]> {
-    const response = await this.spotifyApi.getMyTopArtists({
+    const response = await this.call(() => this.spotifyApi.getMyTopArtists({
       limit,
       time_range: timeRange
-    });
+    }));
     
     return response.body.items.map(artist => ({
       id: artist.id,
@@ -137,11 +197,11 @@ export class SpotifyService {
   async createPlaylist(name: string, description: string): Promise<{ id: string; url: string }> {
     const user = await this.getUserProfile();
     
-    const response = await this.spotifyApi.createPlaylist(user.id, {
+    const response = await this.call(() => this.spotifyApi.createPlaylist(user.id, {
       name,
       description,
       public: false
-    } as { name: string; description: string; public: boolean });
+    } as { name: string; description: string; public: boolean }), { idempotent: false });
     
     return {
       id: response.body.id,
@@ -153,16 +213,44 @@ export class SpotifyService {
    * Add tracks to a playlist
    */
   async addTracksToPlaylist(playlistId: string, trackUris: string[]): Promise<void> {
-    await this.spotifyApi.addTracksToPlaylist(playlistId, trackUris);
+    await this.call(() => this.spotifyApi.addTracksToPlaylist(playlistId, trackUris), { idempotent: false });
+  }
+
+  /**
+   * Find a playlist owned by the current user by exact name
+   */
+  async findOwnPlaylistByName(name: string): Promise<{ id: string; url: string } | null> {
+    const user = await this.getUserProfile();
+    const limit = 50;
+
+    for (let offset = 0; ; offset += limit) {
+      const response = await this.call(() => this.spotifyApi.getUserPlaylists({ limit, offset }));
+      const match = response.body.items.find(playlist => playlist.name === name && playlist.owner.id === user.id);
+      if (match) {
+        return { id: match.id, url: match.external_urls.spotify };
+      }
+      if (!response.body.next) return null;
+    }
+  }
+
+  /**
+   * Replace a playlist's tracks in the given order (Spotify accepts 100 URIs per request)
+   */
+  async replacePlaylistTracks(playlistId: string, trackUris: string[]): Promise<void> {
+    const batchSize = 100;
+    await this.call(() => this.spotifyApi.replaceTracksInPlaylist(playlistId, trackUris.slice(0, batchSize)));
+    for (let i = batchSize; i < trackUris.length; i += batchSize) {
+      await this.call(() => this.spotifyApi.addTracksToPlaylist(playlistId, trackUris.slice(i, i + batchSize)), { idempotent: false });
+    }
   }
   
   /**
    * Get the user's saved tracks
    */
   async getSavedTracks(limit = 50): Promise<SpotifyTopItem[]> {
-    const response = await this.spotifyApi.getMySavedTracks({
+    const response = await this.call(() => this.spotifyApi.getMySavedTracks({
       limit
-    });
+    }));
     
     return response.body.items.map(item => ({
       id: item.track.id,
@@ -174,12 +262,141 @@ export class SpotifyService {
     })) as SpotifyTopItem[];
   }
   
+  /**
+   * Get the user's saved albums, following pages until maxItems
+   */
+  async getSavedAlbums(maxItems = 200): Promise<SpotifySavedAlbum[]> {
+    const albums: SpotifySavedAlbum[] = [];
+    const pageSize = 50;
+
+    for (let offset = 0; offset < maxItems; offset += pageSize) {
+      const response = await this.call(() => this.spotifyApi.getMySavedAlbums({
+        limit: Math.min(pageSize, maxItems - offset),
+        offset
+      }));
+      albums.push(...response.body.items.map(item => ({
+        id: item.album.id,
+        name: item.album.name,
+        artists: item.album.artists.map(artist => ({ id: artist.id, name: artist.name })),
+        images: item.album.images
+      })));
+      if (!response.body.next) break;
+    }
+
+    return albums;
+  }
+
+  /**
+   * Get the artists the user follows, following the cursor until maxItems
+   */
+  async getFollowedArtists(maxItems = 200): Promise<SpotifyTopItem[]> {
+    const artists: SpotifyTopItem[] = [];
+    let after: string | undefined;
+
+    while (artists.length < maxItems) {
+      const response = await this.call(() => this.spotifyApi.getFollowedArtists({
+        limit: Math.min(50, maxItems - artists.length),
+        ...(after ? { after } : {})
+      }));
+      const page = response.body.artists;
+      artists.push(...page.items.map(artist => ({
+        id: artist.id,
+        name: artist.name,
+        type: 'artist' as const,
+        images: artist.images,
+        genres: artist.genres
+      })));
+      after = page.cursors?.after ?? undefined;
+      if (!page.next || !after) break;
+    }
+
+    return artists;
+  }
+
+  /**
+   * Get tracks from the playlists the user owns or follows, deduplicated by track ID.
+   * Playlists exported by the app are skipped so a past team doesn't match itself.
+   * Capped at MAX_PLAYLISTS playlists and MAX_PLAYLIST_TRACKS tracks, and cached per user.
+   */
+  async getUserPlaylistTracks(): Promise<SpotifyPlaylistTrack[]> {
+    const { id: userId } = await this.getUserProfile();
+    const cached = playlistTrackCache.get(userId);
+    if (cached && Date.now() - cached.fetchedAt < PLAYLIST_CACHE_TTL_MS) {
+      // Move to the most recently used end
+      playlistTrackCache.delete(userId);
+      playlistTrackCache.set(userId, cached);
+      return cached.tracks;
+    }
+
+    const playlists: Array<{ id: string; name: string }> = [];
+    for (let offset = 0; offset < MAX_PLAYLISTS; offset += 50) {
+      const response = await this.call(() => this.spotifyApi.getUserPlaylists({ limit: Math.min(50, MAX_PLAYLISTS - offset), offset }));
+      playlists.push(...response.body.items
+        .filter(playlist => !isExportPlaylist({ name: playlist.name, ownerId: playlist.owner.id }, userId))
+        .map(playlist => ({ id: playlist.id, name: playlist.name })));
+      if (!response.body.next) break;
+    }
+
+    const tracksById = new Map<string, SpotifyPlaylistTrack>();
+    for (const playlist of playlists) {
+      for (let offset = 0; tracksById.size < MAX_PLAYLIST_TRACKS; offset += 100) {
+        const response = await this.call(() => this.spotifyApi.getPlaylistTracks(playlist.id, { limit: 100, offset }));
+        response.body.items.forEach(item => {
+          const track = item.track;
+          if (!track?.id || track.type !== 'track') return; // Skip local files and podcast episodes
+          const existing = tracksById.get(track.id);
+          if (existing) {
+            existing.playlists.push(playlist);
+          } else if (tracksById.size < MAX_PLAYLIST_TRACKS) {
+            tracksById.set(track.id, {
+              id: track.id,
+              name: track.name,
+              type: 'track',
+              // Only what matching uses; the full album object carries every market code
+              album: { id: track.album.id, name: track.album.name, images: track.album.images },
+              artists: track.artists.map(artist => ({ id: artist.id, name: artist.name })),
+              preview_url: track.preview_url,
+              playlists: [playlist]
+            });
+          }
+        });
+        if (!response.body.next) break;
+      }
+      if (tracksById.size >= MAX_PLAYLIST_TRACKS) {
+        console.log(`SpotifyService: Playlist track cap (${MAX_PLAYLIST_TRACKS}) reached.`);
+        break;
+      }
+    }
+
+    const tracks = Array.from(tracksById.values());
+    cachePlaylistTracks(userId, tracks);
+    return tracks;
+  }
+
+  /**
+   * Check which tracks are in the user's liked songs.
+   * Results line up with the given IDs; empty IDs are reported as not liked.
+   */
+  async checkSavedTracks(trackIds: string[]): Promise<boolean[]> {
+    const validIds = Array.from(new Set(trackIds.filter(id => id)));
+    const likedMap = new Map<string, boolean>();
+    const batchSize = 50;
+
+    for (let i = 0; i < validIds.length; i += batchSize) {
+      const batch = validIds.slice(i, i + batchSize);
+      const response = await this.call(() => this.spotifyApi.containsMySavedTracks(batch));
+      batch.forEach((id, index) => likedMap.set(id, response.body[index] ?? false));
+    }
+
+    return trackIds.map(id => likedMap.get(id) ?? false);
+  }
+
   /**
    * Get track details from Spotify
    */
   async getTrackDetails(trackId: string): Promise<SpotifyTopItem | null> {
     try {
-      const response = await this.spotifyApi.getTrack(trackId);
+      const response = await this.call(() => this.spotifyApi.getTrack(trackId));
       return {
         id: response.body.id,
         name: response.body.name,
@@ -200,7 +417,7 @@ export class SpotifyService {
   async searchTrack(songName: string, artistName: string): Promise<SpotifyTopItem | null> {
     try {
       const query = `${songName} artist:${artistName}`;
-      const response = await this.spotifyApi.searchTracks(query, { limit: 1 });
+      const response = await this.call(() => this.spotifyApi.searchTracks(query, { limit: 1 }));
       
       if (response.body.tracks && response.body.tracks.items?.length > 0) {
         const track = response.body.tracks.items[0];
@@ -246,36 +463,94 @@ export class SpotifyService {
   }
 
   /**
-   * Get user's top tracks across all time frames
+   * Get user's top tracks across all time frames, plus recently played as 'recent'
    */
-  async getAllTopTracks(): Promise<{ short_term: SpotifyTopItem[], medium_term: SpotifyTopItem[], long_term: SpotifyTopItem[] }> {
-    const [short_term, medium_term, long_term] = await Promise.all([
+  async getAllTopTracks(): Promise<SpotifyItemsByTimeFrame> {
+    const [short_term, medium_term, long_term, recentlyPlayed] = await Promise.all([
       this.getTopTracks(50, 'short_term'),
       this.getTopTracks(50, 'medium_term'),
-      this.getTopTracks(50, 'long_term')
+      this.getTopTracks(50, 'long_term'),
+      this.getRecentlyPlayed()
     ]);
-    return { short_term, medium_term, long_term };
+    return { short_term, medium_term, long_term, recent: recentlyPlayed.tracks };
   }
 
   /**
-   * Get user's top artists across all time frames
+   * Get user's top artists across all time frames, plus recently played as 'recent'
    */
-  async getAllTopArtists(): Promise<{ short_term: SpotifyTopItem[], medium_term: SpotifyTopItem[], long_term: SpotifyTopItem[] }> {
-    const [short_term, medium_term, long_term] = await Promise.all([
+  async getAllTopArtists(): Promise<SpotifyItemsByTimeFrame> {
+    const [short_term, medium_term, long_term, recentlyPlayed] = await Promise.all([
       this.getTopArtists(50, 'short_term'),
       this.getTopArtists(50, 'medium_term'),
-      this.getTopArtists(50, 'long_term')
+      this.getTopArtists(50, 'long_term'),
+      this.getRecentlyPlayed()
     ]);
-    return { short_term, medium_term, long_term };
+    return { short_term, medium_term, long_term, recent: recentlyPlayed.artists };
+  }
+
+  /**
+   * Tracks and artists from the user's recently played history, ranked by play count
+   * with each play decayed by RECENT_PLAY_HALF_LIFE_HOURS. Fetched once per instance.
+   * Sessions without the user-read-recently-played scope get empty lists.
+   */
+  getRecentlyPlayed(): Promise<{ tracks: SpotifyTopItem[]; artists: SpotifyTopItem[] }> {
+    if (!this.recentlyPlayed) {
+      this.recentlyPlayed = this.fetchRecentlyPlayed().catch(error => {
+        console.warn('SpotifyService: Could not fetch recently played tracks:', error);
+        return { tracks: [], artists: [] };
+      });
+    }
+    return this.recentlyPlayed;
+  }
+
+  private async fetchRecentlyPlayed(): Promise<{ tracks: SpotifyTopItem[]; artists: SpotifyTopItem[] }> {
+    // Spotify only keeps the last 50 plays
+    const response = await this.call(() => this.spotifyApi.getMyRecentlyPlayedTracks({ limit: 50 }));
+    const now = Date.now();
+    const tracks = new Map<string, SpotifyTopItem>();
+    const artists = new Map<string, SpotifyTopItem>();
+
+    response.body.items.forEach(item => {
+      const track = item.track;
+      if (!track?.id) return;
+      const ageHours = Math.max(0, now - new Date(item.played_at).getTime()) / (60 * 60 * 1000);
+      const playWeight = Math.pow(0.5, ageHours / RECENT_PLAY_HALF_LIFE_HOURS);
+
+      const existingTrack = tracks.get(track.id);
+      tracks.set(track.id, existingTrack
+        ? { ...existingTrack, playWeight: (existingTrack.playWeight ?? 0) + playWeight }
+        : {
+          id: track.id,
+          name: track.name,
+          type: 'track',
+          album: track.album,
+          artists: track.artists.map(artist => ({ id: artist.id, name: artist.name })),
+          preview_url: track.preview_url,
+          playWeight
+        });
+
+      track.artists.forEach(artist => {
+        const existingArtist = artists.get(artist.id);
+        artists.set(artist.id, existingArtist
+          ? { ...existingArtist, playWeight: (existingArtist.playWeight ?? 0) + playWeight }
+          : { id: artist.id, name: artist.name, type: 'artist', playWeight });
+      });
+    });
+
+    const byWeight = (a: SpotifyTopItem, b: SpotifyTopItem) => (b.playWeight ?? 0) - (a.playWeight ?? 0);
+    return {
+      tracks: Array.from(tracks.values()).sort(byWeight),
+      artists: Array.from(artists.values()).sort(byWeight)
+    };
   }
 
   /**
    * Get user's saved tracks
    */
   async getSavedTracks(limit: number = 50): Promise<SpotifyTopItem[]> {
-    const response = await this.spotifyApi.getMySavedTracks({
+    const response = await this.call(() => this.spotifyApi.getMySavedTracks({
       limit
-    });
+    }));
     return response.body.items.map((item: any) => ({
       id: item.track.id,
       name: item.track.name,
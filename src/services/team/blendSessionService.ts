@@ -0,0 +1,152 @@
+// src/services/team/blendSessionService.ts
+import crypto from 'crypto';
+import { ensureMongoConnection } from '../../lib/db/mongoConnection';
+import { BlendMember, BlendSession, BlendSessionDocument } from '../../models/blendSessionModel';
+import { SpotifyService } from '../spotify/spotifyService';
+import { BlendMemberPreferences } from './preferenceBlender';
+
+// Blend as shown to its members, without anyone's listening data
+export interface BlendSummary {
+    code: string;
+    hostId: string;
+    members: Array<{ memberId: string; name: string; image: string | null }>;
+    createdAt: string;
+}
+
+export type BlendJoinResult =
+    | { status: 'joined'; blend: BlendSummary }
+    | { status: 'not_found' }
+    | { status: 'full' }; // Already has MAX_BLEND_MEMBERS members
+
+// Unambiguous characters only, so codes can be read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+export const MAX_BLEND_MEMBERS = 8;
+
+/**
+ * Group blend sessions: signed-in users join by code and get one team matched to all of them.
+ */
+export class BlendSessionService {
+    private static instance: BlendSessionService;
+
+    private constructor() {}
+
+    public static getInstance(): BlendSessionService {
+        if (!BlendSessionService.instance) {
+            BlendSessionService.instance = new BlendSessionService();
+        }
+        return BlendSessionService.instance;
+    }
+
+    /**
+     * Record the signed-in user's taste as a blend member.
+     */
+    public async fetchMember(spotifyService: SpotifyService, image?: string | null): Promise<Omit<BlendMember, 'joinedAt'>> {
+        const [profile, genres, topTracks, topArtists, savedTracks] = await Promise.all([
+            spotifyService.getUserProfile(),
+            spotifyService.getUserGenres(),
+            spotifyService.getAllTopTracks(),
+            spotifyService.getAllTopArtists(),
+            spotifyService.getSavedTracks(50)
+        ]);
+        return {
+            memberId: profile.id,
+            name: profile.display_name?.split(' ')[0] || 'Member',
+            image: image ?? profile.images?.[0]?.url,
+            genres,
+            topTracks,
+            topArtists,
+            savedTracks
+        };
+    }
+
+    /**
+     * Start a blend with its host as the first member and return the join code.
+     */
+    public async createBlend(host: Omit<BlendMember, 'joinedAt'>): Promise<string> {
+        await ensureMongoConnection('BlendSessionService');
+
+        for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+            const code = Array.from(crypto.randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+            try {
+                await BlendSession.create({ code, hostId: host.memberId, members: [{ ...host, joinedAt: new Date() }] });
+                console.log(`BlendSessionService: Created blend ${code} for ${host.name}.`);
+                return code;
+            } catch (error) {
+                // Retry only on a code collision (duplicate key)
+                if ((error as { code?: number }).code !== 11000) throw error;
+                console.warn(`BlendSessionService: Code collision on ${code}, retrying.`);
+            }
+        }
+        throw new Error('BlendSessionService: Could not generate a unique join code');
+    }
+
+    /**
+     * Add a member to a blend, replacing their earlier preferences if they rejoin. Each write
+     * checks membership and the member limit in its filter, so concurrent joins can't overfill a blend.
+     */
+    public async joinBlend(code: string, member: Omit<BlendMember, 'joinedAt'>): Promise<BlendJoinResult> {
+        await ensureMongoConnection('BlendSessionService');
+        const entry = { ...member, joinedAt: new Date() };
+
+        const rejoined = await BlendSession.findOneAndUpdate(
+            { code, 'members.memberId': member.memberId },
+            { $set: { 'members.$': entry } },
+            { new: true }
+        ).lean<BlendSessionDocument>();
+        if (rejoined) {
+            console.log(`BlendSessionService: ${member.name} rejoined blend ${code}.`);
+            return { status: 'joined', blend: this.toSummary(rejoined) };
+        }
+
+        const joined = await BlendSession.findOneAndUpdate(
+            {
+                code,
+                'members.memberId': { $ne: member.memberId },
+                [`members.${MAX_BLEND_MEMBERS - 1}`]: { $exists: false }
+            },
+            { $push: { members: entry } },
+            { new: true }
+        ).lean<BlendSessionDocument>();
+        if (joined) {
+            console.log(`BlendSessionService: ${member.name} joined blend ${code} (${joined.members.length} members).`);
+            return { status: 'joined', blend: this.toSummary(joined) };
+        }
+
+        // Neither write matched: the blend is gone, full, or the member joined from another request meanwhile
+        const current = await BlendSession.findOne({ code }).lean<BlendSessionDocument>();
+        if (!current) return { status: 'not_found' };
+        if (current.members.some(other => other.memberId === member.memberId)) {
+            return { status: 'joined', blend: this.toSummary(current) };
+        }
+        return { status: 'full' };
+    }
+
+    /**
+     * Load a blend by join code. Returns null if there is no such (unexpired) blend.
+     */
+    public async getBlend(code: string): Promise<BlendSummary | null> {
+        await ensureMongoConnection('BlendSessionService');
+        const doc = await BlendSession.findOne({ code }).lean<BlendSessionDocument>();
+        return doc ? this.toSummary(doc) : null;
+    }
+
+    /**
+     * Every member's recorded preferences, in join order.
+     */
+    public async getMemberPreferences(code: string): Promise<BlendMemberPreferences[] | null> {
+        await ensureMongoConnection('BlendSessionService');
+        const doc = await BlendSession.findOne({ code }).lean<BlendSessionDocument>();
+        return doc ? doc.members : null;
+    }
+
+    private toSummary(doc: BlendSessionDocument): BlendSummary {
+        return {
+            code: doc.code,
+            hostId: doc.hostId,
+            members: doc.members.map(member => ({ memberId: member.memberId, name: member.name, image: member.image ?? null })),
+            createdAt: new Date(doc.createdAt).toISOString()
+        };
+    }
+}
@@ -0,0 +1,96 @@
+// src/services/team/generatedTeamService.ts
+import crypto from 'crypto';
+import { ensureMongoConnection } from '../../lib/db/mongoConnection';
+import { GeneratedTeam, GeneratedTeamDocument, GeneratedTeamInputs } from '../../models/generatedTeamModel';
+import { Team } from '../../lib/mlb/types';
+import * as matchingConfig from '../../config/matchingConfig';
+import { MatchingProfileId, getMatchingProfile } from '../../config/matchingProfiles';
+
+// Shared teams as loaded for the public team page
+export interface SharedTeam {
+    slug: string;
+    ownerName: string;
+    ownerImage: string | null;
+    team: Team;
+    configHash: string;
+    createdAt: string;
+}
+
+const SLUG_BYTES = 6; // 8 url-safe characters
+const MAX_SLUG_ATTEMPTS = 5;
+
+/**
+ * Persists generated teams so they can be shared at /team/[slug] without a Spotify login.
+ */
+export class GeneratedTeamService {
+    private static instance: GeneratedTeamService;
+
+    private constructor() {}
+
+    public static getInstance(): GeneratedTeamService {
+        if (!GeneratedTeamService.instance) {
+            GeneratedTeamService.instance = new GeneratedTeamService();
+        }
+        return GeneratedTeamService.instance;
+    }
+
+    /**
+     * Hash of every exported matching constant plus the profile's weights,
+     * so stored teams record which tuning produced them.
+     */
+    public getConfigHash(profileId: MatchingProfileId): string {
+        const profile = getMatchingProfile(profileId);
+        return crypto.createHash('sha256')
+            .update(JSON.stringify({ matchingConfig, profileId, weights: profile.weights }))
+            .digest('hex')
+            .slice(0, 16);
+    }
+
+    /**
+     * Save a generated team and return its share slug.
+     */
+    public async saveTeam(team: Team, inputs: GeneratedTeamInputs, owner: { name: string; image?: string | null }): Promise<string> {
+        await ensureMongoConnection('GeneratedTeamService');
+        const { stats, ...teamWithoutStats } = team;
+
+        for (let attempt = 0; attempt < MAX_SLUG_ATTEMPTS; attempt++) {
+            const slug = crypto.randomBytes(SLUG_BYTES).toString('base64url');
+            try {
+                await GeneratedTeam.create({
+                    slug,
+                    ownerName: owner.name,
+                    ownerImage: owner.image ?? undefined,
+                    team: teamWithoutStats,
+                    stats,
+                    inputs,
+                    configHash: this.getConfigHash(inputs.profileId)
+                });
+                console.log(`GeneratedTeamService: Saved team ${slug} for ${owner.name}.`);
+                return slug;
+            } catch (error) {
+                // Retry only on a slug collision (duplicate key)
+                if ((error as { code?: number }).code !== 11000) throw error;
+                console.warn(`GeneratedTeamService: Slug collision on ${slug}, retrying.`);
+            }
+        }
+        throw new Error('GeneratedTeamService: Could not generate a unique slug');
+    }
+
+    /**
+     * Load a shared team by slug. Returns null if no team has that slug.
+     */
+    public async getTeamBySlug(slug: string): Promise<SharedTeam | null> {
+        await ensureMongoConnection('GeneratedTeamService');
+        const doc = await GeneratedTeam.findOne({ slug }).lean<GeneratedTeamDocument>();
+        if (!doc) return null;
+
+        return {
+            slug: doc.slug,
+            ownerName: doc.ownerName,
+            ownerImage: doc.ownerImage ?? null,
+            team: { ...doc.team, stats: doc.stats, slug: doc.slug },
+            configHash: doc.configHash,
+            createdAt: new Date(doc.createdAt).toISOString()
+        };
+    }
+}
@@ -0,0 +1,77 @@
+// src/services/team/preferenceBlender.ts
+import { SpotifyGenreSummary, SpotifyTopItem } from '../spotify/spotifyService';
+import { SpotifyItemsByTimeFrame } from '../spotify/spotifyDataSource';
+import { normalizeArtistName, normalizeSongTitle } from '../walkupSongs/nameMatching';
+
+// One blend member's Spotify taste, as recorded when they joined
+export interface BlendMemberPreferences {
+    memberId: string; // Spotify user ID
+    name: string;
+    genres: SpotifyGenreSummary[];
+    topTracks: SpotifyItemsByTimeFrame;
+    topArtists: SpotifyItemsByTimeFrame;
+    savedTracks: SpotifyTopItem[];
+}
+
+export interface BlendedPreferences {
+    genres: SpotifyGenreSummary[];
+    topTracks: SpotifyItemsByTimeFrame;
+    topArtists: SpotifyItemsByTimeFrame;
+    savedTracks: SpotifyTopItem[];
+}
+
+// Same depth as a single user's Spotify top lists, so rank bonuses mean the same thing
+const MAX_BLENDED_ITEMS = 50;
+
+/**
+ * Merge several members' preferences into one profile. Lists are interleaved round-robin
+ * (everyone's #1, then everyone's #2, ...) so no member's taste crowds out the others',
+ * and genre weights are averaged across members.
+ */
+export function blendPreferences(members: BlendMemberPreferences[]): BlendedPreferences {
+    const trackKey = (track: SpotifyTopItem) =>
+        track.id || `${normalizeSongTitle(track.name)}|${normalizeArtistName(track.artists?.[0]?.name || '')}`;
+    const artistKey = (artist: SpotifyTopItem) => artist.id || normalizeArtistName(artist.name);
+    const byTimeFrame = (lists: SpotifyItemsByTimeFrame[], key: (item: SpotifyTopItem) => string): SpotifyItemsByTimeFrame => ({
+        short_term: interleave(lists.map(list => list.short_term || []), key, MAX_BLENDED_ITEMS),
+        medium_term: interleave(lists.map(list => list.medium_term || []), key, MAX_BLENDED_ITEMS),
+        long_term: interleave(lists.map(list => list.long_term || []), key, MAX_BLENDED_ITEMS),
+        recent: interleave(lists.map(list => list.recent || []), key, MAX_BLENDED_ITEMS)
+    });
+
+    // Genres keep round-robin order, since the matcher only looks at the first few
+    const genreOrder = interleave(members.map(member => member.genres), genre => genre.name.toLowerCase(), Infinity);
+    const genres = genreOrder.map(genre => {
+        const memberGenres = members
+            .map(member => member.genres.find(other => other.name.toLowerCase() === genre.name.toLowerCase()))
+            .filter((other): other is SpotifyGenreSummary => other !== undefined);
+        return {
+            name: genre.name,
+            count: memberGenres.reduce((sum, other) => sum + other.count, 0),
+            weight: memberGenres.reduce((sum, other) => sum + other.weight, 0) / members.length
+        };
+    });
+
+    return {
+        genres,
+        topTracks: byTimeFrame(members.map(member => member.topTracks), trackKey),
+        topArtists: byTimeFrame(members.map(member => member.topArtists), artistKey),
+        savedTracks: interleave(members.map(member => member.savedTracks), trackKey, Infinity)
+    };
+}
+
+function interleave<T>(lists: T[][], key: (item: T) => string, limit: number): T[] {
+    const seen = new Set<string>();
+    const result: T[] = [];
+    const longest = Math.max(0, ...lists.map(list => list.length));
+    for (let rank = 0; rank < longest && result.length < limit; rank++) {
+        for (const list of lists) {
+            const item = list[rank];
+            if (!item || seen.has(key(item))) continue;
+            seen.add(key(item));
+            result.push(item);
+            if (result.length >= limit) break;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,164 @@
+// src/services/team/teamAssembler.ts
+import { Player, Position, Song, Team, TeamStats } from '../../lib/mlb/types';
+import { PlayerWalkupSong } from '../../lib/walkupSongs/types';
+import { TEAM_ASSIGNMENT_STRATEGY } from '../../config/matchingConfig';
+import { MatchingProfile } from '../../config/matchingProfiles';
+import { calculateTeamStats } from '../mlb/statsCalculator';
+import { FixtureSpotifyDataSource, SpotifySnapshot } from '../spotify/spotifyDataSource';
+import { TeamMatcherService } from '../walkupSongs/teamMatcherService';
+import { WalkupSongFactory } from '../walkupSongs/walkupSongFactory';
+import { GeneratedTeamService } from './generatedTeamService';
+import { BlendMemberPreferences } from './preferenceBlender';
+
+// Positions every generated team fills
+export const TEAM_POSITIONS: Position[] = ['SP', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF', 'DH', 'P1', 'P2', 'P3', 'P4'];
+
+const PITCHER_POSITIONS: Position[] = ['SP', 'P1', 'P2', 'P3', 'P4'];
+const MAX_OWNER_NAME_LENGTH = 40;
+
+// Generic 'P' players take the next free rotation or bullpen slot
+const assignPitcherPosition = (position: string, usedPositions: Set<Position>): Position => {
+    if (position !== 'P') return position as Position;
+    for (const pos of PITCHER_POSITIONS) {
+        if (!usedPositions.has(pos)) {
+            usedPositions.add(pos);
+            return pos;
+        }
+    }
+    return 'P1';
+};
+
+/**
+ * Map matched player songs to the team's players, shared by every team generation route.
+ */
+export function toTeamPlayers(matchedPlayerSongs: PlayerWalkupSong[]): Player[] {
+    const usedPitcherPositions = new Set<Position>();
+    return matchedPlayerSongs.map(playerSong => {
+        const [firstName, ...lastNameParts] = playerSong.playerName.split(' ');
+        const lastName = lastNameParts.join(' ');
+        const position = assignPitcherPosition(playerSong.position, usedPitcherPositions);
+
+        return {
+            id: playerSong.playerId,
+            name: playerSong.playerName,
+            position: position,
+            team: playerSong.team,
+            headshot: `https://via.placeholder.com/32?text=${firstName.substring(0, 1)}`,
+            firstName,
+            lastName,
+            teamAbbreviation: playerSong.teamId,
+            stats: {
+                batting: {
+                    battingAvg: playerSong.stats?.batting?.battingAvg || 0,
+                    onBasePercentage: playerSong.stats?.batting?.onBasePercentage || 0,
+                    sluggingPercentage: playerSong.stats?.batting?.sluggingPercentage || 0,
+                    plateAppearances: playerSong.stats?.batting?.plateAppearances || 0,
+                    hits: playerSong.stats?.batting?.hits,
+                    atBats: playerSong.stats?.batting?.atBats,
+                    walks: playerSong.stats?.batting?.walks,
+                    hitByPitch: playerSong.stats?.batting?.hitByPitch,
+                    sacrificeFlies: playerSong.stats?.batting?.sacrificeFlies,
+                    totalBases: playerSong.stats?.batting?.totalBases
+                },
+                pitching: {
+                    earnedRunAvg: playerSong.stats?.pitching?.earnedRunAvg || 0,
+                    inningsPitched: playerSong.stats?.pitching?.inningsPitched || 0,
+                    earnedRuns: playerSong.stats?.pitching?.earnedRuns
+                }
+            },
+            matchingSongs: playerSong.matchingSongs,
+            matchExplanation: playerSong.matchExplanation
+        };
+    });
+}
+
+/**
+ * Team stats from the team's hitters and pitchers.
+ */
+export function calculatePlayersTeamStats(players: Player[]): TeamStats {
+    const hitters = players.filter(p => !PITCHER_POSITIONS.includes(p.position));
+    const pitchers = players.filter(p => PITCHER_POSITIONS.includes(p.position));
+    return calculateTeamStats(hitters, pitchers);
+}
+
+/**
+ * Owner name sent in an unauthenticated request body, trimmed and capped since it's shown on
+ * the public team page. Falls back to 'Guest' when missing or blank.
+ */
+export function parseOwnerName(value: unknown): string {
+    const name = typeof value === 'string' ? value.trim().slice(0, MAX_OWNER_NAME_LENGTH).trim() : '';
+    return name || 'Guest';
+}
+
+/**
+ * Match and save a team from preferences that don't come from a live Spotify session,
+ * e.g. an uploaded data export, guest selections or a group blend. Songs keep their stored
+ * artwork, since there is no session to search Spotify with. Blend members are passed to the
+ * matcher so each gets a player picked for them.
+ */
+export async function generateTeamFromSnapshot(
+    snapshot: SpotifySnapshot,
+    matchingProfile: MatchingProfile,
+    owner: { name: string; image?: string | null },
+    blendMembers: BlendMemberPreferences[] = []
+): Promise<Team> {
+    const dataSource = new FixtureSpotifyDataSource(snapshot);
+    const allPlayerSongs = await WalkupSongFactory.createRepository().getAllPlayerSongs();
+    console.log(`TeamAssembler: Loaded ${allPlayerSongs.length} players.`);
+
+    const teamMatcher = new TeamMatcherService(dataSource, matchingProfile, blendMembers);
+    const matchedPlayerSongs = await teamMatcher.findTeamByPreferences(
+        snapshot.genres,
+        snapshot.topTracks,
+        snapshot.topArtists,
+        snapshot.savedTracks,
+        snapshot.savedAlbums || [],
+        snapshot.followedArtists || [],
+        snapshot.playlistTracks || [],
+        TEAM_POSITIONS,
+        allPlayerSongs
+    );
+    console.log(`TeamAssembler: findTeamByPreferences returned ${matchedPlayerSongs.length} players.`);
+
+    const players = toTeamPlayers(matchedPlayerSongs);
+    const songs: Song[] = matchedPlayerSongs.flatMap(playerSong => (playerSong.matchingSongs || []).map(song => ({
+        id: `${playerSong.playerId}-${song.songName}`,
+        name: song.songName,
+        artist: song.artists.map(a => a.name).join(', '),
+        albumArt: song.albumArt || dataSource.getDefaultAlbumArt(),
+        playerMatch: playerSong.playerId,
+        matchScore: song.matchScore || 0,
+        matchReason: song.matchReason || 'Unknown',
+        rankInfo: song.rankInfo || '',
+        previewUrl: song.previewUrl,
+        spotifyId: song.spotifyId
+    })));
+
+    const team: Team = {
+        name: `${owner.name}'s Team`,
+        players,
+        songs,
+        stats: calculatePlayersTeamStats(players),
+        profileId: matchingProfile.id
+    };
+
+    // Persist the team so it can be shared; a failed save shouldn't cost the user their team
+    try {
+        team.slug = await GeneratedTeamService.getInstance().saveTeam(team, {
+            genres: snapshot.genres,
+            topTracks: snapshot.topTracks,
+            topArtists: snapshot.topArtists,
+            savedTracks: snapshot.savedTracks,
+            savedAlbums: snapshot.savedAlbums || [],
+            followedArtists: snapshot.followedArtists || [],
+            playlistTracks: snapshot.playlistTracks || [],
+            positions: TEAM_POSITIONS,
+            assignmentStrategy: TEAM_ASSIGNMENT_STRATEGY,
+            profileId: matchingProfile.id
+        }, owner);
+    } catch (saveError) {
+        console.error('TeamAssembler: Failed to save generated team:', saveError);
+    }
+
+    return team;
+}
@@ -0,0 +1,136 @@
+// src/services/walkupDb/walkupDbClient.ts
+import { HttpClient } from '@/services/http/httpClient';
+
+export interface ApiPlayerListItem {
+    id: string;
+    name: string;
+}
+
+export interface ApiSong {
+    id: string;
+    title: string;
+    artists: Array<{ name: string }>;
+    album?: string;
+    spotify_id?: string;
+    youtube_id?: string;
+    spotify_image?: string;
+    preview_url?: string | null;
+}
+
+export interface ApiPlayerDetailResponse {
+    data: {
+        id: string;
+        name: string;
+        mlb_id: string;
+        position: string;
+        team: {
+            name: string;
+            id: string;
+        };
+        songs: ApiSong[];
+    };
+}
+
+// HTTP validators identifying a version of a WalkupDB resource
+export interface UpstreamVersion {
+    etag?: string;
+    lastModified?: string;
+}
+
+export type PlayerDetailsFetchResult =
+    | { status: 'ok'; details: ApiPlayerDetailResponse; version: UpstreamVersion }
+    | { status: 'not_modified' }
+    | { status: 'error' };
+
+/**
+ * Thin client for the WalkupDB API. Handles pagination so the sync service only deals
+ * with saving data; rate limiting and retries come from HttpClient.
+ */
+export class WalkupDbClient {
+    private static instance: WalkupDbClient;
+    private readonly API_BASE_URL = process.env.WALKUPDB_API_URL || 'https://walkupdb.com/api';
+    private http = HttpClient.getInstance();
+
+    private constructor() {}
+
+    public static getInstance(): WalkupDbClient {
+        if (!WalkupDbClient.instance) {
+            WalkupDbClient.instance = new WalkupDbClient();
+        }
+        return WalkupDbClient.instance;
+    }
+
+    /**
+     * Fetches every page of the player list. Throws if any page fails, rather than
+     * returning a truncated list that would look like the complete roster.
+     */
+    public async fetchAllPlayers(): Promise<ApiPlayerListItem[]> {
+        const allPlayers: ApiPlayerListItem[] = [];
+        let page = 1;
+        let hasMore = true;
+
+        while (hasMore) {
+            console.log(`WalkupDbClient: Fetching page ${page}...`);
+            let response;
+            try {
+                response = await this.http.request<{ data?: ApiPlayerListItem[]; links?: { next: string | null } }>({
+                    url: `${this.API_BASE_URL}/players`,
+                    params: { page }
+                });
+            } catch (error) {
+                console.error(`WalkupDbClient: Error fetching page ${page}:`, error);
+                throw new Error(`Failed to fetch WalkupDB player list page ${page}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            if (response.data?.data && response.data.data.length > 0) {
+                allPlayers.push(...response.data.data);
+                hasMore = !!response.data.links && response.data.links.next !== null;
+                page++;
+            } else {
+                hasMore = false;
+            }
+        }
+        console.log(`WalkupDbClient: Fetched ${allPlayers.length} players.`);
+        return allPlayers;
+    }
+
+    /**
+     * Fetches a single player's details, including their songs.
+     */
+    public async fetchPlayerDetails(playerId: string): Promise<ApiPlayerDetailResponse | null> {
+        const result = await this.fetchPlayerDetailsIfChanged(playerId);
+        return result.status === 'ok' ? result.details : null;
+    }
+
+    /**
+     * Fetches a single player's details unless they haven't changed since the given
+     * version, using If-None-Match / If-Modified-Since. Returns the response's validators
+     * so the caller can send them on the next sync.
+     */
+    public async fetchPlayerDetailsIfChanged(playerId: string, since: UpstreamVersion = {}): Promise<PlayerDetailsFetchResult> {
+        const headers: Record<string, string> = {};
+        if (since.etag) headers['If-None-Match'] = since.etag;
+        if (since.lastModified) headers['If-Modified-Since'] = since.lastModified;
+
+        try {
+            const response = await this.http.request<ApiPlayerDetailResponse>({
+                url: `${this.API_BASE_URL}/players/${playerId}`,
+                headers,
+                validateStatus: status => (status >= 200 && status < 300) || status === 304
+            });
+            if (response.status === 304) {
+                return { status: 'not_modified' };
+            }
+            return {
+                status: 'ok',
+                details: response.data,
+                version: {
+                    etag: response.headers['etag'] || undefined,
+                    lastModified: response.headers['last-modified'] || undefined
+                }
+            };
+        } catch (error) {
+            console.error(`WalkupDbClient: Error fetching details for player ${playerId}:`, error);
+            return { status: 'error' };
+        }
+    }
+}
@@ -0,0 +1,74 @@
+// src/services/walkupSongs/assignmentSolver.ts
+
+/**
+ * Minimum-cost assignment using the Hungarian algorithm (O(n²·m)).
+ * Each row is assigned a distinct column, so the matrix needs at least as many columns as rows.
+ * Returns the column index chosen for each row.
+ */
+export function solveAssignment(cost: number[][]): number[] {
+    const rowCount = cost.length;
+    if (rowCount === 0) return [];
+    const columnCount = cost[0].length;
+    if (columnCount < rowCount) {
+        throw new Error(`solveAssignment: need at least as many columns (${columnCount}) as rows (${rowCount})`);
+    }
+
+    // Potentials and matching are 1-indexed; index 0 is a virtual column used while augmenting
+    const rowPotential = new Array<number>(rowCount + 1).fill(0);
+    const columnPotential = new Array<number>(columnCount + 1).fill(0);
+    const rowForColumn = new Array<number>(columnCount + 1).fill(0); // 0 = column is free
+    const previousColumn = new Array<number>(columnCount + 1).fill(0);
+
+    for (let row = 1; row <= rowCount; row++) {
+        rowForColumn[0] = row;
+        let currentColumn = 0;
+        const minSlack = new Array<number>(columnCount + 1).fill(Infinity);
+        const visited = new Array<boolean>(columnCount + 1).fill(false);
+
+        // Grow an alternating tree from this row until it reaches a free column
+        do {
+            visited[currentColumn] = true;
+            const currentRow = rowForColumn[currentColumn];
+            let delta = Infinity;
+            let nextColumn = 0;
+
+            for (let column = 1; column <= columnCount; column++) {
+                if (visited[column]) continue;
+                const slack = cost[currentRow - 1][column - 1] - rowPotential[currentRow] - columnPotential[column];
+                if (slack < minSlack[column]) {
+                    minSlack[column] = slack;
+                    previousColumn[column] = currentColumn;
+                }
+                if (minSlack[column] < delta) {
+                    delta = minSlack[column];
+                    nextColumn = column;
+                }
+            }
+
+            for (let column = 0; column <= columnCount; column++) {
+                if (visited[column]) {
+                    rowPotential[rowForColumn[column]] += delta;
+                    columnPotential[column] -= delta;
+                } else {
+                    minSlack[column] -= delta;
+                }
+            }
+            currentColumn = nextColumn;
+        } while (rowForColumn[currentColumn] !== 0);
+
+        // Flip the augmenting path
+        do {
+            const column = previousColumn[currentColumn];
+            rowForColumn[currentColumn] = rowForColumn[column];
+            currentColumn = column;
+        } while (currentColumn !== 0);
+    }
+
+    const assignment = new Array<number>(rowCount).fill(-1);
+    for (let column = 1; column <= columnCount; column++) {
+        if (rowForColumn[column] !== 0) {
+            assignment[rowForColumn[column] - 1] = column - 1;
+        }
+    }
+    return assignment;
+}
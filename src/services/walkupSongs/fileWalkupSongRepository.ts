@@ -0,0 +1,122 @@
+// src/services/walkupSongs/fileWalkupSongRepository.ts
+import fs from 'fs/promises';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { PlayerWalkupSong, WalkupSong } from '@/lib/walkupSongs/types';
+import { PlayerStats } from '@/lib/mlb/types';
+import { InMemoryWalkupSongRepository } from './inMemoryWalkupSongRepository';
+
+// One CSV row per song; players with several songs repeat their player columns (stats are read from their first row)
+interface WalkupSongCsvRow {
+    playerId: string;
+    playerName: string;
+    position: string;
+    team: string;
+    teamId: string;
+    songId?: string;
+    songName: string;
+    artists: string; // Semicolon-separated, primary artist first
+    albumName?: string;
+    spotifyId?: string;
+    genre?: string; // Semicolon-separated
+    albumArt?: string;
+    // Optional season stats; leave all blank and the matcher skips playing-time validation
+    plateAppearances?: string;
+    battingAvg?: string;
+    onBasePercentage?: string;
+    sluggingPercentage?: string;
+    inningsPitched?: string;
+    earnedRunAvg?: string;
+}
+
+const splitList = (value?: string) => (value ?? '').split(';').map(item => item.trim()).filter(Boolean);
+const toNumber = (value?: string) => Number(value) || 0;
+
+function parseStats(row: WalkupSongCsvRow): PlayerStats | undefined {
+    if (!row.plateAppearances && !row.inningsPitched) return undefined;
+    return {
+        batting: {
+            battingAvg: toNumber(row.battingAvg),
+            onBasePercentage: toNumber(row.onBasePercentage),
+            sluggingPercentage: toNumber(row.sluggingPercentage),
+            plateAppearances: toNumber(row.plateAppearances)
+        },
+        pitching: {
+            earnedRunAvg: toNumber(row.earnedRunAvg),
+            inningsPitched: toNumber(row.inningsPitched)
+        }
+    };
+}
+
+/**
+ * Walkup songs from a JSON (array of PlayerWalkupSong) or CSV file, chosen by extension.
+ * The file is read once and cached.
+ */
+export class FileWalkupSongRepository extends InMemoryWalkupSongRepository {
+    private filePath: string;
+    private loaded = false;
+
+    constructor(filePath: string) {
+        super();
+        this.filePath = filePath;
+    }
+
+    protected async loadData(): Promise<PlayerWalkupSong[]> {
+        if (this.loaded) return this.players;
+        try {
+            const extension = path.extname(this.filePath).toLowerCase();
+            if (extension === '.json') {
+                this.players = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+            } else if (extension === '.csv') {
+                this.players = this.parseCsv(await fs.readFile(this.filePath, 'utf-8'));
+            } else {
+                throw new Error(`Unsupported walkup song file type "${extension}" (expected .json or .csv)`);
+            }
+            this.loaded = true;
+            console.log(`FileWalkupSongRepository: Loaded ${this.players.length} players from ${this.filePath}`);
+        } catch (error) {
+            console.error('FileWalkupSongRepository: Error loading walkup song data:', error);
+        }
+        return this.players;
+    }
+
+    private parseCsv(content: string): PlayerWalkupSong[] {
+        const workbook = XLSX.read(content, { type: 'string', raw: true });
+        const rows = XLSX.utils.sheet_to_json<WalkupSongCsvRow>(workbook.Sheets[workbook.SheetNames[0]], { defval: '', raw: false });
+
+        const playersById = new Map<string, PlayerWalkupSong>();
+        rows.forEach((row, index) => {
+            if (!row.playerId || !row.songName) return;
+
+            const song: WalkupSong = {
+                id: row.songId || `${row.playerId}-${index}`,
+                songName: row.songName,
+                artists: splitList(row.artists).map((name, artistIndex) => ({
+                    name,
+                    role: artistIndex === 0 ? 'primary' : 'featured'
+                })),
+                albumName: row.albumName || '',
+                spotifyId: row.spotifyId || '',
+                genre: splitList(row.genre),
+                albumArt: row.albumArt || ''
+            };
+
+            const existing = playersById.get(row.playerId);
+            if (existing) {
+                existing.walkupSongs!.push(song);
+                return;
+            }
+            playersById.set(row.playerId, {
+                playerId: row.playerId,
+                playerName: row.playerName,
+                position: row.position,
+                team: row.team,
+                teamId: row.teamId,
+                walkupSong: song,
+                walkupSongs: [song],
+                stats: parseStats(row)
+            });
+        });
+        return Array.from(playersById.values());
+    }
+}
@@ -1,8 +1,8 @@
 // src/lib/walkupSongs/flatExcelParser.ts
 import * as XLSX from 'xlsx';
-import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs/promises';
-import { PlayerWalkupSong } from './types';
+import { PlayerWalkupSong, WalkupSong } from '../../lib/walkupSongs/types';
+import { normalizePlayerName } from './nameMatching';
 
 export class FlatExcelParser {
   private filePath: string;
@@ -23,7 +23,7 @@ export class FlatExcelParser {
       const sheetName = workbook.SheetNames[0];
       const worksheet = workbook.Sheets[sheetName];
       // Convert sheet to JSON using header row keys
-      const data = XLSX.utils.sheet_to_json<Record<string, any>>(worksheet, { defval: '' });
+      const data = XLSX.utils.sheet_to_json<Record<string, string>>(worksheet, { defval: '' });
 
       const playerSongs: PlayerWalkupSong[] = [];
 
@@ -34,15 +34,12 @@ export class FlatExcelParser {
         const playerName: string = row['Player Name'];
         // You can use Player Number if needed: row['Player Number']
 
-        // For each song/artist pair, if provided, create a record.
-        if (row['Song 1'] && row['Artist 1']) {
-          playerSongs.push(this.createPlayerSong(playerName, position, team, row['Song 1'], row['Artist 1']));
-        }
-        if (row['Song 2'] && row['Artist 2']) {
-          playerSongs.push(this.createPlayerSong(playerName, position, team, row['Song 2'], row['Artist 2']));
-        }
-        if (row['Song 3'] && row['Artist 3']) {
-          playerSongs.push(this.createPlayerSong(playerName, position, team, row['Song 3'], row['Artist 3']));
+        // Each song/artist pair that is provided becomes one of the player's walkup songs.
+        const songs = [1, 2, 3]
+          .filter(n => row[`Song ${n}`] && row[`Artist ${n}`])
+          .map(n => ({ songName: String(row[`Song ${n}`]), artistName: String(row[`Artist ${n}`]) })); // Titles like "1999" come back as numbers
+        if (songs.length > 0) {
+          playerSongs.push(this.createPlayerSong(playerName, position, team, songs));
         }
       }
 
@@ -55,26 +52,33 @@ export class FlatExcelParser {
 
   /**
    * Helper to create a PlayerWalkupSong object.
+   * IDs are derived from team and name so they stay the same across loads (saved teams refer to them).
    */
   private createPlayerSong(
     playerName: string,
     position: string,
     team: string,
-    songName: string,
-    artistName: string
+    songs: Array<{ songName: string; artistName: string }>
   ): PlayerWalkupSong {
+    const teamId = this.extractTeamId(team);
+    const playerId = `xlsx-${teamId}-${normalizePlayerName(playerName).replace(/[^a-z0-9]+/g, '-')}`;
+    const walkupSongs: WalkupSong[] = songs.map(({ songName, artistName }, index) => ({
+      id: `${playerId}-${index + 1}`,
+      songName,
+      artistName,
+      artists: [{ name: artistName, role: 'primary' }],
+      genre: this.inferGenreFromArtist(artistName)
+    }));
+
     return {
-      playerId: uuidv4(),
+      playerId,
       playerName,
       position, // Now directly coming from the file
       team,
-      teamId: this.extractTeamId(team),
-      walkupSong: {
-        id: uuidv4(),
-        songName,
-        artistName,
-        genre: this.inferGenreFromArtist(artistName)
-      }
+      teamId,
+      walkupSong: walkupSongs[0],
+      walkupSongs
+      // No stats in this file, so the matcher skips playing-time validation for these players
     };
   }
 
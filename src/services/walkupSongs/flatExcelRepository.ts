@@ -1,57 +1,29 @@
 // src/lib/walkupSongs/flatExcelRepository.ts
-import { PlayerWalkupSong, WalkupSongRepository } from '../../lib/walkupSongs/types';
+import { PlayerWalkupSong } from '../../lib/walkupSongs/types';
 import { FlatExcelParser } from './flatExcelParser'
+import { InMemoryWalkupSongRepository } from './inMemoryWalkupSongRepository';
 
-export class FlatExcelRepository implements WalkupSongRepository {
+export class FlatExcelRepository extends InMemoryWalkupSongRepository {
   private filePath: string;
-  private cachedData: PlayerWalkupSong[] | null = null;
+  private loaded = false;
 
   constructor(filePath: string) {
+    super();
     this.filePath = filePath;
   }
 
   /**
    * Load and cache all data from the Excel file.
    */
-  private async loadData(): Promise<PlayerWalkupSong[]> {
-    if (this.cachedData) return this.cachedData;
+  protected async loadData(): Promise<PlayerWalkupSong[]> {
+    if (this.loaded) return this.players;
     try {
       const parser = new FlatExcelParser(this.filePath);
-      this.cachedData = await parser.parse();
-      return this.cachedData;
+      this.players = await parser.parse();
+      this.loaded = true;
     } catch (error) {
       console.error('Error loading walkup song data:', error);
-      return [];
     }
-  }
-
-  async getAllPlayerSongs(): Promise<PlayerWalkupSong[]> {
-    return await this.loadData();
-  }
-  
-  // Implement other methods as needed...
-  async getPlayerSongsByTeam(teamId: string): Promise<PlayerWalkupSong[]> {
-    const allData = await this.loadData();
-    return allData.filter(player => player.teamId.toLowerCase() === teamId.toLowerCase());
-  }
-
-  async getPlayerSongsByPosition(position: string): Promise<PlayerWalkupSong[]> {
-    const allData = await this.loadData();
-    return allData.filter(player => player.position.toLowerCase() === position.toLowerCase());
-  }
-
-  async getPlayerSongById(playerId: string): Promise<PlayerWalkupSong | null> {
-    const allData = await this.loadData();
-    return allData.find(player => player.playerId === playerId) || null;
-  }
-
-  async getPlayerSongsByGenre(genre: string): Promise<PlayerWalkupSong[]> {
-    const allData = await this.loadData();
-    return allData.filter(player => 
-      player.walkupSong.genre.some(g => 
-        g.toLowerCase().includes(genre.toLowerCase()) || 
-        genre.toLowerCase().includes(g.toLowerCase())
-      )
-    );
+    return this.players;
   }
 }
@@ -0,0 +1,57 @@
+// src/services/walkupSongs/inMemoryWalkupSongRepository.ts
+import { PlayerWalkupSong, WalkupSongRepository } from '@/lib/walkupSongs/types';
+
+/**
+ * Walkup songs held in memory. Used directly for tests and fixtures, and as the
+ * base for repositories that load everything up front from a file.
+ */
+export class InMemoryWalkupSongRepository implements WalkupSongRepository {
+    protected players: PlayerWalkupSong[];
+
+    constructor(players: PlayerWalkupSong[] = []) {
+        this.players = players;
+    }
+
+    /**
+     * Replace the stored players.
+     */
+    setPlayerSongs(players: PlayerWalkupSong[]): void {
+        this.players = players;
+    }
+
+    protected async loadData(): Promise<PlayerWalkupSong[]> {
+        return this.players;
+    }
+
+    async getAllPlayerSongs(): Promise<PlayerWalkupSong[]> {
+        return this.loadData();
+    }
+
+    async getPlayerSongsByTeam(teamId: string): Promise<PlayerWalkupSong[]> {
+        const target = teamId.toLowerCase();
+        const allData = await this.loadData();
+        return allData.filter(player =>
+            player.teamId?.toLowerCase() === target || player.team?.toLowerCase() === target
+        );
+    }
+
+    async getPlayerSongsByPosition(position: string): Promise<PlayerWalkupSong[]> {
+        const allData = await this.loadData();
+        return allData.filter(player => player.position.toLowerCase() === position.toLowerCase());
+    }
+
+    async getPlayerSongById(playerId: string): Promise<PlayerWalkupSong | null> {
+        const allData = await this.loadData();
+        return allData.find(player => player.playerId === playerId) || null;
+    }
+
+    async getPlayerSongsByGenre(genre: string): Promise<PlayerWalkupSong[]> {
+        const target = genre.toLowerCase();
+        const allData = await this.loadData();
+        return allData.filter(player =>
+            (player.walkupSongs ?? [player.walkupSong]).some(song =>
+                (song?.genre ?? []).some(g => g.toLowerCase().includes(target) || target.includes(g.toLowerCase()))
+            )
+        );
+    }
+}
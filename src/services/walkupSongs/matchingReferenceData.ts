@@ -0,0 +1,48 @@
+// src/services/walkupSongs/matchingReferenceData.ts
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import { TeamStatsModel } from '@/models/teamStatsModel';
+import { GenreEdge, GenreGraphDocument, GenreGraphModel } from '@/models/genreGraphModel';
+import { Artist, ArtistDocument } from '@/models/artistModel';
+import { GENRE_GRAPH_NAME } from '@/services/genres/genreGraph';
+
+export interface ReferenceTeamStats {
+    teamId: string;
+    team: string;
+    name?: string;
+    msfTeamId?: string;
+    gamesPlayed: number;
+}
+
+export type ReferenceArtist = Pick<ArtistDocument, 'spotifyId' | 'name' | 'aliases' | 'genres' | 'relatedArtists'>;
+
+/**
+ * Stored data the team matcher reads besides the user's Spotify data and the players:
+ * games played for stat validation, the learned genre graph, and the Artist collection
+ * (aliases and genres for the registry, related artists for the related-artist graph).
+ * Recorded into snapshots so a replay never reads Mongo.
+ */
+export interface MatchingReferenceData {
+    teamStats: ReferenceTeamStats[];
+    genreEdges: GenreEdge[];
+    artists: ReferenceArtist[];
+}
+
+/**
+ * Read the current reference data from Mongo, for recording alongside a Spotify snapshot.
+ */
+export async function loadMatchingReferenceData(): Promise<MatchingReferenceData> {
+    await ensureMongoConnection('MatchingReferenceData');
+    const [teamStats, genreGraph, artists] = await Promise.all([
+        TeamStatsModel.find({}, { _id: 0, teamId: 1, team: 1, name: 1, msfTeamId: 1, gamesPlayed: 1 }).lean<ReferenceTeamStats[]>(),
+        GenreGraphModel.findOne({ name: GENRE_GRAPH_NAME }).lean<GenreGraphDocument>(),
+        Artist.find({}, { _id: 0, spotifyId: 1, name: 1, aliases: 1, genres: 1, relatedArtists: 1 }).lean<ReferenceArtist[]>()
+    ]);
+    return {
+        teamStats,
+        genreEdges: (genreGraph?.edges || []).map(({ source, target, count, weight }) => ({ source, target, count, weight })),
+        artists: artists.map(artist => ({
+            ...artist,
+            relatedArtists: (artist.relatedArtists || []).map(({ spotifyId, name }) => ({ spotifyId, name }))
+        }))
+    };
+}
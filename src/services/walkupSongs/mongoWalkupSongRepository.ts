@@ -0,0 +1,108 @@
+// src/services/walkupSongs/mongoWalkupSongRepository.ts
+import mongoose from 'mongoose';
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import { Player, PlayerDocument } from '@/models/playerModel';
+import { PlayerWalkupSong, WalkupSongRepository } from '@/lib/walkupSongs/types';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const exactIgnoreCase = (value: string) => new RegExp(`^${escapeRegex(value)}$`, 'i');
+
+/**
+ * Walkup songs from the Player collection kept up to date by WalkupSongSyncService.
+ */
+export class MongoWalkupSongRepository implements WalkupSongRepository {
+    private async findPlayers(filter: mongoose.FilterQuery<PlayerDocument>): Promise<PlayerWalkupSong[]> {
+        await ensureMongoConnection('MongoWalkupSongRepository');
+        const players: PlayerDocument[] = await Player.find(filter);
+        return players.map(mapPlayerDocument);
+    }
+
+    async getAllPlayerSongs(): Promise<PlayerWalkupSong[]> {
+        return this.findPlayers({});
+    }
+
+    async getPlayerSongsByTeam(teamId: string): Promise<PlayerWalkupSong[]> {
+        // Players carry an abbreviation or full name depending on which sync last touched them
+        return this.findPlayers({ $or: [{ teamId: exactIgnoreCase(teamId) }, { team: exactIgnoreCase(teamId) }] });
+    }
+
+    async getPlayerSongsByPosition(position: string): Promise<PlayerWalkupSong[]> {
+        return this.findPlayers({ position: exactIgnoreCase(position) });
+    }
+
+    async getPlayerSongById(playerId: string): Promise<PlayerWalkupSong | null> {
+        const [player] = await this.findPlayers({ id: playerId });
+        return player ?? null;
+    }
+
+    async getPlayerSongsByGenre(genre: string): Promise<PlayerWalkupSong[]> {
+        return this.findPlayers({ 'walkupSongs.genre': new RegExp(escapeRegex(genre), 'i') });
+    }
+}
+
+/**
+ * Map a Player document to the PlayerWalkupSong shape used by the matcher and API.
+ */
+export function mapPlayerDocument(doc: PlayerDocument): PlayerWalkupSong {
+    return {
+        playerId: doc.id,
+        playerName: doc.name,
+        position: doc.position,
+        team: doc.team,
+        teamId: doc.teamId,
+        // Map the walkupSongs array
+        walkupSongs: (doc.walkupSongs || []).map(song => ({
+            id: song.id,
+            songName: song.songName,
+            // artistName: song.artistName, // REMOVED
+            artists: song.artists?.map(a => ({ name: a.name, role: a.role, spotifyId: a.spotifyId || undefined })) || [], // Ensure mapping
+            albumName: song.albumName,
+            spotifyId: song.spotifyId,
+            youtubeId: song.youtubeId,
+            genre: song.genre,
+            albumArt: song.albumArt,
+            previewUrl: song.previewUrl
+        })),
+        // Map stats
+        stats: {
+        batting: {
+                battingAvg: doc.stats?.batting?.battingAvg ?? 0,
+                onBasePercentage: doc.stats?.batting?.onBasePercentage ?? 0,
+                sluggingPercentage: doc.stats?.batting?.sluggingPercentage ?? 0,
+                plateAppearances: doc.stats?.batting?.plateAppearances ?? 0,
+                hits: doc.stats?.batting?.hits,
+                atBats: doc.stats?.batting?.atBats,
+                walks: doc.stats?.batting?.walks,
+                hitByPitch: doc.stats?.batting?.hitByPitch,
+                sacrificeFlies: doc.stats?.batting?.sacrificeFlies,
+                totalBases: doc.stats?.batting?.totalBases
+        },
+        pitching: {
+                earnedRunAvg: doc.stats?.pitching?.earnedRunAvg ?? 0,
+                inningsPitched: doc.stats?.pitching?.inningsPitched ?? 0,
+                earnedRuns: doc.stats?.pitching?.earnedRuns
+            }
+        },
+         // Add legacy walkupSong field if needed by other parts (ideally refactor away)
+        walkupSong: (doc.walkupSongs && doc.walkupSongs.length > 0)
+         ? ({
+              id: doc.walkupSongs[0].id,
+              songName: doc.walkupSongs[0].songName,
+              // artistName: doc.walkupSongs[0].artistName, // REMOVED
+              artists: doc.walkupSongs[0].artists?.map(a => ({ name: a.name, role: a.role, spotifyId: a.spotifyId || undefined })) || [],
+              albumName: doc.walkupSongs[0].albumName,
+              spotifyId: doc.walkupSongs[0].spotifyId,
+              youtubeId: doc.walkupSongs[0].youtubeId,
+              genre: doc.walkupSongs[0].genre,
+              albumArt: doc.walkupSongs[0].albumArt,
+              previewUrl: doc.walkupSongs[0].previewUrl
+            })
+         : { id: 'unknown', songName: 'Unknown', artists: [], albumName: '', spotifyId: '', youtubeId: '', genre: [], albumArt: '', previewUrl: null }, // Provide default structure
+        // Pass match details if they exist (though they likely belong in PlayerWithScore)
+        matchReason: doc.matchReason,
+        rankInfo: doc.rankInfo,
+        matchScore: doc.matchScore,
+        // matchingSongs: [] // This should be populated by matcher service, not read directly from DB player doc
+    };
+}
+
@@ -0,0 +1,34 @@
+import { extractFeaturedArtists, normalizeSongTitle } from './nameMatching';
+
+describe('extractFeaturedArtists', () => {
+    it('splits bracketed credits', () => {
+        expect(extractFeaturedArtists('Song (feat. A & B)')).toEqual(['a', 'b']);
+        expect(extractFeaturedArtists('Song [feat. A, B]')).toEqual(['a', 'b']);
+        expect(extractFeaturedArtists('Song (with A)')).toEqual(['a']);
+    });
+
+    it('splits unbracketed credits', () => {
+        expect(extractFeaturedArtists('Song ft. A, B')).toEqual(['a', 'b']);
+        expect(extractFeaturedArtists('Song feat. A, B & C')).toEqual(['a', 'b', 'c']);
+        expect(extractFeaturedArtists('Song feat. A and B')).toEqual(['a', 'b']);
+    });
+
+    it('stops unbracketed credits at a dash suffix', () => {
+        expect(extractFeaturedArtists('Song ft. A, B - Remastered 2011')).toEqual(['a', 'b']);
+    });
+
+    it('finds no credits in plain titles', () => {
+        expect(extractFeaturedArtists('Go with the Flow')).toEqual([]);
+        expect(extractFeaturedArtists('Left Foot Forward')).toEqual([]);
+        expect(extractFeaturedArtists('A Feat of Strength')).toEqual([]);
+    });
+});
+
+describe('normalizeSongTitle', () => {
+    it('drops feature credits and version notes', () => {
+        expect(normalizeSongTitle('Song ft. A, B')).toBe('song');
+        expect(normalizeSongTitle('Lose Yourself - Remastered 2022')).toBe('lose yourself');
+        expect(normalizeSongTitle('Song - Live Forever')).toBe('song live forever');
+        expect(normalizeSongTitle('A Feat of Strength')).toBe('a feat of strength');
+    });
+});
@@ -0,0 +1,142 @@
+// src/services/walkupSongs/nameMatching.ts
+import { SONG_NAME_MATCH_THRESHOLD, ARTIST_NAME_MATCH_THRESHOLD } from '@/config/matchingConfig';
+
+// Suffix keywords that mark a re-release of the same recording, e.g. "Lose Yourself - Remastered"
+const VERSION_KEYWORDS = /\b(remaster(ed)?|re-?recorded|radio edit|edit|single version|album version|version|explicit|clean|mono|stereo|bonus track|deluxe|anniversary)\b/i;
+// "Live" and "From" only mark a version when they lead the note, e.g. "Live at Wembley" or
+// "From "Top Gun"", not in title text like "Song - Live Forever"
+const LIVE_NOTE = /^live(\s+(at|from|in|on)\b.*)?$/i;
+const SOUNDTRACK_NOTE = /^from\s+(["“'‘]|the\s+(motion picture|film|movie|original|series)\b)/i;
+const FEATURE_PATTERNS = [
+    /\(feat\.?\s+([^)]+)\)/i,
+    /\(ft\.?\s+([^)]+)\)/i,
+    /\(with\s+([^)]+)\)/i,
+    /\[feat\.?\s+([^\]]+)\]/i,
+    // Unbracketed credits need the dot, so "A Feat of Strength" isn't a credit. They run to a
+    // bracket, a dash suffix or the end: "Song ft. A, B - Remix" -> "A, B"
+    /\bfeat\.\s+([^()[\]]+?)(?=\s[-–—]\s|[()[\]]|$)/i,
+    /\bft\.\s+([^()[\]]+?)(?=\s[-–—]\s|[()[\]]|$)/i
+];
+
+const foldDiacritics = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+const collapse = (value: string) => value.replace(/[^a-z0-9 ]+/g, '').replace(/\s+/g, ' ').trim();
+const isVersionNote = (note: string) => {
+    const trimmed = note.trim();
+    return VERSION_KEYWORDS.test(trimmed) || LIVE_NOTE.test(trimmed) || SOUNDTRACK_NOTE.test(trimmed);
+};
+
+/**
+ * Normalize an artist name for comparison: "Beyoncé" -> "beyonce", "Simon & Garfunkel" -> "simon and garfunkel".
+ */
+export function normalizeArtistName(name: string): string {
+    if (!name) return '';
+    const folded = foldDiacritics(name).toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[-_/]/g, ' ')
+        .replace(/^the\s+/, '');
+    return collapse(folded);
+}
+
+/**
+ * Normalize a player's name for comparison: "Julio Rodríguez" -> "julio rodriguez", "Vladimir Guerrero Jr." -> "vladimir guerrero".
+ */
+export function normalizePlayerName(name: string): string {
+    if (!name) return '';
+    const folded = foldDiacritics(name).toLowerCase()
+        .replace(/[-_.']/g, ' ')
+        .replace(/\s+(jr|sr|ii|iii|iv)\s*$/, '');
+    return collapse(folded);
+}
+
+/**
+ * Normalize a song title for comparison. Drops feat. credits, version suffixes
+ * and punctuation: "HUMBLE." -> "humble", "Lose Yourself - Remastered 2022" -> "lose yourself".
+ */
+export function normalizeSongTitle(title: string): string {
+    if (!title) return '';
+    let value = foldDiacritics(title).toLowerCase();
+
+    // Bracketed credits and version notes: "(feat. X)", "[Remastered]", "(Radio Edit)"
+    value = value.replace(/[([]\s*(feat\.?|ft\.?|with)\s[^)\]]*[)\]]/g, ' ');
+    value = value.replace(/[([]([^)\]]*)[)\]]/g, (match, note: string) => (isVersionNote(note) ? ' ' : match));
+    // Dash suffixes: "Song - 2011 Remaster", "Song - Live at Wembley"
+    value = value.replace(/\s[-–—]\s(.*)$/, (match, note: string) => (isVersionNote(note) ? '' : match));
+    // Unbracketed credits: "Song feat. X"
+    value = value.replace(/\s(feat|ft)\.\s.*$/, '');
+
+    const normalized = collapse(value.replace(/&/g, ' and ').replace(/[-_/]/g, ' '));
+    return normalized || collapse(title.toLowerCase());
+}
+
+/**
+ * Featured artists credited in a song title, normalized, e.g. "Song (feat. A & B)" or "Song ft. A, B" -> ["a", "b"].
+ */
+export function extractFeaturedArtists(title: string): string[] {
+    const featured = new Set<string>();
+    for (const pattern of FEATURE_PATTERNS) {
+        const match = title.match(pattern);
+        if (match && match[1]) {
+            match[1].split(/,|&|\band\b/).map(normalizeArtistName).filter(Boolean).forEach(name => featured.add(name));
+        }
+    }
+    return Array.from(featured);
+}
+
+/**
+ * Similarity (0-1) between two already-normalized names, based on edit distance.
+ */
+export function nameSimilarity(a: string, b: string): number {
+    if (a === b) return a ? 1 : 0;
+    if (!a || !b) return 0;
+    const maxLength = Math.max(a.length, b.length);
+    return 1 - levenshteinDistance(a, b) / maxLength;
+}
+
+/**
+ * Confidence that two normalized song titles are the same song; 0 below the threshold.
+ */
+export function songMatchConfidence(a: string, b: string, threshold = SONG_NAME_MATCH_THRESHOLD): number {
+    return matchConfidence(a, b, threshold);
+}
+
+/**
+ * Confidence that two normalized artist names are the same artist; 0 below the threshold.
+ */
+export function artistMatchConfidence(a: string, b: string, threshold = ARTIST_NAME_MATCH_THRESHOLD): number {
+    return matchConfidence(a, b, threshold);
+}
+
+function matchConfidence(a: string, b: string, threshold: number): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    // Length difference alone bounds the similarity; skip the edit distance when it can't pass
+    const maxLength = Math.max(a.length, b.length);
+    if (1 - Math.abs(a.length - b.length) / maxLength < threshold) return 0;
+    const similarity = nameSimilarity(a, b);
+    return similarity >= threshold ? similarity : 0;
+}
+
+function levenshteinDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Split a combined credit into individual artist names, e.g. "Daddy Yankee & Snow" -> ["Daddy Yankee", "Snow"].
+ * Returns the credit itself when there is nothing to split.
+ */
+export function splitArtistCredit(credit: string): string[] {
+    const parts = credit
+        .split(/\s*(?:,|&|\s+x\s+|\s+and\s+|\bfeat\.?\s+|\bft\.?\s+|\s+with\s+)\s*/i)
+        .map(part => part.trim())
+        .filter(Boolean);
+    return parts.length > 0 ? parts : [credit];
+}
@@ -0,0 +1,69 @@
+// src/services/walkupSongs/playerDiff.ts
+import { WalkupSongSubdocument } from '@/models/playerModel';
+import { FieldChange, WalkupSongChange } from '@/models/syncPlayerChangeModel';
+
+// Player fields a sync writes, as plain values
+export interface PlayerSyncFields {
+    mlbId: string;
+    name: string;
+    position?: string;
+    team: string;
+    teamId: string;
+    walkupSongs: WalkupSongSubdocument[];
+}
+
+export interface PlayerDiff {
+    fields: FieldChange[];
+    songs: WalkupSongChange[];
+}
+
+const PLAYER_FIELDS = ['mlbId', 'name', 'position', 'team', 'teamId'] as const;
+const SONG_FIELDS = ['songName', 'albumName', 'spotifyId', 'youtubeId', 'albumArt', 'previewUrl'] as const;
+
+/**
+ * Field-level changes between a stored player and what a sync writes over it.
+ * A null before describes a newly created player, so every field and song shows as added.
+ */
+export function diffPlayer(before: PlayerSyncFields | null, after: PlayerSyncFields): PlayerDiff {
+    const fields = PLAYER_FIELDS
+        .filter(field => (before?.[field] ?? '') !== (after[field] ?? ''))
+        .map(field => ({ field, before: before?.[field], after: after[field] }));
+
+    const beforeSongs = new Map((before?.walkupSongs || []).map(song => [song.id, song]));
+    const afterSongs = new Map(after.walkupSongs.map(song => [song.id, song]));
+    const songs: WalkupSongChange[] = [];
+    afterSongs.forEach((song, songId) => {
+        const previous = beforeSongs.get(songId);
+        if (!previous) {
+            songs.push({ songId, songName: song.songName, change: 'added', fields: [] });
+            return;
+        }
+        const songFields = diffSong(previous, song);
+        if (songFields.length > 0) {
+            songs.push({ songId, songName: song.songName, change: 'modified', fields: songFields });
+        }
+    });
+    beforeSongs.forEach((song, songId) => {
+        if (!afterSongs.has(songId)) {
+            songs.push({ songId, songName: song.songName, change: 'removed', fields: [] });
+        }
+    });
+
+    return { fields, songs };
+}
+
+export function isEmptyDiff(diff: PlayerDiff): boolean {
+    return diff.fields.length === 0 && diff.songs.length === 0;
+}
+
+function diffSong(before: WalkupSongSubdocument, after: WalkupSongSubdocument): FieldChange[] {
+    const changes: FieldChange[] = SONG_FIELDS
+        .filter(field => (before[field] ?? '') !== (after[field] ?? ''))
+        .map(field => ({ field, before: before[field], after: after[field] }));
+
+    const artistNames = (song: WalkupSongSubdocument) => (song.artists || []).map(artist => artist.name).join(', ');
+    if (artistNames(before) !== artistNames(after)) {
+        changes.push({ field: 'artists', before: artistNames(before), after: artistNames(after) });
+    }
+    return changes;
+}
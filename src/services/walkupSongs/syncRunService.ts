@@ -0,0 +1,167 @@
+// src/services/walkupSongs/syncRunService.ts
+import mongoose from 'mongoose';
+import { ensureMongoConnection } from '@/lib/db/mongoConnection';
+import { PlayerSyncOutcome, SyncRun, SyncRunDocument, SyncRunTrigger } from '@/models/syncRunModel';
+import { SyncPlayerChange, SyncPlayerChangeDocument } from '@/models/syncPlayerChangeModel';
+import { SyncRunStatus } from '@/models/syncCheckpointModel';
+import { PlayerDiff, isEmptyDiff } from './playerDiff';
+
+// Outcome of syncing one player, as recorded on its run
+export interface PlayerSyncResult {
+    playerId: string;
+    playerName?: string;
+    outcome: PlayerSyncOutcome;
+    diff?: PlayerDiff; // Set for created and updated players
+    error?: string; // Set for errors and skipped players
+}
+
+// Sync run as listed on the admin history page
+export interface SyncRunSummary {
+    id: string;
+    source: string;
+    trigger: SyncRunTrigger;
+    status: SyncRunStatus;
+    startedAt: string;
+    finishedAt: string | null;
+    resumedAtIndex: number;
+    totalPlayers: number;
+    counts: Record<PlayerSyncOutcome, number>;
+    fatalError: string | null;
+}
+
+export interface SyncRunDetail extends SyncRunSummary {
+    errors: Array<{ playerId: string; playerName: string | null; message: string; at: string }>;
+    changes: Array<Pick<SyncPlayerChangeDocument, 'playerId' | 'playerName' | 'outcome' | 'fields' | 'songs'> & { recordedAt: string }>;
+    totalChanges: number;
+    changesPageSize: number;
+}
+
+// A run where every player fails shouldn't grow without bound; the counts stay exact
+const MAX_RECORDED_ERRORS = 500;
+const SYNC_CHANGES_PAGE_SIZE = 100;
+
+/**
+ * Audit log of player syncs: per-outcome counts, error messages and per-player diffs.
+ */
+export class SyncRunService {
+    private static instance: SyncRunService;
+
+    private constructor() {}
+
+    public static getInstance(): SyncRunService {
+        if (!SyncRunService.instance) {
+            SyncRunService.instance = new SyncRunService();
+        }
+        return SyncRunService.instance;
+    }
+
+    /**
+     * Record the start of a run and return its ID.
+     */
+    public async startRun(run: { source: string; trigger: SyncRunTrigger; totalPlayers: number; resumedAtIndex: number }): Promise<string> {
+        await ensureMongoConnection('SyncRunService');
+        const created: SyncRunDocument = await SyncRun.create({ ...run, status: 'running', startedAt: new Date() });
+        return created.id;
+    }
+
+    /**
+     * Count one player's outcome against the run, keeping its error message or field diff.
+     */
+    public async recordPlayer(runId: string, result: PlayerSyncResult): Promise<void> {
+        await ensureMongoConnection('SyncRunService');
+        const update: mongoose.UpdateQuery<SyncRunDocument> = { $inc: { [`counts.${result.outcome}`]: 1 } };
+        if (result.error) {
+            update.$push = {
+                playerErrors: {
+                    $each: [{ playerId: result.playerId, playerName: result.playerName, message: result.error, at: new Date() }],
+                    $slice: -MAX_RECORDED_ERRORS
+                }
+            };
+        }
+        await SyncRun.updateOne({ _id: runId }, update);
+
+        if (result.diff && !isEmptyDiff(result.diff) && (result.outcome === 'created' || result.outcome === 'updated')) {
+            await SyncPlayerChange.create({
+                runId,
+                playerId: result.playerId,
+                playerName: result.playerName || result.playerId,
+                outcome: result.outcome,
+                fields: result.diff.fields,
+                songs: result.diff.songs
+            });
+        }
+    }
+
+    public async finishRun(runId: string, status: Exclude<SyncRunStatus, 'running'>, fatalError?: string): Promise<void> {
+        await ensureMongoConnection('SyncRunService');
+        await SyncRun.updateOne({ _id: runId }, { $set: { status, finishedAt: new Date(), ...(fatalError ? { fatalError } : {}) } });
+    }
+
+    /**
+     * Most recent runs first.
+     */
+    public async listRuns(limit = 50): Promise<SyncRunSummary[]> {
+        await ensureMongoConnection('SyncRunService');
+        const runs: SyncRunDocument[] = await SyncRun.find({}, { playerErrors: 0 }).sort({ startedAt: -1 }).limit(limit);
+        return runs.map(toSummary);
+    }
+
+    /**
+     * A run with its errors and one page of per-player changes, or null if it doesn't exist.
+     */
+    public async getRun(runId: string, page = 0): Promise<SyncRunDetail | null> {
+        if (!mongoose.isValidObjectId(runId)) return null;
+        await ensureMongoConnection('SyncRunService');
+
+        const run: SyncRunDocument | null = await SyncRun.findById(runId);
+        if (!run) return null;
+        const [changes, totalChanges]: [SyncPlayerChangeDocument[], number] = await Promise.all([
+            SyncPlayerChange.find({ runId: run._id })
+                .sort({ recordedAt: 1 })
+                .skip(page * SYNC_CHANGES_PAGE_SIZE)
+                .limit(SYNC_CHANGES_PAGE_SIZE),
+            SyncPlayerChange.countDocuments({ runId: run._id })
+        ]);
+
+        return {
+            ...toSummary(run),
+            errors: run.playerErrors.map(error => ({
+                playerId: error.playerId,
+                playerName: error.playerName ?? null,
+                message: error.message,
+                at: error.at.toISOString()
+            })),
+            changes: changes.map(change => ({
+                playerId: change.playerId,
+                playerName: change.playerName,
+                outcome: change.outcome,
+                fields: change.fields,
+                songs: change.songs,
+                recordedAt: change.recordedAt.toISOString()
+            })),
+            totalChanges,
+            changesPageSize: SYNC_CHANGES_PAGE_SIZE
+        };
+    }
+}
+
+function toSummary(run: SyncRunDocument): SyncRunSummary {
+    return {
+        id: run.id,
+        source: run.source,
+        trigger: run.trigger,
+        status: run.status,
+        startedAt: run.startedAt.toISOString(),
+        finishedAt: run.finishedAt?.toISOString() ?? null,
+        resumedAtIndex: run.resumedAtIndex,
+        totalPlayers: run.totalPlayers,
+        counts: {
+            created: run.counts?.created ?? 0,
+            updated: run.counts?.updated ?? 0,
+            unchanged: run.counts?.unchanged ?? 0,
+            skipped: run.counts?.skipped ?? 0,
+            error: run.counts?.error ?? 0
+        },
+        fatalError: run.fatalError ?? null
+    };
+}
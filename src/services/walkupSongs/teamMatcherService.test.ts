@@ -0,0 +1,121 @@
+import fs from 'fs/promises';
+import path from 'path';
+import mongoose from 'mongoose';
+import { PlayerWalkupSong } from '@/lib/walkupSongs/types';
+import { getMatchingProfile } from '@/config/matchingProfiles';
+import { FixtureSpotifyDataSource, SpotifySnapshot } from '@/services/spotify/spotifyDataSource';
+import { TEAM_POSITIONS } from '@/services/team/teamAssembler';
+import { InMemoryWalkupSongRepository } from './inMemoryWalkupSongRepository';
+import { TeamMatcherService } from './teamMatcherService';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'data', 'fixtures');
+
+// Same rows as npm run verify-team-fixture compares against expected-team.json
+interface TeamRow {
+    position: string;
+    playerId: string;
+    playerName: string;
+    songName: string;
+    matchScore: number;
+    matchReason: string;
+}
+
+const readFixture = async <T>(name: string): Promise<T> =>
+    JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, name), 'utf-8'));
+
+const toRows = (team: PlayerWalkupSong[]): TeamRow[] => team.map(player => ({
+    position: player.position,
+    playerId: player.playerId,
+    playerName: player.playerName,
+    songName: player.matchingSongs?.[0]?.songName ?? '',
+    matchScore: Math.round((player.matchScore ?? 0) * 1e6) / 1e6,
+    matchReason: player.matchReason ?? ''
+}));
+
+async function generateTeam(repository: InMemoryWalkupSongRepository, snapshot?: SpotifySnapshot): Promise<PlayerWalkupSong[]> {
+    const dataSource = new FixtureSpotifyDataSource(snapshot ?? await readFixture<SpotifySnapshot>('spotify-snapshot.json'));
+    const matcher = new TeamMatcherService(dataSource, getMatchingProfile(), [], dataSource.getReferenceData());
+    return matcher.findTeamByPreferences(
+        await dataSource.getUserGenres(),
+        await dataSource.getAllTopTracks(),
+        await dataSource.getAllTopArtists(),
+        await dataSource.getSavedTracks(50),
+        await dataSource.getSavedAlbums(),
+        await dataSource.getFollowedArtists(),
+        await dataSource.getUserPlaylistTracks(),
+        TEAM_POSITIONS,
+        await repository.getAllPlayerSongs()
+    );
+}
+
+describe('TeamMatcherService', () => {
+    let players: PlayerWalkupSong[];
+
+    beforeAll(async () => {
+        // Everything comes from the snapshot's reference data; any Mongo read fails instead of hanging
+        mongoose.set('bufferCommands', false);
+        players = await readFixture<PlayerWalkupSong[]>('players.json');
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('picks the expected team from the fixture snapshot and players', async () => {
+        const team = await generateTeam(new InMemoryWalkupSongRepository(players));
+
+        expect(toRows(team)).toEqual(await readFixture<TeamRow[]>('expected-team.json'));
+    });
+
+    it('fills each position at most once and never picks a player twice', async () => {
+        const team = await generateTeam(new InMemoryWalkupSongRepository(players));
+
+        const positions = team.map(player => player.position);
+        expect(new Set(positions).size).toBe(positions.length);
+        positions.forEach(position => expect(TEAM_POSITIONS).toContain(position));
+        expect(new Set(team.map(player => player.playerId)).size).toBe(team.length);
+    });
+
+    it('keeps players from sources without stats', async () => {
+        const withoutStats = players.map(player => ({ ...player, stats: undefined }));
+
+        const team = await generateTeam(new InMemoryWalkupSongRepository(withoutStats));
+
+        expect(team.length).toBeGreaterThan(0);
+    });
+
+    it('scales recently played matches by how much the user played them', async () => {
+        const snapshot = await readFixture<SpotifySnapshot>('spotify-snapshot.json');
+        const [recentTrack] = snapshot.topTracks.recent ?? [];
+        const heavilyPlayed = { ...snapshot, topTracks: { ...snapshot.topTracks, recent: [{ ...recentTrack, playWeight: 40 }] } };
+        // Same rank bucket, but now a single play next to a track played forty times
+        const barelyPlayed = {
+            ...snapshot,
+            topTracks: {
+                ...snapshot.topTracks,
+                recent: [{ ...recentTrack, id: 'track-other', name: 'Some Other Song', playWeight: 40 }, { ...recentTrack, playWeight: 1 }]
+            }
+        };
+        const repository = new InMemoryWalkupSongRepository(players);
+        const recentPlayerId = players.find(player => player.walkupSongs?.some(song => song.songName === recentTrack.name))?.playerId;
+
+        const heavilyPlayedPick = (await generateTeam(repository, heavilyPlayed)).find(player => player.playerId === recentPlayerId);
+        const barelyPlayedPick = (await generateTeam(repository, barelyPlayed)).find(player => player.playerId === recentPlayerId);
+
+        // Picked both times, so only the score shows how much the recent plays counted
+        expect(heavilyPlayedPick).toBeDefined();
+        expect(barelyPlayedPick).toBeDefined();
+        expect(barelyPlayedPick?.matchScore).toBeLessThan(heavilyPlayedPick?.matchScore ?? 0);
+    });
+
+    it('returns no team when no player has a usable walkup song', async () => {
+        const withoutSongs = players.map(player => ({ ...player, walkupSongs: [] }));
+
+        await expect(generateTeam(new InMemoryWalkupSongRepository(withoutSongs))).resolves.toEqual([]);
+    });
+});
@@ -1,26 +1,112 @@
 // src/services/walkupSongs/teamMatcherService.ts
-import { PlayerWalkupSong, WalkupSong } from '@/lib/walkupSongs/types'; // Adjusted path if needed
-import { SpotifyGenreSummary, SpotifyTopItem, SpotifyService } from '@/services/spotify/spotifyService';
-import { Position, PlayerStats } from '@/lib/mlb/types'; // Adjusted path if needed
+import { PlayerWalkupSong, WalkupSong, WalkupSongArtist } from '@/lib/walkupSongs/types';
+import { SpotifyGenreSummary, SpotifyPlaylistTrack, SpotifySavedAlbum, SpotifyTopItem } from '@/services/spotify/spotifyService';
+import { SpotifyDataSource, SpotifyItemsByTimeFrame } from '@/services/spotify/spotifyDataSource';
+import { Position } from '@/lib/mlb/types';
 import { TeamStatsModel } from '@/models/teamStatsModel';
 import {
-    NormalizedTrack, NormalizedArtist, MatchResult, PlayerWithScore, SongMatchDetails, TeamAssignment, TimeFrame
+    NormalizedTrack, NormalizedArtist, NormalizedAlbum, MatchResult, PlayerWithScore, SongMatchDetails, TeamAssignment, TimeFrame,
+    MatchComponent
 } from '@/lib/walkupSongs/matchingTypes'; // Use centralized types
 import {
-    SCORE_WEIGHTS, COMPATIBLE_POSITIONS, SIMILAR_POSITIONS, FALLBACK_POSITIONS, POSITION_WEIGHTS, MIN_MATCH_SCORE,
-    MULTIPLE_SONG_BONUS, DIVERSITY_THRESHOLD, DIVERSITY_BOOST_AMOUNT, NUM_USER_TOP_GENRES,
-    MIN_GAMES_PLAYED_THRESHOLD, HITTER_PA_PER_GAME_THRESHOLD, PITCHER_IP_PER_GAME_THRESHOLD
+    COMPATIBLE_POSITIONS, SIMILAR_POSITIONS, FALLBACK_POSITIONS, NUM_USER_TOP_GENRES,
+    MIN_GAMES_PLAYED_THRESHOLD, HITTER_PA_PER_GAME_THRESHOLD, PITCHER_IP_PER_GAME_THRESHOLD,
+    POSITION_WEIGHTS, TEAM_ASSIGNMENT_STRATEGY, MAX_ASSIGNMENT_ITERATIONS, AssignmentStrategy,
+    GENRE_SIMILARITY_THRESHOLD, BLEND_AFFINITY
 } from '@/config/matchingConfig'; // Use centralized config
-import axios from 'axios'; // Needed for liked track check
+import { MatchingProfile, MatchingWeights, getMatchingProfile } from '@/config/matchingProfiles';
+import { GenreGraph } from '@/services/genres/genreGraph';
+import { ArtistRegistry } from '@/services/artists/artistRegistry';
+import { RelatedArtistGraph } from '@/services/artists/relatedArtistGraph';
+import { BlendMemberPreferences } from '@/services/team/preferenceBlender';
+import { MatchingReferenceData, ReferenceTeamStats } from './matchingReferenceData';
+import { solveAssignment } from './assignmentSolver';
+import {
+    normalizeSongTitle, normalizeArtistName, extractFeaturedArtists, songMatchConfidence, artistMatchConfidence,
+    splitArtistCredit
+} from './nameMatching';
+
+const TIME_FRAMES: TimeFrame[] = ['long_term', 'medium_term', 'short_term', 'recent'];
+const PITCHER_SLOTS = ['SP', 'P1', 'P2', 'P3', 'P4'];
+const PITCHER_POSITIONS = ['P', 'SP', 'RP'];
+const OUTFIELD_POSITIONS = ['LF', 'CF', 'RF', 'OF'];
+
+// Cost for candidate/slot pairs that are not position-eligible; never beats leaving a slot open
+const INELIGIBLE_COST = 1e6;
+
+type PositionFit = 'EXACT' | 'SIMILAR' | 'COMPATIBLE' | 'FALLBACK';
+const POSITION_FIT_ORDER: PositionFit[] = ['EXACT', 'SIMILAR', 'COMPATIBLE', 'FALLBACK'];
+
+// A blend member's own preferences, normalized once per matching run
+interface MemberTaste {
+    memberId: string;
+    name: string;
+    tracks: NormalizedTrack[];
+    artists: NormalizedArtist[];
+    topGenres: Set<string>;
+}
+
+// How strongly a candidate's best song reflects one blend member's own taste
+interface MemberAffinity {
+    memberId: string;
+    name: string;
+    affinity: number;
+}
+
+// Team being built during selection, shared by the greedy and optimal passes
+interface TeamSelectionState {
+    team: { [position: string]: TeamAssignment };
+    usedCandidateIds: Set<string>;
+    usedSongKeys: Set<string>;
+    teamGenreCounts: Map<string, number>;
+    userTopNGenres: Set<string>;
+}
+
+type NormalizedPlaylistTrack = NormalizedTrack & { playlistNames: string[] };
+
+// Saved albums, followed artists and playlist tracks, normalized once per matching run
+interface UserLibrary {
+    savedAlbums: NormalizedAlbum[];
+    savedAlbumArtists: Set<string>; // Spotify IDs and normalized names of artists with a saved album
+    followedArtists: NormalizedArtist[];
+    playlistTracksById: Map<string, NormalizedPlaylistTrack>;
+    playlistTracksByInitial: Map<string, NormalizedPlaylistTrack[]>; // Keyed by first letter of the normalized title, for fuzzy lookups
+}
+
+// Walkup song normalized for comparison against user preferences
+interface NormalizedPlayerSong {
+    name: string; // Normalized title for name matching
+    displayName: string; // Original title, parsed for feat. credits
+    albumName: string; // Normalized album title
+    spotifyId: string;
+    genres: string[];
+    artists: WalkupSongArtist[];
+}
 
 export class TeamMatcherService {
-    private spotifyService: SpotifyService;
+    private spotifyDataSource: SpotifyDataSource;
     private usedArtistsMap: Map<string, number>; // Renamed for clarity
-    private genreSimilarityCache: Map<string, boolean>;
-    private tigersGamesPlayed: number | null = null; // Cache for team games played
-
-    constructor(spotifyService: SpotifyService) {
-        this.spotifyService = spotifyService;
+    private genreSimilarityCache: Map<string, number>;
+    private genreGraph: GenreGraph = new GenreGraph(); // Taxonomy-only until the stored graph loads
+    private artistRegistry: ArtistRegistry = new ArtistRegistry(); // Empty (name matching only) until the registry loads
+    private relatedArtistGraph: RelatedArtistGraph = new RelatedArtistGraph(); // No related matches until the graph loads
+    private teamGamesPlayed: Map<string, number> | null = null; // Games played keyed by team abbreviation, name and MSF ID
+    private defaultGamesPlayed = MIN_GAMES_PLAYED_THRESHOLD; // For players whose team has no stats
+    private weights: MatchingWeights; // Tunable weights from the selected matching profile
+    private blendMembers: BlendMemberPreferences[]; // Members of a group blend; each gets at least one player when possible
+    private referenceData: MatchingReferenceData | null; // Recorded with a snapshot; replaces every Mongo read when set
+
+    constructor(
+        spotifyDataSource: SpotifyDataSource,
+        profile: MatchingProfile = getMatchingProfile(),
+        blendMembers: BlendMemberPreferences[] = [],
+        referenceData: MatchingReferenceData | null = null
+    ) {
+        this.spotifyDataSource = spotifyDataSource;
+        this.weights = profile.weights;
+        this.blendMembers = blendMembers;
+        this.referenceData = referenceData;
+        console.log(`TeamMatcherService: Using matching profile "${profile.id}".`);
         this.usedArtistsMap = new Map();
         this.genreSimilarityCache = new Map();
     }
@@ -30,32 +116,38 @@ export class TeamMatcherService {
      */
     async findTeamByPreferences(
         userGenres: SpotifyGenreSummary[],
-        userTopTracks: { short_term: SpotifyTopItem[]; medium_term: SpotifyTopItem[]; long_term: SpotifyTopItem[] },
-        userTopArtists: { short_term: SpotifyTopItem[]; medium_term: SpotifyTopItem[]; long_term: SpotifyTopItem[] },
+        userTopTracks: SpotifyItemsByTimeFrame,
+        userTopArtists: SpotifyItemsByTimeFrame,
         userSavedTracks: SpotifyTopItem[], // Currently used only for liked artist bonus in genre matching
+        userSavedAlbums: SpotifySavedAlbum[],
+        userFollowedArtists: SpotifyTopItem[],
+        userPlaylistTracks: SpotifyPlaylistTrack[],
         positions: Position[],
-        allPlayerSongsFromDb: PlayerWalkupSong[], // Expects data from WalkupSongSyncService.getAllPlayersFromDb()
-        accessToken: string // Needed for checkSongsInLikedTracks
+        allPlayerSongsFromDb: PlayerWalkupSong[], // Expects data from WalkupSongRepository.getAllPlayerSongs()
+        assignmentStrategy: AssignmentStrategy = TEAM_ASSIGNMENT_STRATEGY
     ): Promise<PlayerWalkupSong[]> { // Returns the final team structure
 
         console.log("TeamMatcherService: Starting findTeamByPreferences...");
 
-        // 1. Fetch Validation Data (Team Games Played) - Cached locally for this run
-        if (this.tigersGamesPlayed === null) { // Fetch only if not already fetched
-        try {
-                const teamStats = await TeamStatsModel.findOne({ teamId: 'det' }); // Example for Tigers
-                this.tigersGamesPlayed = teamStats ? teamStats.gamesPlayed : MIN_GAMES_PLAYED_THRESHOLD;
-            console.log(`TeamMatcherService: Using Tigers games played for validation: ${this.tigersGamesPlayed}`);
-        } catch (error) {
-                console.error('TeamMatcherService: Error fetching team games played, using default:', error);
-            this.tigersGamesPlayed = MIN_GAMES_PLAYED_THRESHOLD;
+        // 1. Fetch Validation Data (Team Games Played) and the stored graphs - Cached locally for this run
+        if (this.referenceData) {
+            // Snapshot replay: build everything from the recorded data, never from Mongo
+            this.setTeamGamesPlayed(this.referenceData.teamStats);
+            this.genreGraph = new GenreGraph(this.referenceData.genreEdges);
+            this.artistRegistry = new ArtistRegistry(this.referenceData.artists);
+            this.relatedArtistGraph = new RelatedArtistGraph(this.referenceData.artists);
+        } else {
+            if (this.teamGamesPlayed === null) { // Fetch only if not already fetched
+                await this.loadTeamGamesPlayed();
             }
+            this.genreGraph = await GenreGraph.load();
+            this.artistRegistry = await ArtistRegistry.load();
+            this.relatedArtistGraph = await RelatedArtistGraph.load();
         }
 
         // 2. Reset State for this matching run
         this.usedArtistsMap.clear();
         this.genreSimilarityCache.clear();
-        // Note: usedSongs set removed as duplicate song penalty wasn't fully implemented/needed
 
         // 3. Initialize Diversity Boost Logic
         const userTopNGenres = new Set(
@@ -70,8 +162,8 @@ export class TeamMatcherService {
                 player.walkupSongs[0].songName && player.walkupSongs[0].artists?.length > 0 && // Check artists array too
                 player.walkupSongs[0].songName !== 'No walkup song' && player.walkupSongs[0].songName !== 'Unknown Song';
 
-             if (!hasValidWalkupSong) return false;
-             return this.validatePlayerStats(player); // Use internal helper
+            if (!hasValidWalkupSong) return false;
+            return this.validatePlayerStats(player); // Use internal helper
         });
         console.log(`TeamMatcherService: Players after filtering: ${validPlayers.length}`);
         if (validPlayers.length === 0) {
@@ -90,10 +182,10 @@ export class TeamMatcherService {
         console.log(`TeamMatcherService: Found ${uniqueSpotifyIdsArray.length} unique Spotify IDs from valid players to check liked status.`);
 
         // 6. Perform Liked Track Check
-        let likedTrackIdSet = new Set<string>();
+        const likedTrackIdSet = new Set<string>();
         if (uniqueSpotifyIdsArray.length > 0) {
             try {
-                const likedStatusArray = await this.checkSongsInLikedTracks(uniqueSpotifyIdsArray, accessToken);
+                const likedStatusArray = await this.spotifyDataSource.checkSavedTracks(uniqueSpotifyIdsArray);
                 uniqueSpotifyIdsArray.forEach((id, index) => {
                     if (likedStatusArray[index]) likedTrackIdSet.add(id);
                 });
@@ -109,189 +201,141 @@ export class TeamMatcherService {
         }));
         const normalizedUserTracks = this.normalizeUserTracks(userTopTracks);
         const normalizedUserArtists = this.normalizeUserArtists(userTopArtists);
-        const artistsWithLikedSongs = this.getArtistsWithLikedSongs(normalizedUserTracks, normalizedUserArtists, likedTrackIdSet);
+        const userLibrary = this.normalizeUserLibrary(userSavedAlbums, userFollowedArtists, userPlaylistTracks);
+        const artistsWithLikedSongs = this.getArtistsWithLikedSongs(userSavedTracks, normalizedUserArtists, userLibrary);
 
         // 8. Calculate Match Scores for All Valid Players
         const playersWithScoresPromises: Promise<PlayerWithScore>[] = validPlayers.map(async (player): Promise<PlayerWithScore> => {
-             if (!player.walkupSongs || player.walkupSongs.length === 0) {
-                 return { player, matchScore: 0, originalMatchScore: 0, matchReason: 'No valid walkup songs', rankInfo: '', matchingSongs: [] };
-             }
-
-             // Evaluate each song the player has
-             const songMatchDetailsPromises: Promise<SongMatchDetails>[] = player.walkupSongs.map(async (song) => {
-                 const normalizedPlayerSong = {
-                     name: song.songName.toLowerCase(),
-                    // artist: song.artistName.toLowerCase(), // No longer using this string here
-                     spotifyId: song.spotifyId || '',
-                     genres: (song.genre || []).map(g => g.toLowerCase()),
-                    artists: song.artists?.map(a => ({ // Pass structured artists
-                        name: a.name.toLowerCase(),
-                        role: a.role || 'primary' // Default role if missing
-                    })) || [{ name: 'unknown', role: 'primary' }] // Provide default if array missing
+            if (!player.walkupSongs || player.walkupSongs.length === 0) {
+                return {
+                    player, matchScore: 0, originalMatchScore: 0, matchReason: 'No valid walkup songs', rankInfo: '', matchingSongs: [],
+                    explanation: { songName: '', matchScore: 0, components: [] }
                 };
+            }
 
-                const songMatches = await this.findAllSongMatches(normalizedPlayerSong, normalizedUserTracks, likedTrackIdSet);
-                const artistMatches = this.findAllArtistMatches(normalizedPlayerSong, normalizedUserArtists); // Pass structured artists
+            // Evaluate each song the player has
+            const songMatchDetailsPromises: Promise<SongMatchDetails>[] = player.walkupSongs.map(async (song) => {
+                const normalizedPlayerSong = this.normalizePlayerSong(song);
+
+                const songMatches = await this.findAllSongMatches(normalizedPlayerSong, normalizedUserTracks, likedTrackIdSet, userLibrary);
+                const artistMatches = this.findAllArtistMatches(normalizedPlayerSong, normalizedUserArtists, userLibrary); // Pass structured artists
                 const genreMatch = this.calculateGenreMatchScore(userTopGenresNormalized, normalizedPlayerSong.genres, normalizedPlayerSong.artists, artistsWithLikedSongs); // Pass structured artists
 
-                 const potentialMatches = [
+                const potentialMatches = [
                     { type: 'Song', ...(songMatches.sort((a, b) => b.score - a.score)[0] || { score: 0 }) },
                     { type: 'Artist', ...(artistMatches.sort((a, b) => b.score - a.score)[0] || { score: 0 }) },
-                     { type: 'Genre', ...genreMatch }
+                    { type: 'Genre', ...genreMatch }
                 ].filter(m => m.score > 0.001).sort((a, b) => b.score - a.score);
 
-                 let finalCombinedScore = 0;
-                 let finalReason = 'No Match';
-                 let finalDetails = '';
-
-                 if (potentialMatches.length > 0) {
-                     const primaryMatch = potentialMatches[0];
-                     const sumOfOtherScores = potentialMatches.slice(1).reduce((sum, match) => sum + (match.score || 0), 0);
-                     finalCombinedScore = (primaryMatch.score || 0) + (0.05 * sumOfOtherScores);
-
-                     finalReason = primaryMatch.reason || primaryMatch.type || 'Unknown Match';
-                     finalDetails = primaryMatch.details || '';
-                     if (sumOfOtherScores > 0.001 && potentialMatches.length > 1) {
-                          const otherReasons = potentialMatches.slice(1).map(m => m.reason || m.type).join(', ');
-                          const bonusReason = `+ bonus (${otherReasons.substring(0, 30)}${otherReasons.length > 30 ? '...' : ''})`;
-                          finalReason = `${finalReason.substring(0,40)}${finalReason.length > 40 ? '...' : ''} ${bonusReason}`;
-                     }
-                 }
-
-                 return {
-                     songName: song.songName,
+                let finalCombinedScore = 0;
+                let finalReason = 'No Match';
+                let finalDetails = '';
+
+                // Primary match counts in full, the others at 5%
+                const components: MatchComponent[] = potentialMatches.map((match, index) => ({
+                    type: match.source ?? 'genre',
+                    label: match.reason || match.type,
+                    weight: match.weight ?? 0,
+                    score: match.score,
+                    contribution: index === 0 ? match.score : 0.05 * match.score,
+                    trigger: match.trigger || match.details || '',
+                    confidence: match.confidence
+                }));
+
+                if (potentialMatches.length > 0) {
+                    const primaryMatch = potentialMatches[0];
+                    const sumOfOtherScores = potentialMatches.slice(1).reduce((sum, match) => sum + (match.score || 0), 0);
+                    finalCombinedScore = (primaryMatch.score || 0) + (0.05 * sumOfOtherScores);
+
+                    finalReason = primaryMatch.reason || primaryMatch.type || 'Unknown Match';
+                    finalDetails = primaryMatch.details || '';
+                    if (sumOfOtherScores > 0.001 && potentialMatches.length > 1) {
+                        const otherReasons = potentialMatches.slice(1).map(m => m.reason || m.type).join(', ');
+                        const bonusReason = `+ bonus (${otherReasons.substring(0, 30)}${otherReasons.length > 30 ? '...' : ''})`;
+                        finalReason = `${finalReason.substring(0,40)}${finalReason.length > 40 ? '...' : ''} ${bonusReason}`;
+                    }
+                }
+
+                return {
+                    songName: song.songName,
                     artists: song.artists || [], // Return structured artists
-                     matchScore: finalCombinedScore,
-                     matchReason: finalReason,
-                     rankInfo: finalDetails,
-                    albumArt: song.albumArt || this.spotifyService.getDefaultAlbumArt(),
+                    matchScore: finalCombinedScore,
+                    matchReason: finalReason,
+                    rankInfo: finalDetails,
+                    albumArt: song.albumArt || this.spotifyDataSource.getDefaultAlbumArt(),
                     previewUrl: song.previewUrl || null,
-                     spotifyId: song.spotifyId
-                 };
+                    spotifyId: song.spotifyId,
+                    components
+                };
             });
 
-             const evaluatedSongs = await Promise.all(songMatchDetailsPromises);
-
-              const bestSongResult = evaluatedSongs.reduce(
-                  (best, current) => (current.matchScore > best.matchScore ? current : best),
-                { matchScore: 0, matchReason: 'N/A', rankInfo: '', artists: [] } // Initial best includes artists
-              );
-
-             const basePlayerScore = bestSongResult.matchScore;
-             const statsBonus = this.calculateStatsBonus(player);
-             const finalPlayerScore = basePlayerScore + statsBonus;
-
-             return {
-                 player,
-                 matchScore: finalPlayerScore,
-                 originalMatchScore: finalPlayerScore,
-                 matchReason: bestSongResult.matchReason,
-                 rankInfo: bestSongResult.rankInfo,
-                matchingSongs: evaluatedSongs.filter(s => s.matchScore > 0).sort((a, b) => b.matchScore - a.matchScore)
-             };
+            const evaluatedSongs = await Promise.all(songMatchDetailsPromises);
+            const matchingSongs = evaluatedSongs.filter(s => s.matchScore > 0).sort((a, b) => b.matchScore - a.matchScore);
+            const bestSongResult = matchingSongs[0];
+
+            const basePlayerScore = bestSongResult?.matchScore ?? 0;
+            const statsBonus = this.calculateStatsBonus(player);
+            const finalPlayerScore = basePlayerScore + statsBonus;
+
+            const explanationComponents: MatchComponent[] = [...(bestSongResult?.components || [])];
+            if (statsBonus > 0) {
+                explanationComponents.push({
+                    type: 'stats',
+                    label: 'Stats bonus',
+                    weight: this.weights.STATS_BONUS_WEIGHT,
+                    score: statsBonus,
+                    contribution: statsBonus,
+                    trigger: this.describeStats(player)
+                });
+            }
+
+            return {
+                player,
+                matchScore: finalPlayerScore,
+                originalMatchScore: finalPlayerScore,
+                matchReason: bestSongResult?.matchReason ?? 'N/A',
+                rankInfo: bestSongResult?.rankInfo ?? '',
+                matchingSongs,
+                explanation: {
+                    songName: bestSongResult?.songName ?? '',
+                    matchScore: finalPlayerScore,
+                    components: explanationComponents
+                }
+            };
         });
 
         const playersWithScoresResolved: PlayerWithScore[] = await Promise.all(playersWithScoresPromises);
 
         // 9. Filter out players below minimum score and initial sort
         const candidatePool = playersWithScoresResolved
-            .filter(p => p.matchScore >= MIN_MATCH_SCORE)
+            .filter(p => p.matchScore >= this.weights.MIN_MATCH_SCORE)
             .sort((a, b) => b.matchScore - a.matchScore);
 
-         if (candidatePool.length === 0) {
-             console.warn("TeamMatcherService: No players met the minimum match score. Cannot generate team.");
-             return [];
-         }
-         console.log(`TeamMatcherService: Starting team selection with ${candidatePool.length} candidates.`);
-
-        // 10. Team Selection Loop
-         const team: { [position: string]: TeamAssignment } = {};
-        const usedCandidateIds = new Set<string>();
-
-         for (const targetPosition of positions) {
-             const eligibleCandidates = candidatePool.filter(candidate =>
-                 this.isCandidateEligibleForPosition(candidate, targetPosition) &&
-                 !usedCandidateIds.has(candidate.player.playerId)
-             );
-
-             console.log(`\nTeamMatcherService: Processing Position: ${targetPosition}. Eligible Candidates: ${eligibleCandidates.length}`);
-              if(eligibleCandidates.length === 0) {
-                  console.log(` -> No eligible candidates found.`);
-                 continue;
-              }
-
-             const candidatesWithBoost = eligibleCandidates.map(candidate => {
-                 let diversityBoost = 0;
-                 let contributingGenre: string | null = null;
-                const bestSongMatch = candidate.matchingSongs[0]; // Assumes sorted
-                  let songGenres: string[] = [];
-                  if (bestSongMatch) {
-                    const walkupSongData = candidate.player.walkupSongs?.find(ws => ws.id === bestSongMatch.spotifyId); // Match via spotifyId if possible, or name/artist as fallback
-                      songGenres = walkupSongData?.genre?.map(g => g.toLowerCase()) || [];
-                  }
-
-                 for (const genre of songGenres) {
-                     if (userTopNGenres.has(genre)) {
-                         const currentGenreCount = teamGenreCounts.get(genre) || 0;
-                         if (currentGenreCount < DIVERSITY_THRESHOLD) {
-                             diversityBoost = DIVERSITY_BOOST_AMOUNT;
-                             contributingGenre = genre;
-                             break;
-                         }
-                     }
-                 }
-                 return {
-                     ...candidate,
-                     scoreForSorting: candidate.matchScore + diversityBoost,
-                     boostingGenre: contributingGenre
-                 };
-             });
-
-             const sortedEligible = candidatesWithBoost.sort((a, b) => (b.scoreForSorting ?? 0) - (a.scoreForSorting ?? 0));
-
-             let candidateSelected = false;
-             for (const candidate of sortedEligible) {
-                 if (usedCandidateIds.has(candidate.player.playerId)) continue;
-
-                // Use primary artist for penalty check
-                const primaryArtist = candidate.player.walkupSongs?.[0]?.artists?.find(a => a.role === 'primary');
-                const primaryArtistKey = primaryArtist?.name?.toLowerCase() || 'unknown_artist';
-
-                  const artistOccurrences = this.usedArtistsMap.get(primaryArtistKey) || 0;
-                  const penaltyMultiplier = this.computePenaltyMultiplier(artistOccurrences);
-                  const scoreAfterPenalty = candidate.matchScore * (1 - penaltyMultiplier);
-
-                 if (scoreAfterPenalty >= MIN_MATCH_SCORE) {
-                     console.log(` -> Selected ${candidate.player.playerName} for ${targetPosition} (Score: ${candidate.matchScore.toFixed(3)}, Adjusted: ${scoreAfterPenalty.toFixed(3)}, BoostedForSort: ${candidate.scoreForSorting?.toFixed(3)}, PenaltyMult: ${penaltyMultiplier.toFixed(2)})`);
-                     team[targetPosition] = { candidate, assignedPosition: targetPosition };
-                     usedCandidateIds.add(candidate.player.playerId);
-                     this.usedArtistsMap.set(primaryArtistKey, artistOccurrences + 1);
-
-                    // Update genre counts
-                      let genreToCount: string | null = null;
-                    const selectedWalkupSong = candidate.player.walkupSongs?.find(ws => ws.id === candidate.matchingSongs[0].spotifyId); // Use best match
-                      const selectedSongGenres = selectedWalkupSong?.genre?.map(g => g.toLowerCase()) || [];
-                      for(const g of selectedSongGenres) {
-                         if (userTopNGenres.has(g)) { genreToCount = g; break; }
-                    }
-                    if (!genreToCount && selectedSongGenres.length > 0) { genreToCount = selectedSongGenres[0]; }
-                      if (genreToCount) {
-                          const newCount = (teamGenreCounts.get(genreToCount) || 0) + 1;
-                          teamGenreCounts.set(genreToCount, newCount);
-                          console.log(` -> Team genre count updated: ${genreToCount} = ${newCount}`);
-                      }
-
-                     candidateSelected = true;
-                     break;
-                 }
-            }
-
-             if (!candidateSelected) {
-                  console.log(` -> Could not find suitable candidate for position ${targetPosition} after applying penalties/uniqueness checks.`);
-             }
-        } // End position loop
+        if (candidatePool.length === 0) {
+            console.warn("TeamMatcherService: No players met the minimum match score. Cannot generate team.");
+            return [];
+        }
+        console.log(`TeamMatcherService: Starting team selection with ${candidatePool.length} candidates.`);
+
+        // 10. Team Selection
+        const selectionState: TeamSelectionState = {
+            team: {},
+            usedCandidateIds: new Set<string>(),
+            usedSongKeys: new Set<string>(), // song|primary artist of each selected player's walkup song
+            teamGenreCounts,
+            userTopNGenres
+        };
+        if (this.blendMembers.length > 0) {
+            this.reserveBlendPicks(positions, candidatePool, selectionState);
+        }
+        if (assignmentStrategy === 'optimal') {
+            this.selectOptimalTeam(positions, candidatePool, selectionState);
+        }
+        // Greedy fills every slot in greedy mode, and any slot the optimal pass could not fill
+        this.selectGreedyTeam(positions, candidatePool, selectionState);
+        const team = selectionState.team;
 
-        // 11. Build Final Team Array (adjust mapping if PlayerWalkupSong structure changed)
+        // 11. Build Final Team Array
         const finalTeamResult: PlayerWalkupSong[] = positions
             .map(pos => team[pos])
             .filter((assignment): assignment is TeamAssignment => assignment !== undefined)
@@ -300,9 +344,10 @@ export class TeamMatcherService {
                 position: assignment.assignedPosition, // Override with assigned position
                 // Keep match details from the candidate object
                 matchScore: assignment.candidate.matchScore,
-                 matchReason: assignment.candidate.matchReason,
-                 rankInfo: assignment.candidate.rankInfo,
-                matchingSongs: assignment.candidate.matchingSongs
+                matchReason: assignment.candidate.matchReason,
+                rankInfo: assignment.candidate.rankInfo,
+                matchingSongs: assignment.candidate.matchingSongs,
+                matchExplanation: assignment.candidate.explanation
             }));
 
         console.log(`TeamMatcherService: Team generation complete. Final team size: ${finalTeamResult.length}`);
@@ -311,195 +356,1104 @@ export class TeamMatcherService {
 
     } // End findTeamByPreferences
 
-    // --- Helper Methods --- (Keep all helper methods like calculateStatsBonus, validatePlayerStats, isCandidateEligible, computePenaltyMultiplier, findAllSongMatches, findAllArtistMatches, calculateGenreMatchScore, areGenresSimilar, getTimeFrameLabel, checkSongsInLikedTracks, etc., adapting them slightly if needed to use the structured 'artists' array instead of 'artistName' string where appropriate)
+    // --- Team Selection ---
+
+    /**
+     * Group blend fairness: before the normal passes, give each member (scarcest first) the best
+     * candidate picked for their own taste, in that candidate's best-fitting open slot.
+     * Every candidate's explanation records the member it best reflects.
+     */
+    private reserveBlendPicks(positions: Position[], candidatePool: PlayerWithScore[], state: TeamSelectionState): void {
+        const memberTastes: MemberTaste[] = this.blendMembers.map(member => ({
+            memberId: member.memberId,
+            name: member.name,
+            tracks: Object.values(this.normalizeUserTracks(member.topTracks)).flat(),
+            artists: Object.values(this.normalizeUserArtists(member.topArtists)).flat(),
+            topGenres: new Set(member.genres.slice(0, NUM_USER_TOP_GENRES).map(g => g.name.toLowerCase()))
+        }));
+        const affinities = new Map(candidatePool.map(candidate => [candidate.player.playerId, this.getMemberAffinities(candidate, memberTastes)]));
+        candidatePool.forEach(candidate => {
+            const bestMember = affinities.get(candidate.player.playerId)?.[0];
+            if (bestMember) candidate.explanation = { ...candidate.explanation, pickedFor: bestMember.name };
+        });
+
+        const candidatesFor = (memberId: string) => candidatePool
+            .map(candidate => ({ candidate, affinity: affinities.get(candidate.player.playerId)?.find(a => a.memberId === memberId)?.affinity ?? 0 }))
+            .filter(entry => entry.affinity > 0)
+            .sort((a, b) => b.affinity * b.candidate.matchScore - a.affinity * a.candidate.matchScore);
+        const members = this.blendMembers
+            .map(member => ({ member, candidates: candidatesFor(member.memberId) }))
+            .sort((a, b) => a.candidates.length - b.candidates.length);
+
+        for (const { member, candidates } of members) {
+            const picked = candidates.some(({ candidate }) => {
+                const openSlots = positions
+                    .filter(pos => !state.team[pos])
+                    .map(pos => ({ pos, fit: this.getPositionFit(candidate.player.position, pos) }))
+                    .filter((slot): slot is { pos: Position; fit: PositionFit } => slot.fit !== null)
+                    .sort((a, b) => POSITION_FIT_ORDER.indexOf(a.fit) - POSITION_FIT_ORDER.indexOf(b.fit));
+                if (openSlots.length === 0) return false;
+                const reserved = this.applyDiversityBoost({
+                    ...candidate,
+                    explanation: { ...candidate.explanation, pickedFor: member.name }
+                }, state);
+                return this.trySelectCandidate(reserved, openSlots[0].pos, state);
+            });
+            console.log(`TeamMatcherService: ${picked ? 'Reserved a player' : 'Could not reserve a player'} for blend member ${member.name}.`);
+        }
+    }
+
+    /**
+     * Blend members whose own top tracks, artists or genres the candidate's best song matches, strongest first.
+     */
+    private getMemberAffinities(candidate: PlayerWithScore, memberTastes: MemberTaste[]): MemberAffinity[] {
+        const bestSongMatch = candidate.matchingSongs[0];
+        const walkupSong = candidate.player.walkupSongs?.find(ws =>
+            ws.songName === bestSongMatch?.songName && (ws.spotifyId || '') === (bestSongMatch?.spotifyId || '')
+        );
+        if (!walkupSong) return [];
+        const playerSong = this.normalizePlayerSong(walkupSong);
+
+        return memberTastes.map(member => {
+            const trackConfidence = Math.max(0, ...member.tracks.map(track => this.getTrackMatchConfidence(playerSong, track)));
+            const artistConfidence = Math.max(0, ...playerSong.artists.flatMap(artist =>
+                member.artists.map(userArtist => this.getArtistMatchConfidence(artist, userArtist))
+            ));
+            const sharesGenre = playerSong.genres.some(genre => member.topGenres.has(genre));
+            return {
+                memberId: member.memberId,
+                name: member.name,
+                affinity: Math.max(
+                    BLEND_AFFINITY.TRACK * trackConfidence,
+                    BLEND_AFFINITY.ARTIST * artistConfidence,
+                    sharesGenre ? BLEND_AFFINITY.GENRE : 0
+                )
+            };
+        })
+            .filter(entry => entry.affinity > 0)
+            .sort((a, b) => b.affinity - a.affinity);
+    }
+
+    /**
+     * Fill each open slot in roster order with the best eligible candidate.
+     */
+    private selectGreedyTeam(positions: Position[], candidatePool: PlayerWithScore[], state: TeamSelectionState): void {
+        for (const targetPosition of positions) {
+            if (state.team[targetPosition]) continue; // Already filled by the optimal pass
+
+            const eligibleCandidates = candidatePool.filter(candidate =>
+                this.isCandidateEligibleForPosition(candidate, targetPosition) &&
+                !state.usedCandidateIds.has(candidate.player.playerId)
+            );
+
+            console.log(`\nTeamMatcherService: Processing Position: ${targetPosition}. Eligible Candidates: ${eligibleCandidates.length}`);
+            if (eligibleCandidates.length === 0) {
+                console.log(` -> No eligible candidates found.`);
+                continue;
+            }
+
+            const sortedEligible = eligibleCandidates
+                .map(candidate => this.applyDiversityBoost(candidate, state))
+                .sort((a, b) => (b.scoreForSorting ?? 0) - (a.scoreForSorting ?? 0));
+
+            const candidateSelected = sortedEligible.some(candidate => this.trySelectCandidate(candidate, targetPosition, state));
+            if (!candidateSelected) {
+                console.log(` -> Could not find suitable candidate for position ${targetPosition} after applying penalties/uniqueness checks.`);
+            }
+        }
+    }
+
+    /**
+     * Assign candidates to all open slots at once by solving slots × candidates as an assignment problem,
+     * valuing each pair at matchScore × POSITION_WEIGHTS for the position fit.
+     * Artist repeats, duplicate songs and genre diversity depend on the other picks, so they are folded
+     * into the objective by re-solving with values adjusted for the previous solution, keeping the best.
+     */
+    private selectOptimalTeam(positions: Position[], candidatePool: PlayerWithScore[], state: TeamSelectionState): void {
+        const openPositions = positions.filter(pos => !state.team[pos]);
+        if (openPositions.length === 0) return;
+
+        const baseValues: Array<Array<number | null>> = openPositions.map(pos => candidatePool.map(candidate => {
+            const fit = this.getPositionFit(candidate.player.position, pos);
+            return fit ? candidate.matchScore * POSITION_WEIGHTS[fit] : null;
+        }));
+
+        let values = baseValues.map(row => row.map(value => value ?? 0));
+        let best: { assignment: number[]; objective: number } | null = null;
+        let previousKey = '';
+
+        for (let iteration = 0; iteration < MAX_ASSIGNMENT_ITERATIONS; iteration++) {
+            // One zero-cost "leave open" column per slot keeps the matrix solvable with few candidates
+            const cost = values.map((row, slotIndex) => [
+                ...row.map((value, candidateIndex) => baseValues[slotIndex][candidateIndex] === null ? INELIGIBLE_COST : -value),
+                ...openPositions.map(() => 0)
+            ]);
+            const assignment = solveAssignment(cost).map(candidateIndex =>
+                candidateIndex < candidatePool.length ? candidateIndex : -1
+            );
+
+            const objective = this.evaluateAssignment(assignment, baseValues, candidatePool, state).objective;
+            console.log(`TeamMatcherService: Optimal assignment iteration ${iteration + 1}, objective ${objective.toFixed(3)}`);
+            if (!best || objective > best.objective) {
+                best = { assignment, objective };
+            }
+
+            const key = assignment.join(',');
+            if (key === previousKey) break;
+            previousKey = key;
+
+            const { multipliers, boosts } = this.evaluateAssignment(assignment, baseValues, candidatePool, state);
+            values = baseValues.map(row => row.map((value, candidateIndex) =>
+                value === null ? 0 : value * multipliers[candidateIndex] + boosts[candidateIndex]
+            ));
+        }
+
+        if (!best) return;
+
+        // Accept the strongest players first so repeat penalties fall on the weaker picks
+        const picks = best.assignment
+            .map((candidateIndex, slotIndex) => ({ candidateIndex, slotIndex }))
+            .filter(pick => pick.candidateIndex >= 0 && baseValues[pick.slotIndex][pick.candidateIndex] !== null)
+            .sort((a, b) => candidatePool[b.candidateIndex].matchScore - candidatePool[a.candidateIndex].matchScore);
+
+        for (const pick of picks) {
+            const candidate = this.applyDiversityBoost(candidatePool[pick.candidateIndex], state);
+            if (!this.trySelectCandidate(candidate, openPositions[pick.slotIndex], state)) {
+                console.log(` -> Optimal pick ${candidate.player.playerName} for ${openPositions[pick.slotIndex]} rejected, leaving slot for greedy fill.`);
+            }
+        }
+    }
+
+    /**
+     * Score an assignment with the team-level adjustments applied in pick order, and work out
+     * each candidate's multiplier and boost given everyone else in the assignment.
+     */
+    private evaluateAssignment(
+        assignment: number[],
+        baseValues: Array<Array<number | null>>,
+        candidatePool: PlayerWithScore[],
+        state: TeamSelectionState
+    ): { objective: number; multipliers: number[]; boosts: number[] } {
+        const picks = assignment
+            .map((candidateIndex, slotIndex) => ({ candidateIndex, value: candidateIndex >= 0 ? baseValues[slotIndex][candidateIndex] : null }))
+            .filter((pick): pick is { candidateIndex: number; value: number } => pick.value !== null && pick.value !== undefined)
+            .sort((a, b) => candidatePool[b.candidateIndex].matchScore - candidatePool[a.candidateIndex].matchScore);
+
+        // Objective: walk the picks strongest first, as acceptance will
+        let objective = 0;
+        const artistCounts = new Map(this.usedArtistsMap);
+        const songKeys = new Set(state.usedSongKeys);
+        const genreCounts = new Map(state.teamGenreCounts);
+        for (const pick of picks) {
+            const candidate = candidatePool[pick.candidateIndex];
+            const { songKey, artistKey } = this.getSongKeys(candidate);
+            if (songKeys.has(songKey)) continue;
+            songKeys.add(songKey);
+
+            const occurrences = artistCounts.get(artistKey) || 0;
+            artistCounts.set(artistKey, occurrences + 1);
+            objective += pick.value * (1 - this.computePenaltyMultiplier(occurrences));
+
+            if (this.getBoostingGenre(candidate, genreCounts, state.userTopNGenres)) {
+                objective += this.weights.DIVERSITY_BOOST_AMOUNT;
+            }
+            const genreToCount = this.getGenreToCount(candidate, state.userTopNGenres);
+            if (genreToCount) genreCounts.set(genreToCount, (genreCounts.get(genreToCount) || 0) + 1);
+        }
+
+        // Per-candidate adjustments: only stronger picks count against a candidate
+        const multipliers: number[] = [];
+        const boosts: number[] = [];
+        candidatePool.forEach((candidate, candidateIndex) => {
+            const { songKey, artistKey } = this.getSongKeys(candidate);
+            const strongerPicks = picks
+                .filter(pick => pick.candidateIndex !== candidateIndex &&
+                    candidatePool[pick.candidateIndex].matchScore >= candidate.matchScore)
+                .map(pick => candidatePool[pick.candidateIndex]);
+
+            if (state.usedSongKeys.has(songKey) || strongerPicks.some(other => this.getSongKeys(other).songKey === songKey)) {
+                multipliers.push(0);
+                boosts.push(0);
+                return;
+            }
+            const occurrences = (this.usedArtistsMap.get(artistKey) || 0) +
+                strongerPicks.filter(other => this.getSongKeys(other).artistKey === artistKey).length;
+            multipliers.push(1 - this.computePenaltyMultiplier(occurrences));
+
+            const othersGenreCounts = new Map(state.teamGenreCounts);
+            strongerPicks.forEach(other => {
+                const genre = this.getGenreToCount(other, state.userTopNGenres);
+                if (genre) othersGenreCounts.set(genre, (othersGenreCounts.get(genre) || 0) + 1);
+            });
+            boosts.push(this.getBoostingGenre(candidate, othersGenreCounts, state.userTopNGenres) ? this.weights.DIVERSITY_BOOST_AMOUNT : 0);
+        });
+
+        return { objective, multipliers, boosts };
+    }
+
+    /**
+     * Attach the diversity boost the candidate would get with the team as it stands.
+     */
+    private applyDiversityBoost(candidate: PlayerWithScore, state: TeamSelectionState): PlayerWithScore {
+        const boostingGenre = this.getBoostingGenre(candidate, state.teamGenreCounts, state.userTopNGenres);
+        return {
+            ...candidate,
+            scoreForSorting: candidate.matchScore + (boostingGenre ? this.weights.DIVERSITY_BOOST_AMOUNT : 0),
+            boostingGenre
+        };
+    }
+
+    /**
+     * Place a candidate in a slot unless their song is already on the team or the artist
+     * repeat penalty drops them below the profile's MIN_MATCH_SCORE. Returns whether they were placed.
+     */
+    private trySelectCandidate(candidate: PlayerWithScore, targetPosition: Position, state: TeamSelectionState): boolean {
+        if (state.usedCandidateIds.has(candidate.player.playerId)) return false;
+
+        const primaryWalkupSong = candidate.player.walkupSongs?.[0];
+        if (!primaryWalkupSong) return false;
+
+        // Use primary artist for song uniqueness and the penalty check
+        const { songKey, artistKey: primaryArtistKey } = this.getSongKeys(candidate);
+        if (state.usedSongKeys.has(songKey)) return false;
+
+        const artistOccurrences = this.usedArtistsMap.get(primaryArtistKey) || 0;
+        const penaltyMultiplier = this.computePenaltyMultiplier(artistOccurrences);
+        const scoreAfterPenalty = candidate.matchScore * (1 - penaltyMultiplier);
+        if (scoreAfterPenalty < this.weights.MIN_MATCH_SCORE) return false;
+
+        console.log(` -> Selected ${candidate.player.playerName} for ${targetPosition} (Score: ${candidate.matchScore.toFixed(3)}, Adjusted: ${scoreAfterPenalty.toFixed(3)}, BoostedForSort: ${candidate.scoreForSorting?.toFixed(3)}, PenaltyMult: ${penaltyMultiplier.toFixed(2)})`);
+
+        // Record the selection-time adjustments alongside the scoring components
+        const diversityBoost = (candidate.scoreForSorting ?? candidate.matchScore) - candidate.matchScore;
+        const selectionComponents: MatchComponent[] = [];
+        if (candidate.boostingGenre && diversityBoost > 0) {
+            selectionComponents.push({
+                type: 'diversity',
+                label: 'Diversity boost',
+                weight: this.weights.DIVERSITY_BOOST_AMOUNT,
+                score: diversityBoost,
+                contribution: diversityBoost,
+                trigger: `Your top genre "${candidate.boostingGenre}" had ${state.teamGenreCounts.get(candidate.boostingGenre) || 0} of ${this.weights.DIVERSITY_THRESHOLD} team spots`
+            });
+        }
+        if (penaltyMultiplier > 0) {
+            selectionComponents.push({
+                type: 'artistPenalty',
+                label: 'Artist repeat penalty',
+                weight: penaltyMultiplier,
+                score: penaltyMultiplier,
+                contribution: -(candidate.matchScore * penaltyMultiplier),
+                trigger: `${this.getPrimaryArtistName(primaryWalkupSong)} already had ${artistOccurrences} song${artistOccurrences === 1 ? '' : 's'} on the team`
+            });
+        }
+        const explainedCandidate: PlayerWithScore = {
+            ...candidate,
+            explanation: {
+                ...candidate.explanation,
+                selectionScore: scoreAfterPenalty + diversityBoost,
+                components: [...candidate.explanation.components, ...selectionComponents]
+            }
+        };
+
+        state.team[targetPosition] = { candidate: explainedCandidate, assignedPosition: targetPosition };
+        state.usedCandidateIds.add(candidate.player.playerId);
+        state.usedSongKeys.add(songKey);
+        this.usedArtistsMap.set(primaryArtistKey, artistOccurrences + 1);
+
+        const genreToCount = this.getGenreToCount(candidate, state.userTopNGenres);
+        if (genreToCount) {
+            const newCount = (state.teamGenreCounts.get(genreToCount) || 0) + 1;
+            state.teamGenreCounts.set(genreToCount, newCount);
+            console.log(` -> Team genre count updated: ${genreToCount} = ${newCount}`);
+        }
+        return true;
+    }
+
+    /**
+     * First of the user's top genres on the candidate's best song that is still under the diversity threshold.
+     */
+    private getBoostingGenre(candidate: PlayerWithScore, genreCounts: Map<string, number>, userTopNGenres: Set<string>): string | null {
+        for (const genre of this.getBestSongGenres(candidate)) {
+            if (userTopNGenres.has(genre) && (genreCounts.get(genre) || 0) < this.weights.DIVERSITY_THRESHOLD) {
+                return genre;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Genre a selected candidate counts toward: a user top genre if the song has one, else its first genre.
+     */
+    private getGenreToCount(candidate: PlayerWithScore, userTopNGenres: Set<string>): string | null {
+        const songGenres = this.getBestSongGenres(candidate);
+        return songGenres.find(g => userTopNGenres.has(g)) ?? songGenres[0] ?? null;
+    }
+
+    private getSongKeys(candidate: PlayerWithScore): { songKey: string; artistKey: string } {
+        const primaryWalkupSong = candidate.player.walkupSongs?.[0];
+        const artistKey = (primaryWalkupSong ? this.getPrimaryArtistName(primaryWalkupSong).toLowerCase() : '') || 'unknown_artist';
+        return { songKey: `${primaryWalkupSong?.songName.toLowerCase() ?? ''}|${artistKey}`, artistKey };
+    }
+
+    // --- Helper Methods ---
+
+    /**
+     * Find the walkup song behind a candidate's best match and return its lowercased genres.
+     */
+    private getBestSongGenres(candidate: PlayerWithScore): string[] {
+        const bestSongMatch = candidate.matchingSongs[0]; // Sorted by score when built
+        if (!bestSongMatch) return [];
+        const walkupSongData = candidate.player.walkupSongs?.find(ws =>
+            ws.songName === bestSongMatch.songName && (ws.spotifyId || '') === (bestSongMatch.spotifyId || '')
+        );
+        return walkupSongData?.genre?.map(g => g.toLowerCase()) || [];
+    }
+
+    private getPrimaryArtistName(song: WalkupSong): string {
+        const primaryArtist = song.artists?.find(a => a.role === 'primary') || song.artists?.[0];
+        return primaryArtist?.name || '';
+    }
 
-    // Example adaptation for calculateGenreMatchScore signature:
     private calculateGenreMatchScore(
         userGenres: Array<{ name: string; weight: number }>,
         playerGenres: string[],
-        playerArtists: Array<{ name: string; role: 'primary' | 'featured' }>, // Use structured artists
+        playerArtists: WalkupSongArtist[], // Use structured artists
         artistsWithLikedSongs: Set<string>
     ): MatchResult {
-         if (!playerGenres || playerGenres.length === 0 || !userGenres || userGenres.length === 0) {
-             return { score: 0, reason: 'No genre data' };
-         }
-         // ... rest of existing logic ...
-
-         // Modify bonus check to use the structured array
-         let artistLikedBonus = 0;
-         for (const artist of playerArtists) {
-             if (artistsWithLikedSongs.has(artist.name.toLowerCase())) {
-                 artistLikedBonus = SCORE_WEIGHTS.GENRE_ARTIST_LIKED_BONUS;
-                 break;
-             }
-         }
-         // ... rest of existing logic ...
-         const score = (weightedMatchScore * SCORE_WEIGHTS.MATCH_TYPE.GENRE) + topGenreBonus + artistLikedBonus;
-         // ... reason/details generation ...
-         return { score: Math.min(score, SCORE_WEIGHTS.MATCH_TYPE.GENRE + 0.2), reason, details };
-    }
-
-    // Example adaptation for findAllArtistMatches signature:
+        if (!playerGenres || playerGenres.length === 0 || !userGenres || userGenres.length === 0) {
+            return { score: 0, reason: 'No genre data' };
+        }
+
+        const exactMatches: Array<{ name: string; weight: number }> = [];
+        const similarMatches: Array<{ name: string; weight: number; similarity: number }> = [];
+
+        userGenres.forEach(userGenre => {
+            const hasExactMatch = playerGenres.some(playerGenre => playerGenre === userGenre.name);
+            if (hasExactMatch) {
+                exactMatches.push(userGenre);
+                return;
+            }
+            // Closest song genre counts, scaled by how similar it is
+            const similarity = Math.max(...playerGenres.map(playerGenre => this.getGenreSimilarity(playerGenre, userGenre.name)));
+            if (similarity >= GENRE_SIMILARITY_THRESHOLD) {
+                similarMatches.push({ ...userGenre, similarity });
+            }
+        });
+
+        const allMatches = [
+            ...exactMatches.map(m => ({ ...m, isExact: true })),
+            ...similarMatches.map(m => ({ ...m, isExact: false }))
+        ];
+
+        if (allMatches.length === 0) {
+            return { score: 0, reason: 'No genre matches' };
+        }
+
+        const totalWeight = userGenres.reduce((sum, g) => sum + g.weight, 0) || 1; // Avoid division by zero
+        const exactMatchWeight = exactMatches.reduce((sum, m) => sum + m.weight, 0);
+        const similarMatchWeight = similarMatches.reduce((sum, m) => sum + m.weight * m.similarity, 0);
+        const weightedMatchScore = (exactMatchWeight * (1 + this.weights.SCORE_WEIGHTS.EXACT_GENRE_MATCH_BONUS) + similarMatchWeight) / totalWeight;
+
+        // Extra credit for hitting the user's top 3 genres, more if those hits are exact
+        let topGenreBonus = 0;
+        const userTop3Genres = userGenres.slice(0, 3);
+        const matchesTopGenres = allMatches.filter(m => userTop3Genres.some(tg => tg.name === m.name));
+        if (matchesTopGenres.length > 0) {
+            const topGenreMatchWeight = matchesTopGenres.reduce((sum, m) => sum + m.weight, 0);
+            const topGenreTotalWeight = userTop3Genres.reduce((sum, g) => sum + g.weight, 0) || 1;
+            topGenreBonus = 0.1 * (topGenreMatchWeight / topGenreTotalWeight);
+
+            const exactTopMatches = matchesTopGenres.filter(m => m.isExact);
+            if (exactTopMatches.length > 0) {
+                topGenreBonus += 0.05 * (exactTopMatches.length / matchesTopGenres.length);
+            }
+        }
+
+        let artistLikedBonus = 0;
+        let likedArtistName = '';
+        for (const artist of playerArtists) {
+            if (artistsWithLikedSongs.has(artist.name)) {
+                artistLikedBonus = this.weights.SCORE_WEIGHTS.GENRE_ARTIST_LIKED_BONUS;
+                likedArtistName = artist.name;
+                break;
+            }
+        }
+
+        const score = (weightedMatchScore * this.weights.SCORE_WEIGHTS.MATCH_TYPE.GENRE) + topGenreBonus + artistLikedBonus;
+
+        const strength = weightedMatchScore >= 0.8 ? 'Strong'
+            : weightedMatchScore >= 0.5 ? 'Good'
+            : weightedMatchScore >= 0.3 ? 'Partial'
+            : 'Minor';
+        let reason = exactMatches.length > 0 ? `${strength} exact genre match` : `${strength} genre match`;
+        if (artistLikedBonus > 0) {
+            reason += ' (artist liked)';
+        }
+
+        // Show up to two matching genres, exact matches first
+        const details = [...exactMatches, ...similarMatches].slice(0, 2).map(m => m.name).join(', ');
+
+        let trigger = `Your genres: ${allMatches.map(m => m.name).join(', ')}`;
+        if (likedArtistName) {
+            trigger += `; you listen to ${likedArtistName} (+${this.weights.SCORE_WEIGHTS.GENRE_ARTIST_LIKED_BONUS})`;
+        }
+
+        return { score, reason, details, source: 'genre', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.GENRE, trigger };
+    }
+
     private findAllArtistMatches(
-        playerSong: { name: string; spotifyId?: string; artists: Array<{ name: string; role: string }> }, // Use artists array
-        userArtists: Record<TimeFrame, NormalizedArtist[]>
+        playerSong: NormalizedPlayerSong,
+        userArtists: Record<TimeFrame, NormalizedArtist[]>,
+        userLibrary: UserLibrary
     ): MatchResult[] {
         const matches: MatchResult[] = [];
-        const timeFrames: TimeFrame[] = ['long_term', 'medium_term', 'short_term'];
-        const matchedArtistDetails = new Map<string, { bestScore: number, rank: number, timeFrame: TimeFrame, role: string, reason: string, details: string }>();
+        const matchedArtistDetails = new Map<string, { bestScore: number, rank: number, timeFrame: TimeFrame, role: string, reason: string, details: string, displayName: string, confidence: number }>();
+        const unmatchedArtists: WalkupSongArtist[] = []; // Not in the user's top artists; checked against followed artists
 
-        // 1. Feature check (can remain as is, parses title)
-        const featureMatches = this.checkForFeatureMatch(playerSong.name, userArtists);
+        // 1. Feature check (parses title)
+        const featureMatches = this.checkForFeatureMatch(playerSong.displayName, userArtists);
         matches.push(...featureMatches);
 
         // 2. Check Primary/Listed Artists from the structured array
-        const artistList = playerSong.artists || []; // Use the provided structured array
-
-        for (const artist of artistList) {
+        for (const artist of playerSong.artists) {
             if (!artist.name) continue;
-            const artistNameLower = artist.name.toLowerCase();
-             let bestMatchForThisArtist: { score: number; rank: number; timeFrame: TimeFrame } | null = null;
-
-             for (const timeFrame of timeFrames) {
-                 const artistsInTimeframe = userArtists[timeFrame] || [];
-                 const matchedUserArtist = artistsInTimeframe.find(userArtist =>
-                     userArtist.name && artistNameLower && userArtist.name === artistNameLower // Compare normalized names
-                 );
-
-                 if (matchedUserArtist?.rank) {
-                    // ... calculate score using rank, timeframe, ARTIST_RANK_BONUS ...
-                     const rank = matchedUserArtist.rank;
-                    const rankBonuses = SCORE_WEIGHTS.ARTIST_RANK_BONUS[ /* ... get correct timeframe bonus array ... */ ];
-                    let rankBonus = 0;
-                    for (const tier of rankBonuses) { if (rank <= tier.threshold) { rankBonus = tier.bonus; break; } }
-                      const timeFrameBonus = SCORE_WEIGHTS.TIME_FRAME[timeFrame];
-                      const baseScore = SCORE_WEIGHTS.MATCH_TYPE.TOP_ARTIST + timeFrameBonus + rankBonus;
-                    const roleMultiplier = artist.role === 'primary' ? 1.0 : 0.8; // Use role from input
-                      const score = baseScore * roleMultiplier;
-
-                      if (!bestMatchForThisArtist || score > bestMatchForThisArtist.score) {
-                           bestMatchForThisArtist = { score, rank, timeFrame };
-                      }
-                 }
+            let bestMatchForThisArtist: {
+                score: number; rank: number; timeFrame: TimeFrame; displayName: string; confidence: number; key: string
+            } | null = null;
+
+            for (const timeFrame of TIME_FRAMES) {
+                const found = this.findBestNameMatch(userArtists[timeFrame] || [], userArtist => this.getArtistMatchConfidence(artist, userArtist));
+                const matchedUserArtist = found?.item;
+
+                if (found && matchedUserArtist?.rank) {
+                    const rank = matchedUserArtist.rank;
+                    const rankBonus = this.getArtistRankBonus(rank, timeFrame);
+                    const timeFrameBonus = this.weights.SCORE_WEIGHTS.TIME_FRAME[timeFrame];
+                    const baseScore = this.weights.SCORE_WEIGHTS.MATCH_TYPE.TOP_ARTIST + timeFrameBonus + rankBonus;
+                    const roleMultiplier = artist.role === 'primary' ? 1.0 : 0.8;
+                    const score = baseScore * roleMultiplier * found.confidence * (matchedUserArtist.playShare ?? 1);
+
+                    if (!bestMatchForThisArtist || score > bestMatchForThisArtist.score) {
+                        bestMatchForThisArtist = {
+                            score, rank, timeFrame, confidence: found.confidence,
+                            displayName: matchedUserArtist.displayName || artist.name,
+                            key: matchedUserArtist.id || matchedUserArtist.name // Credits resolving to the same artist count once
+                        };
+                    }
+                }
             } // End timeframe loop
 
-             if (bestMatchForThisArtist) {
-                 const details = `#${bestMatchForThisArtist.rank} ${bestMatchForThisArtist.timeFrame === 'long_term' ? 'all time' : `in ${this.getTimeFrameLabel(bestMatchForThisArtist.timeFrame)}`}`;
-                 const reason = artist.role === 'primary' ? 'Top artist' : 'Featured artist'; // Use role
-                 const existingBest = matchedArtistDetails.get(artistNameLower);
-                 if (!existingBest || bestMatchForThisArtist.score > existingBest.bestScore) {
-                      matchedArtistDetails.set(artistNameLower, {
-                          bestScore: bestMatchForThisArtist.score, rank: bestMatchForThisArtist.rank, timeFrame: bestMatchForThisArtist.timeFrame,
-                          role: artist.role, reason: reason, details: details
+            if (!bestMatchForThisArtist) {
+                unmatchedArtists.push(artist);
+            } else {
+                const details = this.formatRankDetails(bestMatchForThisArtist.rank, bestMatchForThisArtist.timeFrame);
+                const reason = artist.role === 'primary' ? 'Top artist' : 'Featured artist';
+                const existingBest = matchedArtistDetails.get(bestMatchForThisArtist.key);
+                if (!existingBest || bestMatchForThisArtist.score > existingBest.bestScore) {
+                    matchedArtistDetails.set(bestMatchForThisArtist.key, {
+                        bestScore: bestMatchForThisArtist.score, rank: bestMatchForThisArtist.rank, timeFrame: bestMatchForThisArtist.timeFrame,
+                        role: artist.role, reason, details, displayName: bestMatchForThisArtist.displayName,
+                        confidence: bestMatchForThisArtist.confidence
                     });
-                 }
-             }
+                }
+            }
         } // End artistList loop
 
-        // 3. Add final matches from map
-        matchedArtistDetails.forEach((details) => {
-             matches.push({ score: details.bestScore, reason: details.reason, details: details.details, rank: details.rank, timeFrame: details.timeFrame });
-         });
-
-        // 4. Apply Multiple Artist Bonus (logic can likely remain similar, uses matchedArtistDetails map)
-        // ...
-
-         return matches.sort((a, b) => b.score - a.score);
-     }
-
-
-     // --- Need implementations for all other helper methods used above ---
-     // calculateStatsBonus, validatePlayerStats, isCandidateEligibleForPosition,
-     // computePenaltyMultiplier, findAllSongMatches, checkForFeatureMatch,
-     // areGenresSimilar, getTimeFrameLabel, checkSongsInLikedTracks,
-     // normalizeUserTracks, normalizeUserArtists, getArtistsWithLikedSongs
-
-     // Example implementations (ensure these match your original logic, adapted for types)
-        private normalizeUserTracks(userTopTracks: { short_term: SpotifyTopItem[]; medium_term: SpotifyTopItem[]; long_term: SpotifyTopItem[] }): Record<TimeFrame, NormalizedTrack[]> {
-            const normalized: Record<TimeFrame, NormalizedTrack[]> = { short_term: [], medium_term: [], long_term: [] };
-            (['short_term', 'medium_term', 'long_term'] as TimeFrame[]).forEach(tf => {
-                normalized[tf] = (userTopTracks[tf] || []).map((track, index) => ({
-                    name: track.name?.toLowerCase() || '',
-                    artist: track.artists?.[0]?.name?.toLowerCase() || '', // Primary artist
-                    spotifyId: track.id,
-                    albumId: track.album?.id,
-                    albumName: track.album?.name || '',
-                    rank: index + 1,
-                    timeFrame: tf
-                }));
+        // 3. Add final matches from map, plus followed artists that aren't top artists
+        const artistMatches: MatchResult[] = Array.from(matchedArtistDetails.entries())
+            .map(([key, details]): MatchResult => {
+                const savedAlbumBonus = this.getSavedAlbumBonus(key, details.displayName, userLibrary);
+                return {
+                    score: details.bestScore + savedAlbumBonus, reason: details.reason, details: details.details, rank: details.rank, timeFrame: details.timeFrame,
+                    source: 'artist', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.TOP_ARTIST, confidence: details.confidence,
+                    trigger: `${details.displayName} ${details.details}${this.formatConfidence(details.confidence)}${savedAlbumBonus > 0 ? '; you saved an album by them' : ''}`
+                };
             });
-            return normalized;
-        }
-
-        private normalizeUserArtists(userTopArtists: { short_term: SpotifyTopItem[]; medium_term: SpotifyTopItem[]; long_term: SpotifyTopItem[] }): Record<TimeFrame, NormalizedArtist[]> {
-             const normalized: Record<TimeFrame, NormalizedArtist[]> = { short_term: [], medium_term: [], long_term: [] };
-            (['short_term', 'medium_term', 'long_term'] as TimeFrame[]).forEach(tf => {
-                 normalized[tf] = (userTopArtists[tf] || []).map((artist, index) => ({
-                     name: artist.name?.toLowerCase() || '',
-                     id: artist.id,
-                     rank: index + 1,
-                     timeFrame: tf
-                 }));
-             });
-             return normalized;
-        }
-
-        private getArtistsWithLikedSongs(
-            normalizedUserTracks: Record<TimeFrame, NormalizedTrack[]>,
-            normalizedUserArtists: Record<TimeFrame, NormalizedArtist[]>,
-            likedTrackIdSet: Set<string>
-        ): Set<string> {
-             const artists = new Set<string>();
-             likedTrackIdSet.forEach(trackId => {
-                 for (const tf of ['short_term', 'medium_term', 'long_term'] as TimeFrame[]) {
-                     const track = normalizedUserTracks[tf].find(t => t.spotifyId === trackId);
-                     if (track?.artist) {
-                         artists.add(track.artist);
-                              break;
-                     }
-                 }
-             });
-             for (const tf of ['short_term', 'medium_term', 'long_term'] as TimeFrame[]) {
-                normalizedUserArtists[tf].forEach(artist => artists.add(artist.name));
+        artistMatches.push(...this.findFollowedArtistMatches(unmatchedArtists, userLibrary, new Set(matchedArtistDetails.keys())));
+        artistMatches.sort((a, b) => b.score - a.score);
+
+        // 4. Multiple Artist Bonus: each additional matched artist adds a shrinking bonus to the best one
+        if (artistMatches.length > 1) {
+            let multipleArtistBonus = 0;
+            for (let i = 1; i < artistMatches.length; i++) {
+                const qualityFactor = (artistMatches[i].rank ?? Infinity) <= 25 ? 0.2 : 0.1;
+                multipleArtistBonus += (this.weights.SCORE_WEIGHTS.MULTIPLE_MATCHES_BONUS * qualityFactor) / i;
             }
-             return artists;
-        }
-
-        // Add placeholders or full implementations for other private methods...
-        private calculateStatsBonus(player: PlayerWalkupSong): number { /* ... implementation ... */ return 0.01; }
-        private validatePlayerStats(player: PlayerWalkupSong): boolean { /* ... implementation ... */ return true; }
-        private isCandidateEligibleForPosition(candidate: PlayerWithScore, position: Position): boolean { /* ... implementation ... */ return true; }
-        private computePenaltyMultiplier(index: number): number { /* ... implementation ... */ return SCORE_WEIGHTS.ARTIST_DIVERSITY_PENALTY.FIRST; }
-        private async findAllSongMatches(playerSong: any, userTracks: any, likedTrackIdSet: any): Promise<MatchResult[]> { /* ... implementation ... */ return []; }
-        private checkForFeatureMatch(songTitle: string, userArtists: any): MatchResult[] { /* ... implementation ... */ return []; }
-        private areGenresSimilar(genre1: string, genre2: string): boolean { /* ... implementation ... */ return false; }
-        private getTimeFrameLabel(timeFrame: TimeFrame): string { /* ... implementation ... */ return timeFrame; }
-        private async checkSongsInLikedTracks(spotifyIds: string[], accessToken: string): Promise<boolean[]> {
-             // Copied from original service for completeness
-            if (!spotifyIds || spotifyIds.length === 0 || spotifyIds.every(id => !id)) return spotifyIds.map(() => false);
-            const validIds = spotifyIds.filter(id => id && typeof id === 'string');
-            if (validIds.length === 0) return spotifyIds.map(() => false);
+            artistMatches[0].score += multipleArtistBonus;
+            artistMatches[0].reason += ` (${artistMatches.length} unique artists)`;
+            artistMatches[0].trigger += `; also ${artistMatches.slice(1).map(m => m.trigger).join(', ')}`;
+        }
+        matches.push(...artistMatches);
 
-            try {
-                const batchSize = 50;
-                const resultsMap = new Map<string, boolean>();
-                for (let i = 0; i < validIds.length; i += batchSize) {
-                    const batch = validIds.slice(i, i + batchSize);
-                    const apiUrl = `https://api.spotify.com/v1/me/tracks/contains?ids=${batch.join(',')}`;
-                    const response = await axios.get<boolean[]>(apiUrl, { headers: { 'Authorization': `Bearer ${accessToken}` } });
-                    if (response.data && Array.isArray(response.data) && response.data.length === batch.length) {
-                        batch.forEach((id, index) => resultsMap.set(id, response.data[index]));
-                    } else {
-                        console.error('Unexpected response format from Spotify /me/tracks/contains:', response.data);
-                        batch.forEach(id => resultsMap.set(id, false));
+        // 5. Related artists, only when none of the song's artists is one the user plays
+        if (artistMatches.length === 0) {
+            const relatedMatch = this.findRelatedArtistMatch(playerSong, userArtists);
+            if (relatedMatch) matches.push(relatedMatch);
+        }
+
+        return matches.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Matches for song artists the user follows but doesn't have among their top artists.
+     */
+    private findFollowedArtistMatches(
+        artists: WalkupSongArtist[],
+        userLibrary: UserLibrary,
+        alreadyMatched: Set<string>
+    ): MatchResult[] {
+        const matches: MatchResult[] = [];
+        const matchedKeys = new Set(alreadyMatched);
+
+        for (const artist of artists) {
+            const found = this.findBestNameMatch(userLibrary.followedArtists, followed => this.getArtistMatchConfidence(artist, followed));
+            if (!found) continue;
+            const key = found.item.id || found.item.name;
+            if (matchedKeys.has(key)) continue;
+            matchedKeys.add(key);
+
+            const displayName = found.item.displayName || artist.name;
+            const roleMultiplier = artist.role === 'primary' ? 1.0 : 0.8;
+            const savedAlbumBonus = this.getSavedAlbumBonus(key, displayName, userLibrary);
+            matches.push({
+                score: this.weights.SCORE_WEIGHTS.MATCH_TYPE.FOLLOWED_ARTIST * roleMultiplier * found.confidence + savedAlbumBonus,
+                reason: 'Followed artist', details: 'You follow them',
+                source: 'followed', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.FOLLOWED_ARTIST, confidence: found.confidence,
+                trigger: `You follow ${displayName}${this.formatConfidence(found.confidence)}${savedAlbumBonus > 0 ? '; you saved an album by them' : ''}`
+            });
+        }
+
+        return matches;
+    }
+
+    /**
+     * SAVED_ALBUM_BONUS if the user saved an album by this artist (matched by Spotify ID or normalized name).
+     */
+    private getSavedAlbumBonus(artistKey: string, artistName: string, userLibrary: UserLibrary): number {
+        const hasSavedAlbum = userLibrary.savedAlbumArtists.has(artistKey)
+            || userLibrary.savedAlbumArtists.has(normalizeArtistName(artistName));
+        return hasSavedAlbum ? this.weights.SCORE_WEIGHTS.SAVED_ALBUM_BONUS : 0;
+    }
+
+    /**
+     * Best match through the related-artist graph, e.g. PARTYNEXTDOOR for a Drake fan.
+     * Scored as the top artist hit it stands in for, scaled by RELATED_ARTIST / TOP_ARTIST and relatedness.
+     */
+    private findRelatedArtistMatch(
+        playerSong: NormalizedPlayerSong,
+        userArtists: Record<TimeFrame, NormalizedArtist[]>
+    ): MatchResult | null {
+        const matchTypeWeights = this.weights.SCORE_WEIGHTS.MATCH_TYPE;
+        const relatedShare = matchTypeWeights.RELATED_ARTIST / matchTypeWeights.TOP_ARTIST;
+        let best: MatchResult | null = null;
+
+        for (const artist of playerSong.artists) {
+            if (!artist.spotifyId) continue;
+            const relatedById = new Map(this.relatedArtistGraph.getRelated(artist.spotifyId).map(related => [related.spotifyId, related]));
+            if (relatedById.size === 0) continue;
+
+            for (const timeFrame of TIME_FRAMES) {
+                for (const userArtist of userArtists[timeFrame] || []) {
+                    const related = userArtist.id ? relatedById.get(userArtist.id) : undefined;
+                    if (!related || !userArtist.rank) continue;
+
+                    const rank = userArtist.rank;
+                    const roleMultiplier = artist.role === 'primary' ? 1.0 : 0.8;
+                    const directScore = (matchTypeWeights.TOP_ARTIST + this.weights.SCORE_WEIGHTS.TIME_FRAME[timeFrame] + this.getArtistRankBonus(rank, timeFrame)) * roleMultiplier;
+                    const score = directScore * relatedShare * related.relatedness * (userArtist.playShare ?? 1);
+
+                    if (!best || score > best.score) {
+                        const userArtistName = userArtist.displayName || related.name;
+                        const details = this.formatRankDetails(rank, timeFrame);
+                        best = {
+                            score, reason: `Similar to ${userArtistName}`, details, rank, timeFrame,
+                            source: 'related', weight: matchTypeWeights.RELATED_ARTIST,
+                            trigger: `${userArtistName} ${details}`
+                        };
                     }
                 }
-                return spotifyIds.map(id => resultsMap.get(id) ?? false);
-            } catch (error) {
-                console.error('Error checking songs in liked tracks:', error instanceof Error ? error.message : error);
-                 if (axios.isAxiosError(error) && error.response) { console.error('Spotify API Error:', error.response.status, error.response.data); }
-                return spotifyIds.map(() => false);
             }
-         }
+        }
+
+        return best;
+    }
+
+    private normalizeUserTracks(userTopTracks: SpotifyItemsByTimeFrame): Record<TimeFrame, NormalizedTrack[]> {
+        const normalized: Record<TimeFrame, NormalizedTrack[]> = { short_term: [], medium_term: [], long_term: [], recent: [] };
+        TIME_FRAMES.forEach(tf => {
+            const tracks = userTopTracks[tf] || [];
+            const playShare = this.getPlayShare(tracks);
+            normalized[tf] = tracks.map((track, index) => ({
+                ...this.normalizeTrack(track),
+                rank: index + 1,
+                timeFrame: tf,
+                ...(playShare ? { playShare: playShare(track) } : {})
+            }));
+        });
+        return normalized;
+    }
+
+    private normalizeTrack(track: SpotifyTopItem): NormalizedTrack {
+        return {
+            name: normalizeSongTitle(track.name || ''),
+            artist: normalizeArtistName(track.artists?.[0]?.name || ''), // Primary artist
+            displayName: track.name,
+            spotifyId: track.id,
+            albumId: track.album?.id,
+            albumName: track.album?.name || ''
+        };
+    }
+
+    private normalizeUserArtists(userTopArtists: SpotifyItemsByTimeFrame): Record<TimeFrame, NormalizedArtist[]> {
+        const normalized: Record<TimeFrame, NormalizedArtist[]> = { short_term: [], medium_term: [], long_term: [], recent: [] };
+        TIME_FRAMES.forEach(tf => {
+            const artists = userTopArtists[tf] || [];
+            const playShare = this.getPlayShare(artists);
+            normalized[tf] = artists.map((artist, index) => ({
+                name: normalizeArtistName(artist.name || ''),
+                displayName: artist.name,
+                id: artist.id,
+                rank: index + 1,
+                timeFrame: tf,
+                ...(playShare ? { playShare: playShare(artist) } : {})
+            }));
+        });
+        return normalized;
+    }
+
+    /**
+     * For recently played items, which carry a decayed playWeight: each item's weight relative
+     * to the heaviest, so recent matches score by how much the user played them, not just rank.
+     * Null for top-item lists, which have no play counts.
+     */
+    private getPlayShare(items: SpotifyTopItem[]): ((item: SpotifyTopItem) => number) | null {
+        const maxWeight = Math.max(0, ...items.map(item => item.playWeight ?? 0));
+        if (maxWeight === 0) return null;
+        return item => (item.playWeight ?? 0) / maxWeight;
+    }
+
+    /**
+     * Artists the user has saved songs from, plus all of their top artists.
+     * Used for the liked artist bonus in genre matching.
+     */
+    private getArtistsWithLikedSongs(
+        userSavedTracks: SpotifyTopItem[],
+        normalizedUserArtists: Record<TimeFrame, NormalizedArtist[]>,
+        userLibrary: UserLibrary
+    ): Set<string> {
+        const artists = new Set<string>();
+        userSavedTracks.forEach(track => {
+            const { artist } = this.normalizeTrack(track);
+            if (artist) artists.add(artist);
+        });
+        for (const tf of TIME_FRAMES) {
+            normalizedUserArtists[tf].forEach(artist => artists.add(artist.name));
+        }
+        userLibrary.followedArtists.forEach(artist => artists.add(artist.name));
+        userLibrary.savedAlbums.forEach(album => artists.add(album.artistName));
+        return artists;
+    }
+
+    private normalizeUserLibrary(
+        userSavedAlbums: SpotifySavedAlbum[],
+        userFollowedArtists: SpotifyTopItem[],
+        userPlaylistTracks: SpotifyPlaylistTrack[]
+    ): UserLibrary {
+        const savedAlbums: NormalizedAlbum[] = userSavedAlbums.map(album => ({
+            id: album.id,
+            name: normalizeSongTitle(album.name || ''),
+            artistName: normalizeArtistName(album.artists?.[0]?.name || ''),
+            artistId: album.artists?.[0]?.id,
+            displayName: album.name
+        }));
+        const savedAlbumArtists = new Set<string>();
+        userSavedAlbums.forEach(album => (album.artists || []).forEach(artist => {
+            if (artist.id) savedAlbumArtists.add(artist.id);
+            savedAlbumArtists.add(normalizeArtistName(artist.name));
+        }));
+        const followedArtists: NormalizedArtist[] = userFollowedArtists.map(artist => ({
+            name: normalizeArtistName(artist.name || ''),
+            displayName: artist.name,
+            id: artist.id
+        }));
+
+        const playlistTracksById = new Map<string, NormalizedPlaylistTrack>();
+        const playlistTracksByInitial = new Map<string, NormalizedPlaylistTrack[]>();
+        userPlaylistTracks.forEach(track => {
+            const normalized: NormalizedPlaylistTrack = {
+                ...this.normalizeTrack(track),
+                playlistNames: (track.playlists || []).map(playlist => playlist.name)
+            };
+            if (!normalized.name) return;
+            if (normalized.spotifyId) playlistTracksById.set(normalized.spotifyId, normalized);
+            const initial = normalized.name[0];
+            playlistTracksByInitial.set(initial, [...(playlistTracksByInitial.get(initial) || []), normalized]);
+        });
+
+        return { savedAlbums, savedAlbumArtists, followedArtists, playlistTracksById, playlistTracksByInitial };
+    }
+
+    /**
+     * Small tie-breaking bonus from OPS for hitters and ERA for pitchers.
+     */
+    private calculateStatsBonus(player: PlayerWalkupSong): number {
+        let statsBonus = 0;
+        if (player.position !== 'P' && player.stats?.batting) {
+            const ops = (player.stats.batting.onBasePercentage || 0) + (player.stats.batting.sluggingPercentage || 0);
+            statsBonus = ops > 0.5 ? ((ops - 0.500) / 0.500) * this.weights.STATS_BONUS_WEIGHT : 0;
+        } else if (player.stats?.pitching) {
+            const era = player.stats.pitching.earnedRunAvg || 0;
+            if (era > 0) {
+                statsBonus = ((6.00 - era) / 5.00) * this.weights.STATS_BONUS_WEIGHT;
+            }
+        }
+        return Math.max(0, Math.min(statsBonus, this.weights.STATS_BONUS_WEIGHT)); // Clamp bonus
+    }
+
+    /**
+     * The stat behind the stats bonus, formatted for explanations.
+     */
+    private describeStats(player: PlayerWalkupSong): string {
+        if (player.position !== 'P' && player.stats?.batting) {
+            const ops = (player.stats.batting.onBasePercentage || 0) + (player.stats.batting.sluggingPercentage || 0);
+            return `${player.playerName}: ${ops.toFixed(3).replace(/^0/, '')} OPS`;
+        }
+        return `${player.playerName}: ${(player.stats?.pitching?.earnedRunAvg || 0).toFixed(2)} ERA`;
+    }
+
+    /**
+     * Load games played for every club. Players may carry an abbreviation, full club name
+     * or MSF team ID depending on which sync last touched them, so all three are keyed.
+     */
+    private async loadTeamGamesPlayed(): Promise<void> {
+        this.teamGamesPlayed = new Map();
+        try {
+            this.setTeamGamesPlayed(await TeamStatsModel.find({}));
+        } catch (error) {
+            console.error('TeamMatcherService: Error fetching team games played, using default:', error);
+        }
+    }
+
+    private setTeamGamesPlayed(allTeamStats: ReferenceTeamStats[]): void {
+        const gamesByTeam = new Map<string, number>();
+        allTeamStats.forEach(teamStats => {
+            [teamStats.teamId, teamStats.team, teamStats.name, teamStats.msfTeamId]
+                .filter((key): key is string => Boolean(key))
+                .forEach(key => gamesByTeam.set(key.toLowerCase(), teamStats.gamesPlayed));
+        });
+        this.teamGamesPlayed = gamesByTeam;
+
+        // Players on a team without stats are judged against the league median
+        const sortedGames = allTeamStats.map(teamStats => teamStats.gamesPlayed).sort((a, b) => a - b);
+        if (sortedGames.length > 0) {
+            this.defaultGamesPlayed = sortedGames[Math.floor(sortedGames.length / 2)];
+        }
+        console.log(`TeamMatcherService: Loaded games played for ${allTeamStats.length} teams (default ${this.defaultGamesPlayed}).`);
+    }
+
+    private getTeamGamesPlayed(player: PlayerWalkupSong): number {
+        for (const key of [player.teamId, player.team]) {
+            const gamesPlayed = key ? this.teamGamesPlayed?.get(key.toLowerCase()) : undefined;
+            if (gamesPlayed !== undefined) return gamesPlayed;
+        }
+        return this.defaultGamesPlayed;
+    }
+
+    /**
+     * Validate player stats against their own team's games played.
+     * Players from sources that carry no stats at all are kept.
+     */
+    private validatePlayerStats(player: PlayerWalkupSong): boolean {
+        if (!player.stats) {
+            return true; // Excel sheet or stat-less CSV: nothing to validate against
+        }
+        const gamesPlayed = this.getTeamGamesPlayed(player);
+        if (!gamesPlayed || gamesPlayed <= 0) {
+            console.warn(`TeamMatcherService: Invalid games played (${gamesPlayed}) for validation. Skipping stat validation for ${player.playerName}`);
+            return true; // Skip validation if games played isn't set
+        }
+
+        if (!PITCHER_POSITIONS.includes(player.position)) {
+            const minPA = gamesPlayed * HITTER_PA_PER_GAME_THRESHOLD;
+            return (player.stats?.batting?.plateAppearances ?? 0) >= minPA;
+        }
+
+        const minIP = gamesPlayed * PITCHER_IP_PER_GAME_THRESHOLD;
+        return (player.stats?.pitching?.inningsPitched ?? 0) >= minIP;
+    }
+
+    /**
+     * Determines if a candidate is eligible for a given position.
+     */
+    private isCandidateEligibleForPosition(candidate: PlayerWithScore, position: Position): boolean {
+        return this.getPositionFit(candidate.player.position, position) !== null;
+    }
+
+    /**
+     * How well a player's listed position fits a roster slot, as a POSITION_WEIGHTS key. Null if ineligible.
+     */
+    private getPositionFit(playerPosition: string, slot: Position): PositionFit | null {
+        if (!playerPosition) return null; // Cannot be eligible without a position
+
+        if (PITCHER_SLOTS.includes(slot)) {
+            return PITCHER_POSITIONS.includes(playerPosition) ? 'EXACT' : null; // Player must be some kind of pitcher
+        }
+        if (slot === 'DH') {
+            if (playerPosition === 'DH') return 'EXACT';
+            return (FALLBACK_POSITIONS['DH'] || []).includes(playerPosition) ? 'FALLBACK' : null;
+        }
+        if (OUTFIELD_POSITIONS.includes(slot)) {
+            if (playerPosition === slot || playerPosition === 'OF') return 'EXACT';
+            return OUTFIELD_POSITIONS.includes(playerPosition) ? 'SIMILAR' : null;
+        }
+        // Specific infield/catcher slot
+        if (playerPosition === slot) return 'EXACT';
+        if ((COMPATIBLE_POSITIONS[slot] || []).includes(playerPosition)) return 'COMPATIBLE';
+        if ((SIMILAR_POSITIONS[slot] || []).includes(playerPosition)) return 'SIMILAR';
+        return null;
+    }
+
+    /**
+     * Compute penalty multiplier based on occurrence index (0-indexed).
+     */
+    private computePenaltyMultiplier(index: number): number {
+        if (index === 0) return this.weights.SCORE_WEIGHTS.ARTIST_DIVERSITY_PENALTY.FIRST;
+        if (index === 1) return this.weights.SCORE_WEIGHTS.ARTIST_DIVERSITY_PENALTY.SECOND;
+        if (index === 2) return this.weights.SCORE_WEIGHTS.ARTIST_DIVERSITY_PENALTY.THIRD;
+        if (index === 3) return this.weights.SCORE_WEIGHTS.ARTIST_DIVERSITY_PENALTY.FOURTH;
+        return this.weights.SCORE_WEIGHTS.ARTIST_DIVERSITY_PENALTY.FIFTH_PLUS;
+    }
+
+    /**
+     * Find all possible song matches (top tracks and liked tracks) for a player's song.
+     * Tracks match by Spotify ID when both sides have one, otherwise by fuzzy title and artist.
+     */
+    private async findAllSongMatches(
+        playerSong: NormalizedPlayerSong,
+        userTracks: Record<TimeFrame, NormalizedTrack[]>,
+        likedTrackIdSet: Set<string>,
+        userLibrary: UserLibrary
+    ): Promise<MatchResult[]> {
+        const matches: MatchResult[] = [];
+
+        for (const timeFrame of TIME_FRAMES) {
+            const found = this.findBestNameMatch(userTracks[timeFrame], track => this.getTrackMatchConfidence(playerSong, track));
+            if (!found) continue;
+
+            const matchedTrack = found.item;
+            const rank = matchedTrack.rank || 0;
+            const baseScore = this.weights.SCORE_WEIGHTS.MATCH_TYPE.TOP_SONG + this.weights.SCORE_WEIGHTS.TIME_FRAME[timeFrame] + this.getTrackRankBonus(rank);
+            const details = this.formatRankDetails(rank, timeFrame);
+            matches.push({
+                score: baseScore * found.confidence * (matchedTrack.playShare ?? 1), reason: 'Top song', details, rank, timeFrame,
+                source: 'song', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.TOP_SONG, confidence: found.confidence,
+                trigger: `${matchedTrack.displayName || matchedTrack.name} is your top track ${details}${this.formatConfidence(found.confidence)}`
+            });
+        }
+
+        if (playerSong.spotifyId && likedTrackIdSet.has(playerSong.spotifyId)) {
+            matches.push({
+                score: this.weights.SCORE_WEIGHTS.MATCH_TYPE.LIKED_SONG, reason: 'Liked song',
+                source: 'liked', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.LIKED_SONG, confidence: 1,
+                trigger: 'Saved in your Liked Songs'
+            });
+        }
+
+        const playlistMatch = this.findPlaylistTrackMatch(playerSong, userLibrary);
+        if (playlistMatch) {
+            const { item: playlistTrack, confidence } = playlistMatch;
+            const [firstPlaylist, ...otherPlaylists] = playlistTrack.playlistNames;
+            const morePlaylists = otherPlaylists.length > 0 ? ` and ${otherPlaylists.length} more` : '';
+            matches.push({
+                score: this.weights.SCORE_WEIGHTS.MATCH_TYPE.PLAYLIST_TRACK * confidence, reason: `In your playlist ${firstPlaylist}`,
+                details: `In ${playlistTrack.playlistNames.length} of your playlists`,
+                source: 'playlist', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.PLAYLIST_TRACK, confidence,
+                trigger: `${playlistTrack.displayName || playlistTrack.name} is in ${firstPlaylist}${morePlaylists}${this.formatConfidence(confidence)}`
+            });
+        }
+
+        // Song is on one of the user's saved albums: album title and an artist must both match.
+        // Without an album name, assume a single titled after the song.
+        const songAlbumName = playerSong.albumName || playerSong.name;
+        const savedAlbum = this.findBestNameMatch(userLibrary.savedAlbums, album => {
+            const titleConfidence = songMatchConfidence(songAlbumName, album.name);
+            if (titleConfidence === 0) return 0;
+            const artistConfidence = Math.max(0, ...playerSong.artists.map(artist =>
+                this.getArtistMatchConfidence(artist, { name: album.artistName, id: album.artistId })));
+            return titleConfidence * artistConfidence;
+        });
+        if (savedAlbum) {
+            const albumName = savedAlbum.item.displayName || savedAlbum.item.name;
+            matches.push({
+                score: this.weights.SCORE_WEIGHTS.MATCH_TYPE.SAVED_ALBUM * savedAlbum.confidence, reason: 'Saved album', details: `On ${albumName}`,
+                source: 'album', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.SAVED_ALBUM, confidence: savedAlbum.confidence,
+                trigger: `On your saved album ${albumName}${this.formatConfidence(savedAlbum.confidence)}`
+            });
+        }
+
+        return matches;
+    }
+
+    /**
+     * The user's playlist track for this song: by Spotify ID, else fuzzy title among tracks with the same initial.
+     */
+    private findPlaylistTrackMatch(
+        playerSong: NormalizedPlayerSong,
+        userLibrary: UserLibrary
+    ): { item: NormalizedPlaylistTrack; confidence: number } | null {
+        const byId = playerSong.spotifyId ? userLibrary.playlistTracksById.get(playerSong.spotifyId) : undefined;
+        if (byId) return { item: byId, confidence: 1 };
+        const candidates = userLibrary.playlistTracksByInitial.get(playerSong.name[0]) || [];
+        return this.findBestNameMatch(candidates, track => this.getTrackMatchConfidence(playerSong, track));
+    }
+
+    /**
+     * Confidence (0-1) that a user track is the player's song. Title and an artist must both match.
+     */
+    private getTrackMatchConfidence(playerSong: NormalizedPlayerSong, track: NormalizedTrack): number {
+        if (playerSong.spotifyId && playerSong.spotifyId === track.spotifyId) return 1;
+        // Differing IDs can still be the same recording (remasters, regional releases), so fall through to names
+        const titleConfidence = songMatchConfidence(playerSong.name, track.name);
+        if (titleConfidence === 0) return 0;
+        const artistConfidence = Math.max(0, ...playerSong.artists.map(artist => artistMatchConfidence(artist.name, track.artist)));
+        return titleConfidence * artistConfidence;
+    }
+
+    /**
+     * Check for featured artists in song titles, e.g. "Song (feat. Artist)".
+     */
+    private checkForFeatureMatch(songTitle: string, userArtists: Record<TimeFrame, NormalizedArtist[]>): MatchResult[] {
+        const matches: MatchResult[] = [];
+
+        for (const featuredArtist of extractFeaturedArtists(songTitle)) {
+            const credit = { name: featuredArtist, spotifyId: this.artistRegistry.resolveId(featuredArtist) };
+            for (const timeFrame of TIME_FRAMES) {
+                const found = this.findBestNameMatch(userArtists[timeFrame], artist => this.getArtistMatchConfidence(credit, artist));
+                if (found) {
+                    const matchedArtist = found.item;
+                    const rank = matchedArtist.rank || 0;
+                    const baseScore = this.weights.SCORE_WEIGHTS.MATCH_TYPE.FEATURE + this.weights.SCORE_WEIGHTS.TIME_FRAME[timeFrame] + this.getTrackRankBonus(rank);
+                    const details = this.formatRankDetails(rank, timeFrame);
+                    matches.push({
+                        score: baseScore * found.confidence * (matchedArtist.playShare ?? 1), reason: 'Featured artist', details: `Featured artist ${details}`, rank, timeFrame,
+                        source: 'feature', weight: this.weights.SCORE_WEIGHTS.MATCH_TYPE.FEATURE, confidence: found.confidence,
+                        trigger: `${matchedArtist.displayName || featuredArtist} ${details}${this.formatConfidence(found.confidence)}`
+                    });
+                    break; // Best timeframe found for this artist
+                }
+            }
+        }
+
+        return matches;
+    }
+
+    private normalizePlayerSong(song: WalkupSong): NormalizedPlayerSong {
+        return {
+            name: normalizeSongTitle(song.songName),
+            displayName: song.songName,
+            albumName: normalizeSongTitle(song.albumName || ''),
+            spotifyId: song.spotifyId || '',
+            genres: (song.genre || []).map(g => g.toLowerCase()),
+            artists: song.artists?.length ? this.normalizeSongArtists(song.artists) // Pass structured artists
+                : [{ name: 'unknown', role: 'primary' }] // Provide default if array missing
+        };
+    }
+
+    /**
+     * Normalize a walkup song's artists and attach Spotify IDs, from the song itself or the artist registry.
+     * Unlinked combined credits ("Daddy Yankee & Snow") are also tried artist by artist, but only
+     * when the registry knows every part, so "Earth, Wind & Fire" doesn't become three artists.
+     */
+    private normalizeSongArtists(artists: WalkupSongArtist[]): WalkupSongArtist[] {
+        return artists.flatMap(artist => {
+            const role = artist.role || 'primary'; // Default role if missing
+            const spotifyId = artist.spotifyId || this.artistRegistry.resolveId(artist.name);
+            const normalized: WalkupSongArtist = { name: normalizeArtistName(artist.name), role, spotifyId };
+            const parts = splitArtistCredit(artist.name);
+            if (spotifyId || parts.length < 2) return [normalized];
+            const partIds = parts.map(part => this.artistRegistry.resolveId(part));
+            if (partIds.some(partId => !partId)) return [normalized];
+
+            return [normalized, ...parts.map((part, index): WalkupSongArtist => ({
+                name: normalizeArtistName(part),
+                role: index === 0 ? role : 'featured',
+                spotifyId: partIds[index]
+            }))];
+        });
+    }
+
+    /**
+     * Confidence (0-1) that a credited artist is one of the user's artists.
+     * Spotify IDs decide when both sides have one; otherwise fall back to fuzzy names.
+     */
+    private getArtistMatchConfidence(artist: { name: string; spotifyId?: string }, userArtist: NormalizedArtist): number {
+        if (artist.spotifyId && userArtist.id) {
+            return artist.spotifyId === userArtist.id ? 1 : 0;
+        }
+        return artistMatchConfidence(artist.name, userArtist.name);
+    }
+
+    /**
+     * Highest-confidence item, preferring the earlier (better ranked) item on ties. Null if nothing clears the threshold.
+     */
+    private findBestNameMatch<T>(items: T[], getConfidence: (item: T) => number): { item: T; confidence: number } | null {
+        let best: { item: T; confidence: number } | null = null;
+        for (const item of items) {
+            const confidence = getConfidence(item);
+            if (confidence > 0 && (!best || confidence > best.confidence)) {
+                best = { item, confidence };
+                if (confidence === 1) break; // Items are rank ordered, so the first exact hit wins
+            }
+        }
+        return best;
+    }
+
+    private formatConfidence(confidence: number): string {
+        return confidence < 1 ? ` (${Math.round(confidence * 100)}% name match)` : '';
+    }
+
+    /**
+     * Graded similarity (0-1) between two genres from the genre graph.
+     */
+    private getGenreSimilarity(genre1: string, genre2: string): number {
+        const cacheKey = genre1 < genre2 ? `${genre1}|${genre2}` : `${genre2}|${genre1}`;
+        const cached = this.genreSimilarityCache.get(cacheKey);
+        if (cached !== undefined) return cached;
+
+        const similarity = this.genreGraph.similarity(genre1, genre2);
+        this.genreSimilarityCache.set(cacheKey, similarity);
+        return similarity;
+    }
+
+    private getTrackRankBonus(rank: number): number {
+        if (rank <= 10) return this.weights.SCORE_WEIGHTS.RANK.TOP_10;
+        if (rank <= 25) return this.weights.SCORE_WEIGHTS.RANK.TOP_25;
+        if (rank <= 50) return this.weights.SCORE_WEIGHTS.RANK.TOP_50;
+        return 0;
+    }
+
+    private getArtistRankBonus(rank: number, timeFrame: TimeFrame): number {
+        const rankBonuses = this.weights.SCORE_WEIGHTS.ARTIST_RANK_BONUS[
+            timeFrame === 'short_term' ? 'SHORT_TERM' :
+            timeFrame === 'medium_term' ? 'MEDIUM_TERM' :
+            timeFrame === 'recent' ? 'RECENT' : 'LONG_TERM'
+        ];
+        return rankBonuses.find(tier => rank <= tier.threshold)?.bonus ?? 0;
+    }
+
+    private formatRankDetails(rank: number, timeFrame: TimeFrame): string {
+        return `#${rank} ${timeFrame === 'long_term' ? 'all time' : `in ${this.getTimeFrameLabel(timeFrame)}`}`;
+    }
+
+    private getTimeFrameLabel(timeFrame: TimeFrame): string {
+        switch (timeFrame) {
+            case 'short_term': return 'past 4 weeks';
+            case 'medium_term': return 'past 6 months';
+            case 'long_term': return 'all time';
+            case 'recent': return 'recent plays';
+            default: return '';
+        }
+    }
 
-} // End TeamMatcherService
\ No newline at end of file
+} // End TeamMatcherService
@@ -0,0 +1,109 @@
+// src/services/walkupSongs/walkupAutocompleteService.ts
+import { PlayerWalkupSong } from '@/lib/walkupSongs/types';
+import { WalkupSongFactory } from './walkupSongFactory';
+import { normalizeArtistName, normalizeSongTitle } from './nameMatching';
+
+export type AutocompleteType = 'artist' | 'song' | 'genre';
+
+export const AUTOCOMPLETE_TYPES: readonly AutocompleteType[] = ['artist', 'song', 'genre'];
+
+// A selectable artist, song or genre from the walkup dataset
+export interface AutocompleteSuggestion {
+    type: AutocompleteType;
+    label: string; // Display name
+    artistName?: string; // Primary artist, for songs
+    spotifyId?: string;
+    playerCount: number; // Players walking up to it, used to rank suggestions
+}
+
+interface IndexedSuggestion {
+    searchKey: string; // Normalized name the query is matched against
+    suggestion: AutocompleteSuggestion;
+}
+
+const INDEX_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Autocomplete over the artists, songs and genres in the walkup dataset, so guests
+ * can only pick preferences that some player's walkup songs can match.
+ */
+export class WalkupAutocompleteService {
+    private static instance: WalkupAutocompleteService;
+    private index: { builtAt: number; suggestions: Promise<Record<AutocompleteType, IndexedSuggestion[]>> } | null = null;
+
+    private constructor() {}
+
+    public static getInstance(): WalkupAutocompleteService {
+        if (!WalkupAutocompleteService.instance) {
+            WalkupAutocompleteService.instance = new WalkupAutocompleteService();
+        }
+        return WalkupAutocompleteService.instance;
+    }
+
+    /**
+     * Suggestions of one type whose name contains the query, name prefixes first,
+     * then by how many players walk up to them.
+     */
+    public async search(type: AutocompleteType, query: string, limit = DEFAULT_LIMIT): Promise<AutocompleteSuggestion[]> {
+        const normalizedQuery = type === 'song' ? normalizeSongTitle(query) : normalizeArtistName(query);
+        if (!normalizedQuery) return [];
+
+        const indexed = (await this.getIndex())[type];
+        return indexed
+            .filter(entry => entry.searchKey.includes(normalizedQuery))
+            .sort((a, b) =>
+                Number(b.searchKey.startsWith(normalizedQuery)) - Number(a.searchKey.startsWith(normalizedQuery)) ||
+                b.suggestion.playerCount - a.suggestion.playerCount ||
+                a.suggestion.label.localeCompare(b.suggestion.label)
+            )
+            .slice(0, limit)
+            .map(entry => entry.suggestion);
+    }
+
+    private getIndex(): Promise<Record<AutocompleteType, IndexedSuggestion[]>> {
+        if (!this.index || Date.now() - this.index.builtAt > INDEX_TTL_MS) {
+            const suggestions = WalkupSongFactory.createRepository().getAllPlayerSongs().then(buildIndex);
+            // Don't keep a failed build around; the next search retries
+            suggestions.catch(() => { this.index = null; });
+            this.index = { builtAt: Date.now(), suggestions };
+        }
+        return this.index.suggestions;
+    }
+}
+
+function buildIndex(players: PlayerWalkupSong[]): Record<AutocompleteType, IndexedSuggestion[]> {
+    const index: Record<AutocompleteType, Map<string, { suggestion: AutocompleteSuggestion; playerIds: Set<string> }>> = {
+        artist: new Map(),
+        song: new Map(),
+        genre: new Map()
+    };
+
+    const add = (key: string, playerId: string, suggestion: AutocompleteSuggestion) => {
+        if (!key) return;
+        const entries = index[suggestion.type];
+        if (!entries.has(key)) entries.set(key, { suggestion, playerIds: new Set() });
+        entries.get(key)?.playerIds.add(playerId);
+    };
+
+    players.forEach(player => {
+        const playerSongs = player.walkupSongs?.length ? player.walkupSongs : [player.walkupSong];
+        playerSongs.filter(Boolean).forEach(song => {
+            const primaryArtist = song.artists?.find(artist => artist.role === 'primary') || song.artists?.[0];
+            song.artists?.forEach(artist => add(normalizeArtistName(artist.name), player.playerId, {
+                type: 'artist', label: artist.name, spotifyId: artist.spotifyId, playerCount: 0
+            }));
+            // Songs are searchable by title and artist, e.g. "humble kendrick"
+            add(`${normalizeSongTitle(song.songName)} ${normalizeArtistName(primaryArtist?.name || '')}`.trim(), player.playerId, {
+                type: 'song', label: song.songName, artistName: primaryArtist?.name, spotifyId: song.spotifyId, playerCount: 0
+            });
+            song.genre?.forEach(genre => add(normalizeArtistName(genre), player.playerId, {
+                type: 'genre', label: genre, playerCount: 0
+            }));
+        });
+    });
+
+    const finish = (type: AutocompleteType): IndexedSuggestion[] => Array.from(index[type].entries())
+        .map(([searchKey, { suggestion, playerIds }]) => ({ searchKey, suggestion: { ...suggestion, playerCount: playerIds.size } }));
+    return { artist: finish('artist'), song: finish('song'), genre: finish('genre') };
+}
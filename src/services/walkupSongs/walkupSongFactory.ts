@@ -2,19 +2,54 @@
 import path from 'path';
 import { WalkupSongRepository } from '@/lib/walkupSongs/types';
 import { FlatExcelRepository } from './flatExcelRepository';
+import { MongoWalkupSongRepository } from './mongoWalkupSongRepository';
+import { FileWalkupSongRepository } from './fileWalkupSongRepository';
+import { InMemoryWalkupSongRepository } from './inMemoryWalkupSongRepository';
 import { WalkupSongService } from './walkupSongService';
 
 // Update the path to point to your file in the root data/ folder.
 const dataDir = path.join(process.cwd(), 'data');
 const excelFilePath = path.join(dataDir, 'mlb_walkup_songs_flat.xlsx');
 
+export type WalkupSongRepositoryType = 'mongo' | 'file' | 'excel' | 'memory';
+const REPOSITORY_TYPES: WalkupSongRepositoryType[] = ['mongo', 'file', 'excel', 'memory'];
+
+// Shared so tests and fixtures can seed the same instance the app reads from
+const inMemoryRepository = new InMemoryWalkupSongRepository();
+
 export class WalkupSongFactory {
-  static createRepository(): WalkupSongRepository {
-    return new FlatExcelRepository(excelFilePath);
+  /**
+   * Repository chosen by WALKUP_SONG_REPOSITORY. Defaults to 'mongo', the synced WalkupDB data
+   * with stats; before configurable backends the app always read the 'excel' sheet.
+   * 'file' reads the JSON or CSV at WALKUP_SONG_DATA_FILE.
+   */
+  static createRepository(type: string | undefined = process.env.WALKUP_SONG_REPOSITORY): WalkupSongRepository {
+    const repositoryType = (type || 'mongo').toLowerCase() as WalkupSongRepositoryType;
+
+    switch (repositoryType) {
+      case 'mongo':
+        return new MongoWalkupSongRepository();
+      case 'file': {
+        const dataFile = process.env.WALKUP_SONG_DATA_FILE;
+        if (!dataFile) {
+          throw new Error('WALKUP_SONG_DATA_FILE must be set when WALKUP_SONG_REPOSITORY is "file"');
+        }
+        return new FileWalkupSongRepository(path.resolve(process.cwd(), dataFile));
+      }
+      case 'excel':
+        return new FlatExcelRepository(excelFilePath);
+      case 'memory':
+        return inMemoryRepository;
+      default:
+        throw new Error(`Unknown WALKUP_SONG_REPOSITORY "${type}". Expected one of: ${REPOSITORY_TYPES.join(', ')}`);
+    }
+  }
+
+  static getInMemoryRepository(): InMemoryWalkupSongRepository {
+    return inMemoryRepository;
   }
   
   static createService(): WalkupSongService {
-    const repository = this.createRepository();
-    return new WalkupSongService(repository);
+    return WalkupSongService.getInstance();
   }
 }
@@ -1,20 +1,29 @@
 // src/services/walkupSongs/walkupSongSyncService.ts
+import crypto from 'crypto';
 import mongoose from 'mongoose';
-import cron from 'node-cron';
 import { Player, PlayerDocument, WalkupSongSubdocument } from '@/models/playerModel';
 import { WalkupDbClient, ApiPlayerDetailResponse, ApiPlayerListItem } from '@/services/walkupDb/walkupDbClient';
+import { SyncCheckpoint, SyncCheckpointDocument } from '@/models/syncCheckpointModel';
+import { SyncRunTrigger } from '@/models/syncRunModel';
 import { PlayerWalkupSong } from '@/lib/walkupSongs/types'; // For return type mapping
+import { mapPlayerDocument } from './mongoWalkupSongRepository';
+import { PlayerSyncResult, SyncRunService } from './syncRunService';
+import { PlayerSyncFields, diffPlayer } from './playerDiff';
+
+const SYNC_JOB_NAME = 'walkupdb-player-sync';
+const SYNC_SOURCE = 'walkupdb';
+// Renewed after every player, so a crashed run frees the job within a few minutes
+const LEASE_DURATION_MS = 5 * 60 * 1000;
+
+type UpstreamPlayerVersion = Pick<PlayerDocument, 'upstreamEtag' | 'upstreamLastModified' | 'upstreamHash'>;
 
 export class WalkupSongSyncService {
     private static instance: WalkupSongSyncService;
     private walkupDbClient: WalkupDbClient;
-    private isUpdating = false;
-    private readonly RATE_LIMIT_DELAY = 1000; // Delay for WalkupDB API
 
     private constructor() {
         this.walkupDbClient = WalkupDbClient.getInstance(); // Use the dedicated client
         this.initializeMongoDB();
-                 this.scheduleDailyUpdate();
     }
 
     public static getInstance(): WalkupSongSyncService {
@@ -42,78 +51,170 @@ export class WalkupSongSyncService {
         }
     }
 
-    private scheduleDailyUpdate(): void {
-        // Schedule to run daily at 3 AM (or your preferred time)
-        cron.schedule('0 3 * * *', async () => {
-            console.log('WalkupSongSyncService: Starting scheduled player data update...');
-                 await this.updatePlayerData();
-        }, {
-             scheduled: true,
-            timezone: "America/Chicago" // Example timezone
-        });
-        console.log("WalkupSongSyncService: Daily update job scheduled.");
-    }
-
-    private async delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
-    }
-
     /**
-     * Fetches all players from WalkupDB API and updates local MongoDB.
+     * Syncs players from the WalkupDB API into local MongoDB. Progress is checkpointed
+     * after every player, so a run that dies partway resumes where it left off, and
+     * players whose upstream data hasn't changed are skipped.
+     * Pass restart to discard an unfinished run and start over.
+     * Each run is recorded as a SyncRun with per-player outcomes and diffs. A run that
+     * fails is recorded, then rethrown so the job scheduler can retry it.
+     * @returns 'skipped' when another process holds the sync lease, or takes it over mid-run
      */
-    public async updatePlayerData(): Promise<void> {
-        if (this.isUpdating) {
+    public async updatePlayerData(options: { restart?: boolean; trigger?: SyncRunTrigger } = {}): Promise<'completed' | 'skipped'> {
+        await this.initializeMongoDB(); // Ensure connection before starting
+        const runId = crypto.randomUUID();
+
+        let previous: SyncCheckpointDocument | null;
+        try {
+            previous = await this.acquireSyncLease(runId);
+        } catch (error) {
+            // A held lease makes the upsert collide with the existing checkpoint
+            if ((error as { code?: number }).code !== 11000) throw error;
             console.log('WalkupSongSyncService: Update already in progress, skipping.');
-            return;
+            return 'skipped';
         }
-        this.isUpdating = true;
-        console.log('WalkupSongSyncService: Starting player data update...');
-        try {
-            await this.initializeMongoDB(); // Ensure connection before starting
 
-            const playersFromApi: ApiPlayerListItem[] = await this.walkupDbClient.fetchAllPlayers();
-            console.log(`WalkupSongSyncService: Found ${playersFromApi.length} players from API to process.`);
+        const syncRuns = SyncRunService.getInstance();
+        let syncRunId: string | null = null;
+        try {
+            const resuming = !options.restart && previous !== null && previous.status !== 'completed' && previous.playerIds.length > 0;
+            let playerIds: string[];
+            let nextIndex: number;
+            if (resuming && previous) {
+                playerIds = previous.playerIds;
+                nextIndex = previous.nextIndex;
+                console.log(`WalkupSongSyncService: Resuming player data update at ${nextIndex}/${playerIds.length}...`);
+            } else {
+                console.log('WalkupSongSyncService: Starting player data update...');
+                // Forget the previous run's list first, so a failed fetch can't leave it looking resumable
+                await SyncCheckpoint.updateOne({ jobName: SYNC_JOB_NAME, runId }, { $set: { playerIds: [], nextIndex: 0 } });
+                const playersFromApi: ApiPlayerListItem[] = await this.walkupDbClient.fetchAllPlayers();
+                playerIds = playersFromApi.map(player => String(player.id));
+                nextIndex = 0;
+                await SyncCheckpoint.updateOne({ jobName: SYNC_JOB_NAME, runId }, {
+                    $set: {
+                        playerIds,
+                        nextIndex,
+                        counts: { created: 0, updated: 0, unchanged: 0, errors: 0 },
+                        startedAt: new Date(),
+                        leaseExpiresAt: new Date(Date.now() + LEASE_DURATION_MS)
+                    },
+                    $unset: { completedAt: '', lastError: '' }
+                });
+                console.log(`WalkupSongSyncService: Found ${playerIds.length} players from API to process.`);
+            }
 
-        let updatedCount = 0;
-        let createdCount = 0;
-        let errorCount = 0;
+            syncRunId = await syncRuns.startRun({
+                source: SYNC_SOURCE,
+                trigger: options.trigger ?? 'cli',
+                totalPlayers: playerIds.length,
+                resumedAtIndex: nextIndex
+            });
 
-            for (const playerItem of playersFromApi) {
-                try {
-                    const details = await this.walkupDbClient.fetchPlayerDetails(playerItem.id); // Use client
-                     if (details) {
-                         const result = await this.savePlayerToMongoDB(details);
-                        if (result === 'created') createdCount++;
-                         if (result === 'updated') updatedCount++;
-                     } else {
-                         errorCount++;
-                     }
-                    // Use the client's built-in rate limiting, no extra delay needed here
-                } catch (playerError) {
-                    console.error(`WalkupSongSyncService: Error processing player ID ${playerItem.id}:`, playerError);
-                     errorCount++;
+            for (let index = nextIndex; index < playerIds.length; index++) {
+                const result = await this.syncPlayer(playerIds[index]);
+                await syncRuns.recordPlayer(syncRunId, result)
+                    .catch(recordError => console.warn(`WalkupSongSyncService: Failed to record sync of player ${result.playerId}:`, recordError));
+                const counter = result.outcome === 'skipped' || result.outcome === 'error' ? 'errors' : result.outcome;
+                const checkpointed = await SyncCheckpoint.updateOne({ jobName: SYNC_JOB_NAME, runId }, {
+                    $set: { nextIndex: index + 1, leaseExpiresAt: new Date(Date.now() + LEASE_DURATION_MS) },
+                    $inc: { [`counts.${counter}`]: 1 }
+                });
+                if (checkpointed.matchedCount === 0) {
+                    console.warn('WalkupSongSyncService: Lost the sync lease to another process, stopping.');
+                    await syncRuns.finishRun(syncRunId, 'failed', 'Lost the sync lease to another process');
+                    return 'skipped';
                 }
             }
-            console.log(`WalkupSongSyncService: Player data update complete. Updated: ${updatedCount}, Created: ${createdCount}, Errors: ${errorCount}`);
+
+            const finished: SyncCheckpointDocument | null = await SyncCheckpoint.findOneAndUpdate(
+                { jobName: SYNC_JOB_NAME, runId },
+                { $set: { status: 'completed', completedAt: new Date() } },
+                { new: true }
+            );
+            await syncRuns.finishRun(syncRunId, 'completed');
+            const counts = finished?.counts;
+            console.log(`WalkupSongSyncService: Player data update complete. Updated: ${counts?.updated}, Created: ${counts?.created}, Unchanged: ${counts?.unchanged}, Errors: ${counts?.errors}`);
+            return 'completed';
         } catch (error) {
             console.error('WalkupSongSyncService: Fatal error during player data update:', error);
-        } finally {
-            this.isUpdating = false;
-            // Optional: Disconnect if run as a standalone script, otherwise keep connection open for server
-            // await mongoose.disconnect();
+            const message = error instanceof Error ? error.message : String(error);
+            // Keep the checkpoint so the next run resumes from here
+            await SyncCheckpoint.updateOne({ jobName: SYNC_JOB_NAME, runId }, {
+                $set: { status: 'failed', lastError: message }
+            }).catch(checkpointError => console.error('WalkupSongSyncService: Failed to record sync failure:', checkpointError));
+            if (syncRunId) {
+                await syncRuns.finishRun(syncRunId, 'failed', message)
+                    .catch(recordError => console.error('WalkupSongSyncService: Failed to record sync failure:', recordError));
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Take the sync lease unless another run holds an unexpired one. Returns the
+     * checkpoint as it was before this run took it over (null on the first ever run),
+     * and throws a duplicate-key error if the lease is held.
+     */
+    private async acquireSyncLease(runId: string): Promise<SyncCheckpointDocument | null> {
+        const now = new Date();
+        return SyncCheckpoint.findOneAndUpdate(
+            { jobName: SYNC_JOB_NAME, $or: [{ status: { $ne: 'running' } }, { leaseExpiresAt: { $lte: now } }] },
+            {
+                $set: { runId, status: 'running', leaseExpiresAt: new Date(now.getTime() + LEASE_DURATION_MS) },
+                $setOnInsert: { startedAt: now }
+            },
+            { upsert: true, new: false }
+        );
+    }
+
+    /**
+     * Syncs one player, skipping the save when WalkupDB reports the record unchanged
+     * (via ETag / Last-Modified) or its payload hashes the same as last time.
+     */
+    private async syncPlayer(playerId: string): Promise<PlayerSyncResult> {
+        try {
+            const existing = await Player.findOne({ id: playerId }, { upstreamEtag: 1, upstreamLastModified: 1, upstreamHash: 1 }).lean<UpstreamPlayerVersion>();
+            const fetched = await this.walkupDbClient.fetchPlayerDetailsIfChanged(playerId, {
+                etag: existing?.upstreamEtag,
+                lastModified: existing?.upstreamLastModified
+            });
+            if (fetched.status === 'not_modified') return { playerId, outcome: 'unchanged' };
+            if (fetched.status === 'error') return { playerId, outcome: 'error', error: 'Failed to fetch player details from WalkupDB' };
+
+            const upstreamVersion = {
+                upstreamEtag: fetched.version.etag,
+                upstreamLastModified: fetched.version.lastModified,
+                upstreamHash: crypto.createHash('sha256').update(JSON.stringify(fetched.details.data)).digest('hex')
+            };
+            if (existing?.upstreamHash === upstreamVersion.upstreamHash) {
+                await Player.updateOne({ id: playerId }, { $set: upstreamVersion });
+                return { playerId, playerName: fetched.details.data.name, outcome: 'unchanged' };
+            }
+
+            const result = await this.savePlayerToMongoDB(fetched.details);
+            // Invalid records aren't saved, so leave their version unset and refetch next time
+            if (result.outcome === 'created' || result.outcome === 'updated') {
+                await Player.updateOne({ id: playerId }, { $set: upstreamVersion });
+            }
+            return { ...result, playerId };
+        } catch (playerError) {
+            console.error(`WalkupSongSyncService: Error processing player ID ${playerId}:`, playerError);
+            return { playerId, outcome: 'error', error: playerError instanceof Error ? playerError.message : String(playerError) };
         }
     }
 
     /**
      * Saves or updates a single player's data in MongoDB based on API response.
      * Incorporates fixes for artists array and genre preservation.
+     * Returns what changed, for the sync run's audit log.
      */
-    private async savePlayerToMongoDB(apiResponse: ApiPlayerDetailResponse): Promise<'created' | 'updated' | 'skipped' | 'error'> {
+    private async savePlayerToMongoDB(apiResponse: ApiPlayerDetailResponse): Promise<Omit<PlayerSyncResult, 'playerId'>> {
         try {
             const playerData = apiResponse.data;
             if (!playerData?.id || !playerData?.name || !playerData?.mlb_id) {
                 console.warn('WalkupSongSyncService: Invalid player data received from API, skipping save.', playerData);
-                return 'skipped';
+                return { playerName: playerData?.name, outcome: 'skipped', error: 'Player is missing an id, name or mlb_id' };
             }
 
             // --- Parse songs from API Data - START ---
@@ -172,7 +273,8 @@ export class WalkupSongSyncService {
                         songName: String(existingSongDoc.songName),
                         artists: existingSongDoc.artists?.map(a => ({ 
                             name: String(a.name), 
-                            role: a.role 
+                            role: a.role,
+                            ...(a.spotifyId ? { spotifyId: String(a.spotifyId) } : {}) // Keep links to the Artist collection
                         })) || [],
                         albumName: String(existingSongDoc.albumName),
                         spotifyId: String(existingSongDoc.spotifyId),
@@ -204,7 +306,17 @@ export class WalkupSongSyncService {
                 updateData.walkupSongs = finalSongList;
 
                 await Player.updateOne({ id: String(playerData.id) }, { $set: updateData });
-                return 'updated';
+                return {
+                    playerName: updateData.name,
+                    outcome: 'updated',
+                    diff: diffPlayer(toSyncFields(existingPlayer, existingPlayer.walkupSongs), {
+                        ...toSyncFields(existingPlayer, finalSongList),
+                        mlbId: String(updateData.mlbId),
+                        name: String(updateData.name),
+                        team: String(updateData.team),
+                        teamId: String(updateData.teamId)
+                    })
+                };
 
             } else {
                 // --- CREATE NEW PLAYER ---
@@ -220,11 +332,15 @@ export class WalkupSongSyncService {
                     stats: { batting: {}, pitching: {} }
                 });
                 await newPlayer.save();
-                return 'created';
+                return {
+                    playerName: newPlayer.name,
+                    outcome: 'created',
+                    diff: diffPlayer(null, toSyncFields(newPlayer, newSongsFromApi))
+                };
             }
         } catch (error) {
             console.error(`WalkupSongSyncService: Error saving player ${apiResponse?.data?.name || 'ID ' + apiResponse?.data?.id}:`, error);
-            return 'error';
+            return { playerName: apiResponse?.data?.name, outcome: 'error', error: error instanceof Error ? error.message : String(error) };
         }
     }
 
@@ -236,67 +352,21 @@ export class WalkupSongSyncService {
         try {
             await this.initializeMongoDB(); // Ensure connection
             const players = await Player.find({});
-            return players.map(this.mapDocumentToPlayerWalkupSong); // Use helper to map
+            return players.map(mapPlayerDocument); // Shared with MongoWalkupSongRepository
         } catch (error) {
             console.error('WalkupSongSyncService: Error fetching all players from MongoDB:', error);
             return [];
         }
     }
+}
 
-    // Helper to map DB document to the PlayerWalkupSong type used elsewhere
-    private mapDocumentToPlayerWalkupSong(doc: PlayerDocument): PlayerWalkupSong {
-        return {
-            playerId: doc.id,
-            playerName: doc.name,
-            position: doc.position,
-            team: doc.team,
-            teamId: doc.teamId,
-            // Map the walkupSongs array
-            walkupSongs: (doc.walkupSongs || []).map(song => ({
-                id: song.id,
-                songName: song.songName,
-                // artistName: song.artistName, // REMOVED
-                artists: song.artists?.map(a => ({ name: a.name, role: a.role })) || [], // Ensure mapping
-                albumName: song.albumName,
-                spotifyId: song.spotifyId,
-                youtubeId: song.youtubeId,
-                genre: song.genre,
-                albumArt: song.albumArt,
-                previewUrl: song.previewUrl
-            })),
-            // Map stats
-            stats: {
-            batting: {
-                    battingAvg: doc.stats?.batting?.battingAvg ?? 0,
-                    onBasePercentage: doc.stats?.batting?.onBasePercentage ?? 0,
-                    sluggingPercentage: doc.stats?.batting?.sluggingPercentage ?? 0,
-                    plateAppearances: doc.stats?.batting?.plateAppearances ?? 0
-            },
-            pitching: {
-                    earnedRunAvg: doc.stats?.pitching?.earnedRunAvg ?? 0,
-                    inningsPitched: doc.stats?.pitching?.inningsPitched ?? 0
-                }
-            },
-             // Add legacy walkupSong field if needed by other parts (ideally refactor away)
-            walkupSong: (doc.walkupSongs && doc.walkupSongs.length > 0)
-             ? ({
-                  id: doc.walkupSongs[0].id,
-                  songName: doc.walkupSongs[0].songName,
-                  // artistName: doc.walkupSongs[0].artistName, // REMOVED
-                  artists: doc.walkupSongs[0].artists?.map(a => ({ name: a.name, role: a.role })) || [],
-                  albumName: doc.walkupSongs[0].albumName,
-                  spotifyId: doc.walkupSongs[0].spotifyId,
-                  youtubeId: doc.walkupSongs[0].youtubeId,
-                  genre: doc.walkupSongs[0].genre,
-                  albumArt: doc.walkupSongs[0].albumArt,
-                  previewUrl: doc.walkupSongs[0].previewUrl
-                })
-             : { id: 'unknown', songName: 'Unknown', artists: [], albumName: '', spotifyId: '', youtubeId: '', genre: [], albumArt: '', previewUrl: null }, // Provide default structure
-            // Pass match details if they exist (though they likely belong in PlayerWithScore)
-            matchReason: doc.matchReason,
-            rankInfo: doc.rankInfo,
-            matchScore: doc.matchScore,
-            // matchingSongs: [] // This should be populated by matcher service, not read directly from DB player doc
-        };
-    }
-}
\ No newline at end of file
+function toSyncFields(player: PlayerDocument, walkupSongs: WalkupSongSubdocument[]): PlayerSyncFields {
+    return {
+        mlbId: player.mlbId,
+        name: player.name,
+        position: player.position,
+        team: player.team,
+        teamId: player.teamId,
+        walkupSongs
+    };
+}